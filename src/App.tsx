@@ -1,11 +1,13 @@
 import { useState, useEffect } from 'react'
 import { HashRouter as Router, Routes, Route, Link, useLocation, Navigate } from 'react-router-dom'
-import { Sparkles, HelpCircle, X, Image as ImageIcon, FileText, Languages } from 'lucide-react'
+import { Sparkles, HelpCircle, X, Image as ImageIcon, FileText, Languages, Smartphone, ScanSearch } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { Button } from '@/components/ui/button'
 import { Analytics } from '@/lib/analytics'
 import { StringResourceProcessor } from '@/components/StringResourceProcessor'
 import { DrawableProcessor } from '@/components/DrawableProcessor'
+import { LauncherIconProcessor } from '@/components/LauncherIconProcessor'
+import { DrawableAuditProcessor } from '@/components/DrawableAuditProcessor'
 
 function Navigation() {
   const location = useLocation()
@@ -23,6 +25,26 @@ function Navigation() {
         <ImageIcon className="h-4 w-4" />
         {t('nav.drawable')}
       </Link>
+      <Link
+        to="/launcher"
+        className={`flex items-center gap-2 px-4 text-sm font-semibold border-b-2 transition-all ${location.pathname === '/launcher'
+          ? 'border-primary text-primary bg-primary/[0.03]'
+          : 'border-transparent text-muted-foreground hover:text-foreground hover:bg-slate-50'
+          }`}
+      >
+        <Smartphone className="h-4 w-4" />
+        {t('nav.launcher')}
+      </Link>
+      <Link
+        to="/audit"
+        className={`flex items-center gap-2 px-4 text-sm font-semibold border-b-2 transition-all ${location.pathname === '/audit'
+          ? 'border-primary text-primary bg-primary/[0.03]'
+          : 'border-transparent text-muted-foreground hover:text-foreground hover:bg-slate-50'
+          }`}
+      >
+        <ScanSearch className="h-4 w-4" />
+        {t('nav.audit')}
+      </Link>
       <Link
         to="/string"
         className={`flex items-center gap-2 px-4 text-sm font-semibold border-b-2 transition-all ${location.pathname === '/string'
@@ -43,7 +65,13 @@ function PageTracker() {
 
   useEffect(() => {
     // Get title translation key based on current path, default to 'ResBeaver'
-    const titleKey = location.pathname === '/drawable' ? 'nav.drawable' : (location.pathname === '/string' ? 'nav.string' : null)
+    const titleKeys: Record<string, string> = {
+      '/drawable': 'nav.drawable',
+      '/launcher': 'nav.launcher',
+      '/audit': 'nav.audit',
+      '/string': 'nav.string'
+    }
+    const titleKey = titleKeys[location.pathname] || null
     const pageTitle = titleKey ? `ResBeaver - ${t(titleKey)}` : 'ResBeaver'
 
     // Update document title
@@ -285,6 +313,8 @@ function App() {
         <div className="flex-1 flex flex-col overflow-hidden">
           <Routes>
             <Route path="/drawable" element={<DrawableProcessor />} />
+            <Route path="/launcher" element={<LauncherIconProcessor />} />
+            <Route path="/audit" element={<DrawableAuditProcessor />} />
             <Route path="/string" element={<StringResourceProcessor />} />
             <Route path="/" element={<Navigate to="/drawable" replace />} />
           </Routes>
@@ -0,0 +1,319 @@
+import { useState, useRef, useCallback } from 'react'
+import { Download } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { AndroidResourceDir, AuditReport, AuditStatus, UnusedDeleteStatus, UnusedDrawableIssue, WebPConversionItem, WebPConversionStatus } from '@/types'
+import { findAndroidResourceDirectories } from '@/lib/xmlUtils'
+import { loadConfig, getDefaultConfig } from '@/lib/storage'
+import { AuditProgress, DEFAULT_MIN_SAVING, auditProject, deleteUnusedDrawables, exportAuditReport, getAuditIssueCount } from '@/lib/drawableAudit'
+import { DEFAULT_MIN_SDK, planWebPConversion, readMinSdk, writeWebPConversion } from '@/lib/webpConversion'
+import { isAbortError } from '@/lib/workerPool'
+import { Analytics } from '@/lib/analytics'
+
+// Sub-components
+import { AuditSidebar } from './audit/AuditSidebar'
+import { AuditReportView } from './audit/AuditReportView'
+import { WebPConversionDialog } from './audit/WebPConversionDialog'
+import { UnusedDeleteDialog } from './audit/UnusedDeleteDialog'
+
+export function DrawableAuditProcessor() {
+    const { t } = useTranslation()
+    const [rootHandle, setRootHandle] = useState<FileSystemDirectoryHandle | null>(null)
+    const [resDirs, setResDirs] = useState<AndroidResourceDir[]>([])
+    const [status, setStatus] = useState<AuditStatus>('idle')
+    const [error, setError] = useState<string | null>(null)
+    const [progress, setProgress] = useState<AuditProgress | null>(null)
+    const [report, setReport] = useState<AuditReport | null>(null)
+    const [minSaving, setMinSaving] = useState(DEFAULT_MIN_SAVING)
+    // WebP savings are measured with the Drawable converter's encoder settings
+    const [config] = useState(() => loadConfig() || getDefaultConfig())
+    const abortControllerRef = useRef<AbortController | null>(null)
+
+    // In-place WebP conversion of one module
+    const [showConvertDialog, setShowConvertDialog] = useState(false)
+    const [convertResDir, setConvertResDir] = useState<AndroidResourceDir | null>(null)
+    const [convertMinSdk, setConvertMinSdk] = useState(DEFAULT_MIN_SDK)
+    const [skipLauncherIcons, setSkipLauncherIcons] = useState(true)
+    const [convertItems, setConvertItems] = useState<WebPConversionItem[]>([])
+    const [convertStatus, setConvertStatus] = useState<WebPConversionStatus>('scanning')
+    const [convertError, setConvertError] = useState<string | null>(null)
+    const [convertProgress, setConvertProgress] = useState({ current: 0, total: 0, fileName: '' })
+    const [convertedCount, setConvertedCount] = useState(0)
+    const convertAbortRef = useRef<AbortController | null>(null)
+
+    // Batch deletion of unused drawables
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+    const [deleteStatus, setDeleteStatus] = useState<UnusedDeleteStatus>('ready')
+    const [deleteError, setDeleteError] = useState<string | null>(null)
+    const [deleteProgress, setDeleteProgress] = useState({ current: 0, total: 0, fileName: '' })
+    const [deletedCount, setDeletedCount] = useState(0)
+
+    // Check if File System Access API is supported
+    const isSupported = 'showDirectoryPicker' in window
+
+    const scan = useCallback(async (handle: FileSystemDirectoryHandle, dirs: AndroidResourceDir[]) => {
+        const controller = new AbortController()
+        abortControllerRef.current = controller
+        setStatus('scanning')
+        setError(null)
+        setProgress(null)
+        try {
+            const result = await auditProject(
+                handle,
+                dirs,
+                { quality: config.quality, lossless: config.lossless, webp: config.webp, minSaving },
+                setProgress,
+                controller.signal
+            )
+            setReport(result)
+            setStatus('ready')
+            Analytics.auditScan(dirs.length, result.fileCount, getAuditIssueCount(result))
+        } catch (err) {
+            if (isAbortError(err)) {
+                setStatus(report ? 'ready' : 'idle')
+            } else {
+                console.error('Failed to audit project:', err)
+                setError(t('audit.scanFailed'))
+                setStatus('error')
+            }
+        } finally {
+            abortControllerRef.current = null
+        }
+    }, [config, minSaving, report, t])
+
+    const openProject = useCallback(async () => {
+        let handle: FileSystemDirectoryHandle
+        try {
+            handle = await window.showDirectoryPicker({ mode: 'readwrite', id: 'audit-project-dir' })
+        } catch (err) {
+            if ((err as Error).name !== 'AbortError') {
+                console.error('Failed to select project:', err)
+            }
+            return
+        }
+
+        setRootHandle(handle)
+        setReport(null)
+        let dirs: AndroidResourceDir[]
+        try {
+            dirs = await findAndroidResourceDirectories(handle)
+        } catch (err) {
+            console.error('Failed to scan project:', err)
+            dirs = []
+        }
+        setResDirs(dirs)
+
+        if (dirs.length === 0) {
+            setError(t('audit.noResDirFound'))
+            setStatus('error')
+            return
+        }
+        await scan(handle, dirs)
+    }, [scan, t])
+
+    const planConversion = useCallback(async (resDir: AndroidResourceDir, minSdk: number, skipLauncher: boolean) => {
+        convertAbortRef.current?.abort()
+        const controller = new AbortController()
+        convertAbortRef.current = controller
+        setConvertResDir(resDir)
+        setConvertItems([])
+        setConvertStatus('scanning')
+        setConvertError(null)
+        setConvertProgress({ current: 0, total: 0, fileName: '' })
+        try {
+            const items = await planWebPConversion(
+                resDir,
+                { quality: config.quality, lossless: config.lossless, webp: config.webp, minSdk, skipLauncherIcons: skipLauncher },
+                (current, total, fileName) => setConvertProgress({ current, total, fileName }),
+                controller.signal
+            )
+            setConvertItems(items)
+            setConvertStatus('ready')
+        } catch (err) {
+            if (isAbortError(err)) return
+            console.error('Failed to prepare WebP conversion:', err)
+            setConvertError(t('audit.convert.scanFailed'))
+            setConvertStatus('error')
+        }
+    }, [config, t])
+
+    // Conversion settings follow the module's build file when it sets minSdk
+    const selectConvertResDir = useCallback(async (resDir: AndroidResourceDir) => {
+        const minSdk = (rootHandle && await readMinSdk(rootHandle, resDir)) || DEFAULT_MIN_SDK
+        setConvertMinSdk(minSdk)
+        await planConversion(resDir, minSdk, skipLauncherIcons)
+    }, [rootHandle, planConversion, skipLauncherIcons])
+
+    const openConversion = () => {
+        if (resDirs.length === 0) return
+        setConvertedCount(0)
+        setShowConvertDialog(true)
+        const appModule = resDirs.find(d => d.name.toLowerCase() === 'app' && d.layout === 'android')
+        selectConvertResDir(appModule || resDirs[0])
+    }
+
+    const closeConversion = useCallback(() => {
+        convertAbortRef.current?.abort()
+        convertAbortRef.current = null
+        setShowConvertDialog(false)
+        setConvertItems([])
+    }, [])
+
+    const confirmConversion = async () => {
+        if (!convertResDir) return
+        setConvertStatus('writing')
+        setConvertError(null)
+        try {
+            const count = await writeWebPConversion(
+                convertResDir,
+                convertItems,
+                (current, total, fileName) => setConvertProgress({ current, total, fileName })
+            )
+            setConvertedCount(count)
+            setConvertStatus('completed')
+            Analytics.convertToWebP(count, convertItems.filter(item => item.selected).reduce((sum, item) => sum + item.size - item.webpSize!, 0))
+        } catch (err) {
+            console.error('Failed to convert files:', err)
+            setConvertError(t('audit.convert.writeFailed'))
+            setConvertStatus('error')
+        }
+    }
+
+    const openDeleteUnused = () => {
+        setDeleteStatus('ready')
+        setDeleteError(null)
+        setDeletedCount(0)
+        setShowDeleteDialog(true)
+    }
+
+    const closeDeleteUnused = useCallback(() => setShowDeleteDialog(false), [])
+
+    const confirmDeleteUnused = async (issues: UnusedDrawableIssue[]) => {
+        setDeleteStatus('deleting')
+        setDeleteError(null)
+        try {
+            const count = await deleteUnusedDrawables(
+                resDirs,
+                issues,
+                (current, total, fileName) => setDeleteProgress({ current, total, fileName })
+            )
+            setDeletedCount(count)
+            setDeleteStatus('completed')
+            Analytics.deleteUnusedDrawables(issues.length, count)
+        } catch (err) {
+            console.error('Failed to delete drawables:', err)
+            setDeleteError(t('audit.unused.deleteFailed'))
+            setDeleteStatus('error')
+        }
+    }
+
+    const exportReport = (format: 'json' | 'csv') => {
+        if (!report) return
+        exportAuditReport(report, format)
+        Analytics.auditExport(format)
+    }
+
+    if (!isSupported) {
+        return (
+            <div className="flex-1 flex items-center justify-center p-6">
+                <div className="text-center max-w-md">
+                    <h2 className="text-lg font-semibold mb-2">{t('string.notSupported')}</h2>
+                    <p className="text-muted-foreground">
+                        {t('string.notSupportedDesc')}
+                    </p>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex flex-1 overflow-hidden relative">
+            <AuditSidebar
+                projectName={rootHandle?.name ?? null}
+                resDirs={resDirs}
+                status={status}
+                quality={config.quality}
+                lossless={config.lossless}
+                minSaving={minSaving}
+                onOpenProject={openProject}
+                onScan={() => rootHandle && scan(rootHandle, resDirs)}
+                onConvert={openConversion}
+                onCancel={() => abortControllerRef.current?.abort()}
+                onMinSavingChange={setMinSaving}
+            />
+
+            <main className="flex-1 flex flex-col overflow-hidden">
+                <AuditReportView report={report} status={status} progress={progress} error={error} onDeleteUnused={openDeleteUnused} />
+
+                {/* Bottom Action Bar */}
+                {report && status !== 'scanning' && (
+                    <div className="flex-shrink-0 border-t bg-white px-6 py-3 flex items-center justify-between">
+                        <div className="text-sm">
+                            {error ? (
+                                <span className="text-red-600">{error}</span>
+                            ) : (
+                                <span className="text-muted-foreground">{t('audit.issueCount', { count: getAuditIssueCount(report) })}</span>
+                            )}
+                        </div>
+                        <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => exportReport('json')}>
+                                <Download className="h-4 w-4 mr-1" />
+                                {t('audit.exportJson')}
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => exportReport('csv')}>
+                                <Download className="h-4 w-4 mr-1" />
+                                {t('audit.exportCsv')}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </main>
+
+            <WebPConversionDialog
+                open={showConvertDialog}
+                resDirs={resDirs}
+                selectedResDir={convertResDir}
+                minSdk={convertMinSdk}
+                skipLauncherIcons={skipLauncherIcons}
+                quality={config.quality}
+                lossless={config.lossless}
+                items={convertItems}
+                status={convertStatus}
+                error={convertError}
+                progress={convertProgress}
+                convertedCount={convertedCount}
+                onClose={closeConversion}
+                onSelectResDir={selectConvertResDir}
+                onMinSdkChange={(minSdk) => {
+                    setConvertMinSdk(minSdk)
+                    if (convertResDir) planConversion(convertResDir, minSdk, skipLauncherIcons)
+                }}
+                onSkipLauncherIconsChange={(skip) => {
+                    setSkipLauncherIcons(skip)
+                    if (convertResDir) planConversion(convertResDir, convertMinSdk, skip)
+                }}
+                onItemsChange={setConvertItems}
+                onConfirm={confirmConversion}
+                onConfirmCompletion={() => {
+                    closeConversion()
+                    if (rootHandle) scan(rootHandle, resDirs)
+                }}
+            />
+
+            <UnusedDeleteDialog
+                open={showDeleteDialog}
+                issues={report?.unusedDrawables ?? []}
+                status={deleteStatus}
+                error={deleteError}
+                progress={deleteProgress}
+                deletedCount={deletedCount}
+                onClose={closeDeleteUnused}
+                onConfirm={confirmDeleteUnused}
+                onConfirmCompletion={() => {
+                    setShowDeleteDialog(false)
+                    if (rootHandle) scan(rootHandle, resDirs)
+                }}
+            />
+        </div>
+    )
+}
@@ -1,8 +1,19 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
-import { ConvertConfig, ProcessingFile, ConvertedImage } from '@/types'
+import { AndroidResourceDir, ColorVariant, ConvertedImage, ConvertConfig, ConvertOverrides, ImageFile, ImageTransform, NightTransform, ProcessingFile, ResourceLayout, TransformLayout, ProjectExportItem, ProjectExportStatus } from '@/types'
 import { saveConfig, loadConfig, getDefaultConfig } from '@/lib/storage'
-import { createImageFile, resizeImage, canvasToWebP, calculateDensities } from '@/lib/imageUtils'
+import { createImageFile, isSvgFile, isPdfFile } from '@/lib/imageUtils'
+import { convertImageFile, buildVectorReport, buildBudgetReport, getBudgetResults, getBaseConfig, getConfigOverrides, getEffectiveConfig } from '@/lib/conversion'
+import { isAbortError } from '@/lib/workerPool'
+import { getComposeFolder, getExportTarget, getTargetConfig, getTargetFiles, getTargetFormat, ExportTarget } from '@/lib/exportTargets'
+import { SourceFile, getSelectedFiles, groupScaleVariants, readDroppedFiles } from '@/lib/scaleVariants'
+import { pairDarkVariants } from '@/lib/darkVariants'
+import { isNinePatchFile } from '@/lib/ninePatch'
+import { getTransformLayout, measureContentBounds } from '@/lib/imageTransforms'
+import { getResourceNameErrors, sanitizeResourceName, sanitizeResourceNames } from '@/lib/resourceNames'
+import { findAndroidResourceDirectories } from '@/lib/xmlUtils'
+import { saveDirectoryHandle, loadDirectoryHandle } from '@/lib/directoryCache'
+import { DRAWABLE_PROJECT_KEY, ExportOutput, buildExportPlan, writeExportPlan } from '@/lib/projectExport'
 import { Analytics } from '@/lib/analytics'
 import JSZip from 'jszip'
 
@@ -11,6 +22,17 @@ import { Sidebar } from './drawable/Sidebar'
 import { UploadArea } from './drawable/UploadArea'
 import { FileList } from './drawable/FileList'
 import { ActionBar } from './drawable/ActionBar'
+import { ProjectExportDialog } from './drawable/ProjectExportDialog'
+import { FileOverridesDialog } from './drawable/FileOverridesDialog'
+import { ComparisonDialog } from './drawable/ComparisonDialog'
+import { BatchRenameDialog } from './drawable/BatchRenameDialog'
+import { DarkVariantDialog } from './drawable/DarkVariantDialog'
+import { ColorVariantsDialog } from './drawable/ColorVariantsDialog'
+
+// Report of unconvertible SVG features, placed at the ZIP root
+const VECTOR_REPORT_NAME = 'vector-conversion-report.txt'
+// Chosen quality and size of every size-budgeted output
+const BUDGET_REPORT_NAME = 'size-budget-report.csv'
 
 export function DrawableProcessor() {
     const { t } = useTranslation()
@@ -18,7 +40,33 @@ export function DrawableProcessor() {
     const [config, setConfig] = useState<ConvertConfig>(getDefaultConfig())
     const [isDragging, setIsDragging] = useState(false)
     const [downloadingId, setDownloadingId] = useState<string | null>(null)
+    const [overridesFileId, setOverridesFileId] = useState<string | null>(null)
+    const [compareFileId, setCompareFileId] = useState<string | null>(null)
+    const [showRenameDialog, setShowRenameDialog] = useState(false)
+    const [darkFileId, setDarkFileId] = useState<string | null>(null)
+    const [colorsFileId, setColorsFileId] = useState<string | null>(null)
     const fileInputRef = useRef<HTMLInputElement>(null)
+    const abortControllerRef = useRef<AbortController | null>(null)
+    // Res dir of the latest export plan request; results for any other one are stale
+    const exportResDirRef = useRef<AndroidResourceDir | null>(null)
+
+    // Project export state
+    const [showExportDialog, setShowExportDialog] = useState(false)
+    const [exportProjectName, setExportProjectName] = useState<string | null>(null)
+    const [exportResDirs, setExportResDirs] = useState<AndroidResourceDir[]>([])
+    const [exportResDir, setExportResDir] = useState<AndroidResourceDir | null>(null)
+    // Files being exported and their outputs per resource layout, converted when a res dir of that layout is picked
+    const [exportFiles, setExportFiles] = useState<ProcessingFile[]>([])
+    const [exportOutputs, setExportOutputs] = useState<Partial<Record<ResourceLayout, ExportOutput[]>>>({})
+    const [exportItems, setExportItems] = useState<ProjectExportItem[]>([])
+    const [exportStatus, setExportStatus] = useState<ProjectExportStatus>('scanning')
+    const [exportError, setExportError] = useState<string | null>(null)
+    const [exportProgress, setExportProgress] = useState({ current: 0, total: 0, fileName: '' })
+    const [exportWrittenCount, setExportWrittenCount] = useState(0)
+    const [overwriteExisting, setOverwriteExisting] = useState(true)
+
+    // Check if File System Access API is supported
+    const canExportToProject = 'showDirectoryPicker' in window
 
     // Load config from localStorage on mount
     useEffect(() => {
@@ -33,42 +81,68 @@ export function DrawableProcessor() {
         saveConfig(config)
     }, [config])
 
-    const handleFileSelect = useCallback(async (selectedFiles: FileList | null) => {
-        if (!selectedFiles) return
-
-        const fileArray = Array.from(selectedFiles).filter(
-            file => file.type.startsWith('image/') &&
-                (file.type.includes('png') || file.type.includes('jpeg') || file.type.includes('jpg') || file.type.includes('webp'))
+    const addSourceFiles = useCallback(async (sources: SourceFile[]) => {
+        const supported = sources.filter(({ file }) =>
+            isSvgFile(file) || isPdfFile(file) || (file.type.startsWith('image/') &&
+                (file.type.includes('png') || file.type.includes('jpeg') || file.type.includes('jpg') || file.type.includes('webp') || file.type.includes('gif')))
+        )
+        // @2x/@3x variants of one asset are converted once, from the largest
+        const groups = groupScaleVariants(supported)
+        // icon_dark.png becomes the night version of icon.png instead of its own row
+        const pairs = pairDarkVariants(
+            groups.map(group => ({ ...group, ninePatch: isNinePatchFile(group.source.file.name) })),
+            config.darkSuffixes
         )
 
         try {
-            const imageFiles = await Promise.all(fileArray.map(createImageFile))
-            const processingFiles: ProcessingFile[] = imageFiles.map(f => ({
-                ...f,
-                status: 'ready' as const,
-                progress: 0,
-                outputName: f.name.replace(/\.[^.]+$/, '')
-            }))
+            // One unreadable file (e.g. a multi-page PDF) should not drop the rest of the batch
+            const results = await Promise.allSettled(pairs.map(async ({ group, dark }) => ({
+                image: await createImageFile(group.source.file),
+                darkVariant: dark ? await createImageFile(dark.source.file).catch(error => {
+                    console.error('Failed to load dark variant:', error)
+                    return undefined
+                }) : undefined,
+            })))
+            results.forEach(r => {
+                if (r.status === 'rejected') console.error('Failed to load file:', r.reason)
+            })
+            const processingFiles: ProcessingFile[] = results.flatMap((r, i) => {
+                if (r.status === 'rejected') return []
+                const { image, darkVariant } = r.value
+                const { baseName, inputScale, variants } = pairs[i].group
+                return [{
+                    ...image,
+                    status: 'ready' as const,
+                    progress: 0,
+                    outputName: baseName,
+                    detectedInputScale: image.vectorSource ? undefined : inputScale,
+                    scaleVariants: variants.length > 0 ? variants.map(v => v.path) : undefined,
+                    darkVariant,
+                }]
+            })
             setFiles(prev => [...prev, ...processingFiles])
 
             // Track file upload
-            const totalSize = imageFiles.reduce((sum, f) => sum + f.size, 0)
-            Analytics.fileUpload(imageFiles.length, totalSize)
+            const totalSize = processingFiles.reduce((sum, f) => sum + f.size, 0)
+            Analytics.fileUpload(processingFiles.length, totalSize)
         } catch (error) {
             console.error('Failed to process files:', error)
         }
-    }, [])
+    }, [config.darkSuffixes])
+
+    const handleFileSelect = useCallback((selectedFiles: FileList | null) => {
+        if (selectedFiles) addSourceFiles(getSelectedFiles(selectedFiles))
+    }, [addSourceFiles])
 
     const handleDrop = useCallback((e: React.DragEvent | DragEvent) => {
         e.preventDefault()
         e.stopPropagation()
         setIsDragging(false)
         const dt = (e as DragEvent).dataTransfer || (e as React.DragEvent).dataTransfer
-        const files = dt?.files
-        if (files) {
-            handleFileSelect(files)
+        if (dt) {
+            readDroppedFiles(dt).then(addSourceFiles)
         }
-    }, [handleFileSelect])
+    }, [addSourceFiles])
 
     // Window-level drag events for fullscreen overlay
     useEffect(() => {
@@ -101,8 +175,8 @@ export function DrawableProcessor() {
             e.preventDefault()
             dragCounter = 0
             setIsDragging(false)
-            if (e.dataTransfer?.files) {
-                handleFileSelect(e.dataTransfer.files)
+            if (e.dataTransfer) {
+                readDroppedFiles(e.dataTransfer).then(addSourceFiles)
             }
         }
 
@@ -124,13 +198,14 @@ export function DrawableProcessor() {
             window.removeEventListener('drop', handleWindowDrop)
             window.removeEventListener('dragend', handleDragEnd)
         }
-    }, [handleFileSelect])
+    }, [addSourceFiles])
 
     const removeFile = useCallback((id: string) => {
         setFiles(prev => {
             const file = prev.find(f => f.id === id)
             if (file) {
                 URL.revokeObjectURL(file.preview)
+                if (file.darkVariant) URL.revokeObjectURL(file.darkVariant.preview)
             }
             return prev.filter(f => f.id !== id)
         })
@@ -156,83 +231,244 @@ export function DrawableProcessor() {
         Analytics.renameFile()
     }, [])
 
+    const toggleSelected = useCallback((id: string) => {
+        setFiles(prev => prev.map(f =>
+            f.id === id ? { ...f, selected: !f.selected } : f
+        ))
+    }, [])
+
+    const selectAll = useCallback((selected: boolean) => {
+        setFiles(prev => prev.map(f => ({ ...f, selected })))
+    }, [])
+
+    // Fix one file's name, without taking a name another file already uses
+    const sanitizeName = useCallback((id: string) => {
+        setFiles(prev => {
+            const taken = new Set(prev.filter(f => f.id !== id).map(f => f.outputName))
+            return prev.map(f =>
+                f.id === id ? { ...f, outputName: sanitizeResourceName(f.outputName, taken) } : f
+            )
+        })
+        Analytics.sanitizeNames(1)
+    }, [])
+
+    const sanitizeAllNames = useCallback(() => {
+        const renamed = sanitizeResourceNames(files)
+        setFiles(prev => prev.map(f =>
+            renamed.has(f.id) ? { ...f, outputName: renamed.get(f.id)! } : f
+        ))
+        Analytics.sanitizeNames(renamed.size)
+    }, [files])
+
+    const applyBatchRename = useCallback((names: Map<string, string>) => {
+        setFiles(prev => prev.map(f =>
+            names.has(f.id) ? { ...f, outputName: names.get(f.id)! } : f
+        ))
+        setShowRenameDialog(false)
+        Analytics.batchRename(names.size)
+    }, [])
+
+    const closeRenameDialog = useCallback(() => setShowRenameDialog(false), [])
+
+    // Change the logical size of a vector source, keeping its aspect ratio
+    const updateVectorSize = useCallback((id: string, widthDp: number) => {
+        setFiles(prev => prev.map(f => {
+            if (f.id !== id || !f.vectorSource || widthDp <= 0) return f
+            const heightDp = Math.max(1, Math.round(widthDp * f.height / f.width))
+            return { ...f, vectorSource: { ...f.vectorSource, widthDp, heightDp } }
+        }))
+    }, [])
+
+    const toggleRasterize = useCallback((id: string) => {
+        setFiles(prev => prev.map(f =>
+            f.id === id ? { ...f, rasterize: !f.rasterize } : f
+        ))
+    }, [])
+
+    const updateAnimation = useCallback((id: string, settings: Pick<ProcessingFile, 'loopCount' | 'animationList'>) => {
+        setFiles(prev => prev.map(f =>
+            f.id === id ? { ...f, ...settings } : f
+        ))
+        if (settings.animationList !== undefined) Analytics.toggleAnimationList(settings.animationList)
+    }, [])
+
+    const updateTransform = useCallback(async (id: string, transform: ImageTransform | undefined) => {
+        const file = files.find(f => f.id === id)
+        if (!file) return
+        // The measured content box only holds for the threshold it was measured with
+        const keepBounds = file.transform?.trimThreshold === transform?.trimThreshold
+        const next = transform && !keepBounds ? { ...transform, trimBounds: undefined } : transform
+        setFiles(prev => prev.map(f =>
+            f.id === id ? { ...f, transform: next } : f
+        ))
+        if (!file.transform !== !transform) Analytics.toggleTransform(!!transform)
+        if (!next?.trim || next.trimBounds) return
+
+        try {
+            const trimBounds = await measureContentBounds(file.file, next.trimThreshold)
+            // Skip the result if the threshold changed while measuring
+            setFiles(prev => prev.map(f =>
+                f.id === id && f.transform?.trimThreshold === next.trimThreshold ? { ...f, transform: { ...f.transform, trimBounds } } : f
+            ))
+        } catch (error) {
+            console.error('Failed to measure image content:', error)
+        }
+    }, [files])
+
+    const saveOverrides = useCallback((id: string, overrides: ConvertOverrides | undefined) => {
+        setFiles(prev => prev.map(f =>
+            f.id === id ? { ...f, overrides } : f
+        ))
+        setOverridesFileId(null)
+        Analytics.setFileOverrides(overrides ? Object.keys(overrides).length : 0)
+    }, [])
+
+    const closeOverrides = useCallback(() => setOverridesFileId(null), [])
+
+    const saveDarkVersion = useCallback((id: string, darkVariant: ImageFile | undefined, nightTransform: NightTransform | undefined) => {
+        setFiles(prev => prev.map(f => {
+            if (f.id !== id) return f
+            if (f.darkVariant && f.darkVariant !== darkVariant) URL.revokeObjectURL(f.darkVariant.preview)
+            return { ...f, darkVariant, nightTransform }
+        }))
+        setDarkFileId(null)
+        Analytics.setDarkVersion(darkVariant ? 'image' : nightTransform?.mode || 'none')
+    }, [])
+
+    const closeDarkDialog = useCallback(() => setDarkFileId(null), [])
+
+    const saveColorVariants = useCallback((id: string, colorVariants: ColorVariant[] | undefined) => {
+        setFiles(prev => prev.map(f =>
+            f.id === id ? { ...f, colorVariants } : f
+        ))
+        setColorsFileId(null)
+        Analytics.setColorVariants(colorVariants?.length ?? 0)
+    }, [])
+
+    const closeColorsDialog = useCallback(() => setColorsFileId(null), [])
+
+    const openComparison = useCallback((id: string) => {
+        setCompareFileId(id)
+        Analytics.openComparison()
+    }, [])
+
+    // Keep the quality picked in the comparison viewer as a per-file override
+    const applyComparisonQuality = useCallback((id: string, quality: number, lossless: boolean) => {
+        const file = files.find(f => f.id === id)
+        if (file) {
+            saveOverrides(id, getConfigOverrides({ ...getEffectiveConfig(file, config), quality, lossless }, getBaseConfig(file, config)))
+        }
+        setCompareFileId(null)
+    }, [files, config, saveOverrides])
+
+    const closeComparison = useCallback(() => setCompareFileId(null), [])
+
+    const updateProgress = useCallback((id: string, progress: number) => {
+        setFiles(prev => prev.map(f =>
+            f.id === id ? { ...f, progress } : f
+        ))
+    }, [])
+
+    // Put files that were interrupted by a cancel back into the ready state
+    const resetProcessing = useCallback(() => {
+        setFiles(prev => prev.map(f =>
+            f.status === 'processing' ? { ...f, status: 'ready' as const, progress: 0 } : f
+        ))
+    }, [])
+
+    const cancelConversion = useCallback(() => {
+        abortControllerRef.current?.abort()
+    }, [])
+
     const downloadFile = useCallback(async (file: ProcessingFile) => {
+        const controller = new AbortController()
+        abortControllerRef.current = controller
         setDownloadingId(file.id)
         try {
             setFiles(prev => prev.map(f =>
                 f.id === file.id ? { ...f, status: 'processing' as const, progress: 0 } : f
             ))
 
-            const densities = calculateDensities(config.inputScale)
-            const allDensities = ['mdpi', 'hdpi', 'xhdpi', 'xxhdpi', 'xxxhdpi', 'drawable'] as const
-            const convertedImages: ConvertedImage[] = []
-
-            const img = new Image()
-            img.src = file.preview
-
-            await new Promise<void>((resolve, reject) => {
-                img.onload = async () => {
-                    try {
-                        const selectedDensities = config.selectedDensities
-                        const totalSteps = selectedDensities.length
-                        let currentStep = 0
-
-                        for (const densityName of allDensities) {
-                            if (!selectedDensities.includes(densityName)) continue
-
-                            const density = densityName === 'drawable' ? densities.mdpi : densities[densityName as keyof typeof densities]
-                            const width = Math.round(file.width * density.scale)
-                            const height = Math.round(file.height * density.scale)
-                            const canvas = resizeImage(img, width, height)
-                            const webpBlob = await canvasToWebP(canvas, config.quality, config.lossless)
-
-                            // 1. Add normal folder
-                            const normalFolder = densityName === 'drawable' ? 'drawable' : `drawable-${densityName}`
-                            convertedImages.push({ density: normalFolder, blob: webpBlob })
-
-                            // 2. Add night folder if enabled
-                            if (config.nightMode) {
-                                const nightFolder = densityName === 'drawable' ? 'drawable-night' : `drawable-night-${densityName}`
-                                convertedImages.push({ density: nightFolder, blob: webpBlob })
-                            }
-
-                            currentStep++
-                            setFiles(prev => prev.map(f =>
-                                f.id === file.id ? { ...f, progress: Math.round((currentStep / totalSteps) * 100) } : f
-                            ))
-                        }
-                        resolve()
-                    } catch (error) { reject(error) }
-                }
-                img.onerror = () => reject(new Error(t('drawable.loadFailed')))
+            const target = getExportTarget(config.target)
+            const convertedImages = await convertImageFile(file, config, {
+                signal: controller.signal,
+                onProgress: (progress) => updateProgress(file.id, progress),
+                target
             })
 
             setFiles(prev => prev.map(f =>
-                f.id === file.id ? { ...f, status: 'ready' as const, progress: 100 } : f
+                f.id === file.id
+                    ? { ...f, status: 'ready' as const, progress: 100, budgetResults: getBudgetResults(convertedImages) }
+                    : f
             ))
 
             const zip = new JSZip()
-            for (const img of convertedImages!) {
-                zip.file(`${img.density}/${file.outputName}.webp`, img.blob)
+            for (const { path, content } of getTargetFiles(target, file.outputName, convertedImages)) {
+                zip.file(path, content)
             }
+            target.rootFiles?.forEach(({ path, content }) => zip.file(path, content))
+            const report = buildVectorReport([file])
+            if (report) zip.file(VECTOR_REPORT_NAME, report)
+            const budgetReport = buildBudgetReport([{ file, images: convertedImages }])
+            if (budgetReport) zip.file(BUDGET_REPORT_NAME, budgetReport)
             const blob = await zip.generateAsync({ type: 'blob' })
 
             const url = URL.createObjectURL(blob)
             const a = document.createElement('a')
             a.href = url
-            a.download = `${file.outputName}-drawable.zip`
+            a.download = `${file.outputName}-${target.id === 'android' ? 'drawable' : target.id}.zip`
             a.click()
             URL.revokeObjectURL(url)
 
             Analytics.downloadAssets(1, 'single')
         } catch (error) {
-            setFiles(prev => prev.map(f =>
-                f.id === file.id ? { ...f, status: 'error' as const, error: t('drawable.convertFailed') } : f
-            ))
+            if (isAbortError(error)) {
+                resetProcessing()
+            } else {
+                setFiles(prev => prev.map(f =>
+                    f.id === file.id ? { ...f, status: 'error' as const, error: t('drawable.convertFailed') } : f
+                ))
+            }
         } finally {
+            abortControllerRef.current = null
             setDownloadingId(null)
         }
-    }, [config, t])
+    }, [config, t, updateProgress, resetProcessing])
+
+    // Convert several files at once; the worker pool limits actual parallelism
+    const convertFiles = useCallback(async (targetFiles: ProcessingFile[], signal: AbortSignal, target?: ExportTarget) => {
+        const targetIds = new Set(targetFiles.map(f => f.id))
+        setFiles(prev => prev.map(f =>
+            targetIds.has(f.id) ? { ...f, status: 'processing' as const, progress: 0 } : f
+        ))
+
+        return Promise.all(targetFiles.map(async (file) => {
+            let images: ConvertedImage[]
+            try {
+                images = await convertImageFile(file, config, {
+                    signal,
+                    onProgress: (progress) => updateProgress(file.id, progress),
+                    target
+                })
+            } catch (error) {
+                // Mark the file that failed; the rest of the batch is aborted and reset by the caller
+                if (!isAbortError(error)) {
+                    setFiles(prev => prev.map(f =>
+                        f.id === file.id ? { ...f, status: 'error' as const, error: t('drawable.convertFailed') } : f
+                    ))
+                }
+                throw error
+            }
+
+            setFiles(prev => prev.map(f =>
+                f.id === file.id
+                    ? { ...f, status: 'ready' as const, progress: 100, budgetResults: getBudgetResults(images) }
+                    : f
+            ))
+
+            return { file, images }
+        }))
+    }, [config, t, updateProgress])
 
     const downloadAll = useCallback(async () => {
         const readyFiles = files.filter(f => f.status === 'ready')
@@ -243,81 +479,261 @@ export function DrawableProcessor() {
             return
         }
 
+        const controller = new AbortController()
+        abortControllerRef.current = controller
         setDownloadingId('all')
+        let converted = false
         try {
-            const densities = calculateDensities(config.inputScale)
-            const allDensities = ['mdpi', 'hdpi', 'xhdpi', 'xxhdpi', 'xxxhdpi', 'drawable'] as const
-            const processedFiles: { file: ProcessingFile; images: ConvertedImage[] }[] = []
-
-            for (const file of readyFiles) {
-                setFiles(prev => prev.map(f =>
-                    f.id === file.id ? { ...f, status: 'processing' as const, progress: 0 } : f
-                ))
-
-                const convertedImages: ConvertedImage[] = []
-                const img = new Image()
-                img.src = file.preview
-
-                await new Promise<void>((resolve, reject) => {
-                    img.onload = async () => {
-                        try {
-                            const selectedDensities = config.selectedDensities
-                            for (const densityName of allDensities) {
-                                if (!selectedDensities.includes(densityName)) continue
-                                const density = densityName === 'drawable' ? densities.mdpi : densities[densityName as keyof typeof densities]
-                                const width = Math.round(file.width * density.scale)
-                                const height = Math.round(file.height * density.scale)
-                                const canvas = resizeImage(img, width, height)
-                                const webpBlob = await canvasToWebP(canvas, config.quality, config.lossless)
-                                // 1. Add normal folder
-                                const normalFolder = densityName === 'drawable' ? 'drawable' : `drawable-${densityName}`
-                                convertedImages.push({ density: normalFolder, blob: webpBlob })
-
-                                // 2. Add night folder if enabled
-                                if (config.nightMode) {
-                                    const nightFolder = densityName === 'drawable' ? 'drawable-night' : `drawable-night-${densityName}`
-                                    convertedImages.push({ density: nightFolder, blob: webpBlob })
-                                }
-                            }
-                            resolve()
-                        } catch (error) { reject(error) }
-                    }
-                    img.onerror = () => reject(new Error(t('drawable.loadFailed')))
-                })
-
-                setFiles(prev => prev.map(f =>
-                    f.id === file.id ? { ...f, status: 'ready' as const, progress: 100 } : f
-                ))
-
-                processedFiles.push({ file, images: convertedImages })
-            }
+            const target = getExportTarget(config.target)
+            const processedFiles = await convertFiles(readyFiles, controller.signal, target)
+            converted = true
 
             const masterZip = new JSZip()
             for (const { file, images } of processedFiles) {
-                for (const img of images) {
-                    masterZip.file(`${img.density}/${file.outputName}.webp`, img.blob)
+                for (const { path, content } of getTargetFiles(target, file.outputName, images)) {
+                    masterZip.file(path, content)
                 }
             }
+            target.rootFiles?.forEach(({ path, content }) => masterZip.file(path, content))
+            const report = buildVectorReport(readyFiles)
+            if (report) masterZip.file(VECTOR_REPORT_NAME, report)
+            const budgetReport = buildBudgetReport(processedFiles)
+            if (budgetReport) masterZip.file(BUDGET_REPORT_NAME, budgetReport)
             const blob = await masterZip.generateAsync({ type: 'blob' })
             const url = URL.createObjectURL(blob)
             const a = document.createElement('a')
             a.href = url
-            a.download = 'drawable-resources.zip'
+            a.download = `${target.archiveName}.zip`
             a.click()
             URL.revokeObjectURL(url)
 
             Analytics.downloadAssets(readyFiles.length, 'zip')
+        } catch (error) {
+            // Stop the remaining tasks of this batch, whatever failed first
+            controller.abort()
+            resetProcessing()
+            if (!isAbortError(error)) {
+                console.error('Failed to convert files:', error)
+                // A failed conversion marks its own file; a failed archive fails the whole batch
+                if (converted) {
+                    const batchIds = new Set(readyFiles.map(f => f.id))
+                    setFiles(prev => prev.map(f =>
+                        batchIds.has(f.id) ? { ...f, status: 'error' as const, error: t('drawable.convertFailed') } : f
+                    ))
+                }
+            }
         } finally {
+            abortControllerRef.current = null
             setDownloadingId(null)
         }
-    }, [files, downloadFile, config, t])
+    }, [files, config.target, downloadFile, convertFiles, resetProcessing, t])
+
+    // Convert files for a resource layout. Compose Multiplatform modules get the Compose target's
+    // formats and qualifiers, with the night qualifier named 'dark'.
+    const convertExportOutputs = useCallback(async (targetFiles: ProcessingFile[], layout: ResourceLayout, signal: AbortSignal) => {
+        const target = getExportTarget(layout === 'compose' ? 'compose' : 'android')
+        const processedFiles = await convertFiles(targetFiles, signal, target)
+        return processedFiles.flatMap(({ file, images }) => images.map(img => ({
+            folder: layout === 'compose' ? getComposeFolder(img.density) : img.density,
+            fileName: `${file.outputName}${img.nameSuffix ?? ''}.${img.extension}`,
+            blob: img.blob
+        })))
+    }, [convertFiles])
+
+    // Compare the converted files against a res directory, converting them first for a new layout
+    const planExport = useCallback(async (
+        resDir: AndroidResourceDir,
+        targetFiles: ProcessingFile[],
+        outputs: Partial<Record<ResourceLayout, ExportOutput[]>>
+    ) => {
+        // A conversion still running for a previously picked res dir is not needed anymore
+        abortControllerRef.current?.abort()
+        exportResDirRef.current = resDir
+        setExportResDir(resDir)
+        setExportStatus('scanning')
+        setExportError(null)
+
+        let layoutOutputs = outputs[resDir.layout]
+        if (!layoutOutputs) {
+            const controller = new AbortController()
+            abortControllerRef.current = controller
+            setDownloadingId('export')
+            try {
+                const converted = await convertExportOutputs(targetFiles, resDir.layout, controller.signal)
+                setExportOutputs(prev => ({ ...prev, [resDir.layout]: converted }))
+                layoutOutputs = converted
+            } catch (error) {
+                // Stop the remaining tasks of this batch, whatever failed first
+                controller.abort()
+                // A newer request already owns the rows it is converting
+                if (abortControllerRef.current !== controller) return
+                resetProcessing()
+                if (isAbortError(error) || exportResDirRef.current !== resDir) return
+                console.error('Failed to convert files:', error)
+                setExportItems([])
+                setExportError(t('drawable.convertFailed'))
+                setExportStatus('error')
+                return
+            } finally {
+                if (abortControllerRef.current === controller) {
+                    abortControllerRef.current = null
+                    setDownloadingId(null)
+                }
+            }
+        }
+        if (exportResDirRef.current !== resDir) return
+
+        try {
+            const items = await buildExportPlan(resDir.handle, layoutOutputs)
+            if (exportResDirRef.current !== resDir) return
+            setExportItems(items)
+            setExportStatus('ready')
+        } catch (error) {
+            if (exportResDirRef.current !== resDir) return
+            console.error('Failed to read res directory:', error)
+            setExportItems([])
+            setExportError(t('drawable.export.readFailed'))
+            setExportStatus('error')
+        }
+    }, [convertExportOutputs, resetProcessing, t])
+
+    // Find the res directories of a project and preview the export into the app module (or the first one)
+    const openExportProject = useCallback(async (
+        rootHandle: FileSystemDirectoryHandle,
+        targetFiles: ProcessingFile[],
+        outputs: Partial<Record<ResourceLayout, ExportOutput[]>>
+    ) => {
+        abortControllerRef.current?.abort()
+        exportResDirRef.current = null
+        setExportProjectName(rootHandle.name)
+        setExportStatus('scanning')
+        setExportError(null)
+        setExportItems([])
+
+        let resDirs: AndroidResourceDir[]
+        try {
+            resDirs = await findAndroidResourceDirectories(rootHandle)
+        } catch (error) {
+            console.error('Failed to scan project:', error)
+            resDirs = []
+        }
+        setExportResDirs(resDirs)
+
+        if (resDirs.length === 0) {
+            setExportResDir(null)
+            setExportError(t('drawable.export.noResDirFound'))
+            setExportStatus('error')
+            return
+        }
+        const appModule = resDirs.find(d => d.name.toLowerCase() === 'app')
+        await planExport(appModule || resDirs[0], targetFiles, outputs)
+    }, [planExport, t])
+
+    const pickExportProject = useCallback(async () => {
+        const rootHandle = await window.showDirectoryPicker({ mode: 'readwrite', id: 'drawable-project-dir' })
+        await saveDirectoryHandle(DRAWABLE_PROJECT_KEY, rootHandle)
+        return rootHandle
+    }, [])
+
+    const exportToProject = useCallback(async () => {
+        const readyFiles = files.filter(f => f.status === 'ready')
+        if (readyFiles.length === 0) return
+
+        // Resolve the project first, while the click still counts as a user gesture for the permission prompt
+        let rootHandle: FileSystemDirectoryHandle
+        try {
+            rootHandle = await loadDirectoryHandle(DRAWABLE_PROJECT_KEY) || await pickExportProject()
+        } catch (error) {
+            if ((error as Error).name !== 'AbortError') {
+                console.error('Failed to select project:', error)
+            }
+            return
+        }
+
+        // Files are converted once the res dir is known, as Compose modules take other formats
+        setExportFiles(readyFiles)
+        setExportOutputs({})
+        setExportProgress({ current: 0, total: 0, fileName: '' })
+        setShowExportDialog(true)
+        await openExportProject(rootHandle, readyFiles, {})
+    }, [files, openExportProject, pickExportProject])
+
+    const changeExportProject = useCallback(async () => {
+        try {
+            const rootHandle = await pickExportProject()
+            await openExportProject(rootHandle, exportFiles, exportOutputs)
+        } catch (error) {
+            if ((error as Error).name !== 'AbortError') {
+                setExportError(t('drawable.export.selectProjectFailed'))
+                setExportStatus('error')
+            }
+        }
+    }, [exportFiles, exportOutputs, openExportProject, pickExportProject, t])
+
+    const confirmExport = useCallback(async () => {
+        if (!exportResDir) return
+
+        setExportStatus('writing')
+        setExportError(null)
+        try {
+            const written = await writeExportPlan(exportResDir.handle, exportItems, overwriteExisting, (current, total, fileName) => {
+                setExportProgress({ current, total, fileName })
+            })
+            setExportWrittenCount(written)
+            setExportStatus('completed')
+            Analytics.exportToProject(exportItems.length, written)
+        } catch (error) {
+            console.error('Failed to write files:', error)
+            setExportError(t('drawable.export.writeFailed'))
+            setExportStatus('error')
+        }
+    }, [exportResDir, exportItems, overwriteExisting, t])
+
+    const closeExportDialog = useCallback(() => {
+        abortControllerRef.current?.abort()
+        exportResDirRef.current = null
+        setShowExportDialog(false)
+        setExportFiles([])
+        setExportOutputs({})
+        setExportItems([])
+    }, [])
+
+    // ESC key to close the export dialog (not while writing)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && showExportDialog && exportStatus !== 'writing') {
+                closeExportDialog()
+            }
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [showExportDialog, exportStatus, closeExportDialog])
 
     const clearAll = useCallback(() => {
-        files.forEach(file => URL.revokeObjectURL(file.preview))
+        files.forEach(file => {
+            URL.revokeObjectURL(file.preview)
+            if (file.darkVariant) URL.revokeObjectURL(file.darkVariant.preview)
+        })
         setFiles([])
     }, [files])
 
     const readyCount = files.filter(f => f.status === 'ready').length
+    const nameErrors = useMemo(() => getResourceNameErrors(files), [files])
+    // Transformed canvas of each file, laid out like its conversion will be
+    const transformLayouts = useMemo(() => {
+        const target = getExportTarget(config.target)
+        const layouts = new Map<string, TransformLayout>()
+        for (const file of files) {
+            const layout = getTransformLayout(file, getTargetConfig(target, getEffectiveConfig(file, config)))
+            if (layout) layouts.set(file.id, layout)
+        }
+        return layouts
+    }, [files, config])
+    // Batch rename applies to the selected files, or to every file when none is selected
+    const renameFiles = useMemo(() => {
+        const readyFiles = files.filter(f => f.status === 'ready')
+        return readyFiles.some(f => f.selected) ? readyFiles.filter(f => f.selected) : readyFiles
+    }, [files])
     const processingCount = files.filter(f => f.status === 'processing').length
 
     return (
@@ -341,12 +757,26 @@ export function DrawableProcessor() {
                 {/* File List */}
                 <FileList
                     files={files}
+                    outputFormat={getTargetFormat(getExportTarget(config.target), config.format)}
                     downloadingId={downloadingId}
+                    nameErrors={nameErrors}
+                    transformLayouts={transformLayouts}
                     onRemove={removeFile}
                     onStartEdit={startEditing}
                     onNameChange={updateOutputName}
                     onFinishEdit={finishEditing}
                     onDownload={downloadFile}
+                    onVectorSizeChange={updateVectorSize}
+                    onToggleRasterize={toggleRasterize}
+                    onAnimationChange={updateAnimation}
+                    onTransformChange={updateTransform}
+                    onEditOverrides={setOverridesFileId}
+                    onCompare={openComparison}
+                    onEditDark={setDarkFileId}
+                    onEditColors={setColorsFileId}
+                    onToggleSelect={toggleSelected}
+                    onSelectAll={selectAll}
+                    onSanitizeName={sanitizeName}
                 />
 
                 {/* Bottom Action Bar */}
@@ -355,11 +785,69 @@ export function DrawableProcessor() {
                         readyCount={readyCount}
                         processingCount={processingCount}
                         downloadingId={downloadingId}
+                        invalidNameCount={nameErrors.size}
                         onClearAll={clearAll}
                         onDownloadAll={downloadAll}
+                        onCancel={cancelConversion}
+                        onBatchRename={() => setShowRenameDialog(true)}
+                        onSanitizeNames={sanitizeAllNames}
+                        onExportToProject={canExportToProject ? exportToProject : undefined}
                     />
                 )}
             </main>
+
+            <ProjectExportDialog
+                open={showExportDialog}
+                projectName={exportProjectName}
+                resDirs={exportResDirs}
+                selectedResDir={exportResDir}
+                items={exportItems}
+                overwriteExisting={overwriteExisting}
+                status={exportStatus}
+                error={exportError}
+                progress={exportProgress}
+                writtenCount={exportWrittenCount}
+                onClose={closeExportDialog}
+                onChangeProject={changeExportProject}
+                onSelectResDir={(resDir) => planExport(resDir, exportFiles, exportOutputs)}
+                onOverwriteExistingChange={setOverwriteExisting}
+                onConfirm={confirmExport}
+                onConfirmCompletion={closeExportDialog}
+            />
+
+            <FileOverridesDialog
+                file={files.find(f => f.id === overridesFileId) || null}
+                config={config}
+                onSave={saveOverrides}
+                onClose={closeOverrides}
+            />
+
+            <ComparisonDialog
+                file={files.find(f => f.id === compareFileId) || null}
+                config={config}
+                onApply={applyComparisonQuality}
+                onClose={closeComparison}
+            />
+
+            <DarkVariantDialog
+                file={files.find(f => f.id === darkFileId) || null}
+                nightMode={config.nightMode}
+                onSave={saveDarkVersion}
+                onClose={closeDarkDialog}
+            />
+
+            <ColorVariantsDialog
+                file={files.find(f => f.id === colorsFileId) || null}
+                onSave={saveColorVariants}
+                onClose={closeColorsDialog}
+            />
+
+            <BatchRenameDialog
+                open={showRenameDialog}
+                files={renameFiles}
+                onApply={applyBatchRename}
+                onClose={closeRenameDialog}
+            />
         </div>
     )
 }
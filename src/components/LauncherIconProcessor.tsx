@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Download, Loader2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import JSZip from 'jszip'
+import { Button } from '@/components/ui/button'
+import { LauncherIconConfig } from '@/types'
+import { getDefaultLauncherConfig, loadLauncherConfig, saveLauncherConfig } from '@/lib/storage'
+import { LayerImages, generateLauncherIcons, loadImage } from '@/lib/launcherIcon'
+import { Analytics } from '@/lib/analytics'
+
+// Sub-components
+import { LauncherSidebar } from './launcher/LauncherSidebar'
+import { IconPreview } from './launcher/IconPreview'
+
+// Android resource names: lowercase letters, digits and underscores, starting with a letter
+const RESOURCE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/
+
+export function LauncherIconProcessor() {
+    const { t } = useTranslation()
+    const [config, setConfig] = useState<LauncherIconConfig>(() => loadLauncherConfig() || getDefaultLauncherConfig())
+    const [images, setImages] = useState<LayerImages>({})
+    const [showSafeZone, setShowSafeZone] = useState(true)
+    const [isGenerating, setIsGenerating] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // Save settings to localStorage when they change
+    useEffect(() => {
+        saveLauncherConfig(config)
+    }, [config])
+
+    // Decode layer images whenever a layer file changes
+    const foregroundPreview = config.foreground.preview
+    const backgroundPreview = config.background.preview
+    const monochromePreview = config.monochrome?.preview || null
+    useEffect(() => {
+        let cancelled = false
+        const load = (src: string | null) => src ? loadImage(src).catch(() => undefined) : Promise.resolve(undefined)
+
+        Promise.all([load(foregroundPreview), load(backgroundPreview), load(monochromePreview)])
+            .then(([foreground, background, monochrome]) => {
+                if (!cancelled) setImages({ foreground, background, monochrome })
+            })
+
+        return () => { cancelled = true }
+    }, [foregroundPreview, backgroundPreview, monochromePreview])
+
+    const isLayerReady = (layer: LauncherIconConfig['foreground']) => layer.type === 'color' || !!layer.file
+    const isNameValid = RESOURCE_NAME_PATTERN.test(config.name)
+    const canGenerate = isLayerReady(config.foreground) && isLayerReady(config.background) && isNameValid
+
+    const handleDownload = useCallback(async () => {
+        setIsGenerating(true)
+        setError(null)
+        try {
+            const files = await generateLauncherIcons(config, images)
+
+            const zip = new JSZip()
+            for (const file of files) {
+                zip.file(file.path, file.blob)
+            }
+            const blob = await zip.generateAsync({ type: 'blob' })
+
+            const url = URL.createObjectURL(blob)
+            const a = document.createElement('a')
+            a.href = url
+            a.download = `${config.name}-launcher.zip`
+            a.click()
+            URL.revokeObjectURL(url)
+
+            Analytics.launcherDownload(!!config.monochrome?.file, config.background.type)
+        } catch (err) {
+            console.error('Failed to generate launcher icons:', err)
+            setError(t('launcher.generateFailed'))
+        } finally {
+            setIsGenerating(false)
+        }
+    }, [config, images, t])
+
+    return (
+        <div className="flex flex-1 overflow-hidden relative">
+            {/* Sidebar (Layers & Output) */}
+            <LauncherSidebar config={config} onChange={setConfig} />
+
+            {/* Main Content Area */}
+            <main className="flex-1 flex flex-col overflow-hidden">
+                <IconPreview
+                    config={config}
+                    images={images}
+                    showSafeZone={showSafeZone}
+                    onShowSafeZoneChange={setShowSafeZone}
+                />
+
+                {/* Bottom Action Bar */}
+                <div className="flex-shrink-0 border-t bg-white px-6 py-3 flex items-center justify-between">
+                    <div className="text-sm">
+                        {error ? (
+                            <span className="text-red-600">{error}</span>
+                        ) : !isNameValid ? (
+                            <span className="text-red-600">{t('launcher.invalidName')}</span>
+                        ) : (
+                            <span className="text-muted-foreground">{t('launcher.outputDesc', { name: config.name })}</span>
+                        )}
+                    </div>
+                    <Button size="sm" onClick={handleDownload} disabled={!canGenerate || isGenerating}>
+                        {isGenerating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+                        {t('common.download')}
+                    </Button>
+                </div>
+            </main>
+        </div>
+    )
+}
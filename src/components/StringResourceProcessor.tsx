@@ -22,7 +22,8 @@ import {
     LocaleMapping,
     LocaleMappingConfig,
     AndroidResourceDir,
-    OperationStatus
+    OperationStatus,
+    ResourceLayout
 } from '@/types'
 
 // Import sub-components
@@ -41,6 +42,7 @@ export function StringResourceProcessor() {
     const [projectRootName, setProjectRootName] = useState<string | null>(null)
     const [discoveredResDirs, setDiscoveredResDirs] = useState<AndroidResourceDir[]>([])
     const [selectedResDir, setSelectedResDir] = useState<AndroidResourceDir | null>(null)
+    const [resourceLayout, setResourceLayout] = useState<ResourceLayout>('android')
     const [targetDirHandle, setTargetDirHandle] = useState<FileSystemDirectoryHandle | null>(null)
     const [targetResources, setTargetResources] = useState<LocaleResources[]>([])
 
@@ -138,17 +140,22 @@ export function StringResourceProcessor() {
             setDiscoveredResDirs(resDirs)
             Analytics.stringSelectProject(resDirs.length)
 
-            if (resDirs.length === 0) {
+            // Keep the chosen layout if the project has it (pure KMP projects may only have composeResources)
+            const layout = resDirs.some(d => d.layout === resourceLayout) ? resourceLayout : (resDirs[0]?.layout || 'android')
+            setResourceLayout(layout)
+            const layoutDirs = resDirs.filter(d => d.layout === layout)
+
+            if (layoutDirs.length === 0) {
                 setError(t('string.noResDirFound'))
                 setStatus('error')
-            } else if (resDirs.length === 1) {
-                await loadResDirectory(resDirs[0])
+            } else if (layoutDirs.length === 1) {
+                await loadResDirectory(layoutDirs[0])
             } else {
-                const appModule = resDirs.find(d => d.name.toLowerCase() === 'app')
+                const appModule = layoutDirs.find(d => d.name.toLowerCase() === 'app')
                 if (appModule) {
                     await loadResDirectory(appModule)
                 } else {
-                    await loadResDirectory(resDirs[0])
+                    await loadResDirectory(layoutDirs[0])
                 }
             }
         } catch (err) {
@@ -157,7 +164,17 @@ export function StringResourceProcessor() {
                 setStatus('error')
             }
         }
-    }, [loadResDirectory, t])
+    }, [loadResDirectory, resourceLayout, t])
+
+    // Switch between the res and composeResources dirs, staying in the same module when possible
+    const changeResourceLayout = useCallback(async (layout: ResourceLayout) => {
+        setResourceLayout(layout)
+        const layoutDirs = discoveredResDirs.filter(d => d.layout === layout)
+        const sameModule = layoutDirs.find(d => d.name === selectedResDir?.name)
+        if (sameModule || layoutDirs.length > 0) {
+            await loadResDirectory(sameModule || layoutDirs[0])
+        }
+    }, [discoveredResDirs, selectedResDir, loadResDirectory])
 
     // Select source directory (Step 2)
     const selectSourceDir = useCallback(async () => {
@@ -471,8 +488,10 @@ export function StringResourceProcessor() {
         <div className="flex flex-1 overflow-hidden">
             <StringSidebar
                 projectRootName={projectRootName}
-                discoveredResDirs={discoveredResDirs}
+                discoveredResDirs={discoveredResDirs.filter(d => d.layout === resourceLayout)}
                 selectedResDir={selectedResDir}
+                resourceLayout={resourceLayout}
+                availableLayouts={Array.from(new Set(discoveredResDirs.map(d => d.layout)))}
                 sourceDirName={sourceDirHandle?.name || null}
                 sourceFileCount={sourceFiles.length}
                 totalSourceEntries={totalSourceEntries}
@@ -480,6 +499,7 @@ export function StringResourceProcessor() {
                 onSelectProjectDir={selectProjectDir}
                 onSelectSourceDir={selectSourceDir}
                 onLoadResDirectory={loadResDirectory}
+                onResourceLayoutChange={changeResourceLayout}
                 onReplaceExistingChange={setReplaceExisting}
             />
 
@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Loader2, ScanSearch, Trash2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { AuditReport, AuditStatus } from '@/types'
+import { AuditProgress, getSavingPercent, getUnusedBytesByDensity } from '@/lib/drawableAudit'
+
+interface AuditReportViewProps {
+    report: AuditReport | null
+    status: AuditStatus
+    progress: AuditProgress | null
+    error: string | null
+    onDeleteUnused: () => void
+}
+
+type AuditSection = 'missingDensities' | 'dimensionMismatches' | 'webpSavings' | 'duplicates' | 'unusedDrawables'
+
+const SECTIONS: AuditSection[] = ['missingDensities', 'dimensionMismatches', 'webpSavings', 'duplicates', 'unusedDrawables']
+
+const PROGRESS_LABELS: Record<AuditProgress['phase'], string> = {
+    references: 'audit.indexing',
+    reading: 'audit.reading',
+    encoding: 'audit.encoding',
+}
+
+// Rows shown per section, the rest is summarized (the export has everything)
+const ROW_LIMIT = 200
+
+function formatKb(bytes: number): string {
+    return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+export function AuditReportView({ report, status, progress, error, onDeleteUnused }: AuditReportViewProps) {
+    const { t } = useTranslation()
+    const [collapsed, setCollapsed] = useState<Partial<Record<AuditSection, boolean>>>({})
+
+    if (status === 'scanning') {
+        return (
+            <div className="flex-1 flex items-center justify-center p-6">
+                <div className="w-full max-w-sm space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground flex items-center gap-2">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            {t(PROGRESS_LABELS[progress?.phase ?? 'references'])}
+                        </span>
+                        {progress && progress.total > 0 && <span className="font-medium">{progress.current} / {progress.total}</span>}
+                    </div>
+                    <Progress value={progress && progress.total > 0 ? (progress.current / progress.total) * 100 : 0} />
+                </div>
+            </div>
+        )
+    }
+
+    if (!report) {
+        return (
+            <div className="flex-1 flex items-center justify-center p-6">
+                <div className="text-center max-w-md">
+                    <ScanSearch className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                    {error ? (
+                        <p className="text-sm text-red-600">{error}</p>
+                    ) : (
+                        <>
+                            <h2 className="text-lg font-semibold mb-2">{t('audit.title')}</h2>
+                            <p className="text-sm text-muted-foreground">{t('audit.emptyDesc')}</p>
+                        </>
+                    )}
+                </div>
+            </div>
+        )
+    }
+
+    const renderRows = (section: AuditSection) => {
+        switch (section) {
+            case 'missingDensities':
+                return report.missingDensities.slice(0, ROW_LIMIT).map(issue => (
+                    <div key={`${issue.module}/${issue.family}/${issue.name}`} className="px-4 py-2 text-xs flex items-center justify-between gap-4">
+                        <span className="font-mono truncate">{issue.module}/{issue.family}/{issue.name}</span>
+                        <span className="shrink-0">
+                            <span className="text-red-600">{t('audit.missing', { densities: issue.missing.join(', ') })}</span>
+                            <span className="text-muted-foreground"> · {t('audit.present', { densities: issue.present.join(', ') })}</span>
+                        </span>
+                    </div>
+                ))
+            case 'dimensionMismatches':
+                return report.dimensionMismatches.slice(0, ROW_LIMIT).map(issue => (
+                    <div key={`${issue.module}/${issue.folder}/${issue.fileName}`} className="px-4 py-2 text-xs flex items-center justify-between gap-4">
+                        <span className="font-mono truncate">{issue.module}/{issue.folder}/{issue.fileName}</span>
+                        <span className="shrink-0">
+                            <span className="text-amber-700">{issue.width} × {issue.height}</span>
+                            <span className="text-muted-foreground"> · {t('audit.expected', { width: issue.expectedWidth, height: issue.expectedHeight, folder: issue.reference })}</span>
+                        </span>
+                    </div>
+                ))
+            case 'webpSavings':
+                return report.webpSavings.slice(0, ROW_LIMIT).map(issue => (
+                    <div key={`${issue.module}/${issue.folder}/${issue.fileName}`} className="px-4 py-2 text-xs flex items-center justify-between gap-4">
+                        <span className="font-mono truncate">{issue.module}/{issue.folder}/{issue.fileName}</span>
+                        <span className="shrink-0">
+                            <span className="text-muted-foreground">{formatKb(issue.size)} → {formatKb(issue.webpSize)}</span>
+                            <span className="text-green-700 font-medium"> −{getSavingPercent(issue)}%</span>
+                        </span>
+                    </div>
+                ))
+            case 'duplicates':
+                return report.duplicates.slice(0, ROW_LIMIT).map(issue => (
+                    <div key={issue.files.map(f => `${f.module}/${f.folder}/${f.fileName}`).join('|')} className="px-4 py-2 text-xs flex items-start justify-between gap-4">
+                        <div className="font-mono min-w-0 space-y-0.5">
+                            {issue.files.map(f => (
+                                <div key={`${f.module}/${f.folder}/${f.fileName}`} className="truncate">{f.module}/{f.folder}/{f.fileName}</div>
+                            ))}
+                        </div>
+                        <span className="shrink-0 text-muted-foreground">{t('audit.copies', { count: issue.files.length, size: formatKb(issue.size) })}</span>
+                    </div>
+                ))
+            case 'unusedDrawables':
+                return report.unusedDrawables.slice(0, ROW_LIMIT).map(issue => (
+                    <div key={`${issue.path}/${issue.name}`} className="px-4 py-2 text-xs flex items-center justify-between gap-4">
+                        <span className="font-mono truncate">{issue.module}/@drawable/{issue.name}</span>
+                        <span className="shrink-0 text-muted-foreground">
+                            {issue.files.map(f => f.folder.replace(/^drawable-?/, '') || 'drawable').join(', ')} · {formatKb(issue.size)}
+                        </span>
+                    </div>
+                ))
+        }
+    }
+
+    const unusedByDensity = getUnusedBytesByDensity(report.unusedDrawables)
+
+    const savedBytes = report.webpSavings.reduce((sum, issue) => sum + issue.size - issue.webpSize, 0)
+
+    return (
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="grid grid-cols-5 gap-3">
+                {SECTIONS.map(section => (
+                    <div key={section} className="rounded-lg border bg-white px-4 py-3">
+                        <div className="text-2xl font-semibold">{report[section].length}</div>
+                        <div className="text-xs text-muted-foreground">{t(`audit.sections.${section}`)}</div>
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+                {t('audit.summary', { fileCount: report.fileCount, size: formatKb(report.totalBytes), saving: formatKb(savedBytes) })}
+            </p>
+
+            {SECTIONS.map(section => {
+                const count = report[section].length
+                const isCollapsed = collapsed[section] || count === 0
+                return (
+                    <div key={section} className="rounded-lg border bg-white overflow-hidden">
+                        <button
+                            onClick={() => setCollapsed(prev => ({ ...prev, [section]: !prev[section] }))}
+                            disabled={count === 0}
+                            className="w-full px-4 py-3 flex items-center gap-2 text-sm font-medium text-left"
+                        >
+                            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                            {t(`audit.sections.${section}`)}
+                            <Badge variant={count > 0 ? 'secondary' : 'outline'} className="ml-1">{count}</Badge>
+                            <span className="ml-auto text-xs font-normal text-muted-foreground">{t(`audit.sectionDesc.${section}`)}</span>
+                        </button>
+                        {!isCollapsed && (
+                            <div className="border-t divide-y">
+                                {section === 'unusedDrawables' && (
+                                    <div className="px-4 py-2 bg-slate-50 flex items-center justify-between gap-4">
+                                        <span className="text-xs text-muted-foreground">
+                                            {unusedByDensity.map(([density, bytes]) => `${density} ${formatKb(bytes)}`).join(' · ')}
+                                        </span>
+                                        <Button variant="outline" size="sm" className="h-7 px-2 text-xs shrink-0" onClick={onDeleteUnused}>
+                                            <Trash2 className="h-3.5 w-3.5 mr-1" />
+                                            {t('audit.unused.delete')}
+                                        </Button>
+                                    </div>
+                                )}
+                                {renderRows(section)}
+                                {count > ROW_LIMIT && (
+                                    <div className="px-4 py-2 text-xs text-muted-foreground">{t('audit.more', { count: count - ROW_LIMIT })}</div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
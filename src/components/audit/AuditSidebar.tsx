@@ -0,0 +1,117 @@
+import { FileImage, FolderOpen, Loader2, ScanSearch } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { AndroidResourceDir, AuditStatus } from '@/types'
+
+interface AuditSidebarProps {
+    projectName: string | null
+    resDirs: AndroidResourceDir[]
+    status: AuditStatus
+    quality: number
+    lossless: boolean
+    minSaving: number
+    onOpenProject: () => void
+    onScan: () => void
+    onCancel: () => void
+    onConvert: () => void
+    onMinSavingChange: (minSaving: number) => void
+}
+
+export function AuditSidebar({
+    projectName,
+    resDirs,
+    status,
+    quality,
+    lossless,
+    minSaving,
+    onOpenProject,
+    onScan,
+    onCancel,
+    onConvert,
+    onMinSavingChange
+}: AuditSidebarProps) {
+    const { t } = useTranslation()
+    const isScanning = status === 'scanning'
+
+    return (
+        <aside className="w-[280px] border-r bg-white flex-shrink-0 overflow-y-auto">
+            <div className="p-6 space-y-6">
+                <div>
+                    <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">
+                        {t('audit.project')}
+                    </h3>
+                    <Button
+                        variant="outline"
+                        className="w-full justify-start gap-2 h-10"
+                        onClick={onOpenProject}
+                        disabled={isScanning}
+                    >
+                        <FolderOpen className="h-4 w-4 shrink-0" />
+                        <span className="truncate">{projectName || t('audit.openProject')}</span>
+                    </Button>
+
+                    {resDirs.length > 0 && (
+                        <div className="mt-4">
+                            <Label className="text-[11px] font-medium text-slate-500 mb-1.5 block uppercase tracking-wider">
+                                {t('audit.modules', { count: resDirs.length })}
+                            </Label>
+                            <div className="space-y-1">
+                                {resDirs.map(dir => (
+                                    <div key={dir.path} className="text-xs">
+                                        <span className="font-medium">{dir.name}</span>
+                                        <span className="block text-[10px] text-muted-foreground font-mono truncate" title={dir.path}>{dir.path}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div>
+                    <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-4">
+                        {t('audit.webpCheck')}
+                    </h3>
+                    <div className="flex items-center justify-between mb-1.5">
+                        <Label className="text-sm">{t('audit.minSaving')}</Label>
+                        <span className="text-xs font-mono text-muted-foreground">{minSaving}%</span>
+                    </div>
+                    <Slider
+                        value={[minSaving]}
+                        onValueChange={([value]) => onMinSavingChange(value)}
+                        max={80}
+                        min={5}
+                        step={5}
+                        disabled={isScanning}
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                        {t('audit.encoderDesc', { mode: lossless ? t('drawable.lossless') : `q${quality}` })}
+                    </p>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full mt-3"
+                        onClick={onConvert}
+                        disabled={resDirs.length === 0 || isScanning}
+                    >
+                        <FileImage className="h-4 w-4 mr-1" />
+                        {t('audit.convert.open')}
+                    </Button>
+                </div>
+
+                {isScanning ? (
+                    <Button variant="outline" className="w-full" onClick={onCancel}>
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        {t('common.cancel')}
+                    </Button>
+                ) : (
+                    <Button className="w-full" onClick={onScan} disabled={resDirs.length === 0}>
+                        <ScanSearch className="h-4 w-4 mr-1" />
+                        {status === 'ready' ? t('audit.rescan') : t('audit.scan')}
+                    </Button>
+                )}
+            </div>
+        </aside>
+    )
+}
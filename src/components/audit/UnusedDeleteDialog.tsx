@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react'
+import { X, AlertTriangle } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { UnusedDeleteStatus, UnusedDrawableIssue } from '@/types'
+
+interface UnusedDeleteDialogProps {
+    open: boolean
+    issues: UnusedDrawableIssue[]
+    status: UnusedDeleteStatus
+    error: string | null
+    progress: { current: number; total: number; fileName: string }
+    deletedCount: number
+    onClose: () => void
+    onConfirm: (issues: UnusedDrawableIssue[]) => void
+    onConfirmCompletion: () => void
+}
+
+function getIssueKey(issue: UnusedDrawableIssue): string {
+    return `${issue.path}/${issue.name}`
+}
+
+function formatKb(bytes: number): string {
+    return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+export function UnusedDeleteDialog({
+    open,
+    issues,
+    status,
+    error,
+    progress,
+    deletedCount,
+    onClose,
+    onConfirm,
+    onConfirmCompletion
+}: UnusedDeleteDialogProps) {
+    const { t } = useTranslation()
+    // Resources to delete, all of them by default
+    const [selected, setSelected] = useState<Set<string>>(new Set())
+
+    useEffect(() => {
+        if (open) setSelected(new Set(issues.map(getIssueKey)))
+    }, [open, issues])
+
+    // ESC to cancel, except while files are being deleted
+    useEffect(() => {
+        if (!open) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && status !== 'deleting') onClose()
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [open, status, onClose])
+
+    if (!open) return null
+
+    const selectedIssues = issues.filter(issue => selected.has(getIssueKey(issue)))
+    const fileCount = selectedIssues.reduce((sum, issue) => sum + issue.files.length, 0)
+    const size = selectedIssues.reduce((sum, issue) => sum + issue.size, 0)
+
+    const toggle = (issue: UnusedDrawableIssue, checked: boolean) => {
+        setSelected(prev => {
+            const next = new Set(prev)
+            if (checked) next.add(getIssueKey(issue))
+            else next.delete(getIssueKey(issue))
+            return next
+        })
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={status === 'deleting' ? undefined : onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 flex flex-col max-h-[85vh]">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <div>
+                        <h3 className="text-lg font-semibold">{t('audit.unused.deleteTitle')}</h3>
+                        <p className="text-xs text-muted-foreground">{t('audit.unused.deleteDesc')}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} disabled={status === 'deleting'}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto divide-y">
+                    {issues.map(issue => (
+                        <div key={getIssueKey(issue)} className="px-6 py-2 flex items-start gap-3">
+                            <Checkbox
+                                id={`unused-${getIssueKey(issue)}`}
+                                checked={selected.has(getIssueKey(issue))}
+                                onCheckedChange={(checked) => toggle(issue, !!checked)}
+                                disabled={status !== 'ready'}
+                                className="mt-0.5"
+                            />
+                            <label htmlFor={`unused-${getIssueKey(issue)}`} className="flex-1 min-w-0 cursor-pointer">
+                                <div className="flex items-center justify-between gap-4 text-sm">
+                                    <span className="font-mono truncate">{issue.module}/@drawable/{issue.name}</span>
+                                    <span className="text-xs text-muted-foreground shrink-0">{formatKb(issue.size)}</span>
+                                </div>
+                                <div className="text-[11px] text-muted-foreground font-mono truncate">
+                                    {issue.files.map(f => `${f.folder}/${f.fileName}`).join(', ')}
+                                </div>
+                            </label>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="px-6 py-4 border-t space-y-3">
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    {status === 'deleting' ? (
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="text-muted-foreground truncate">{t('audit.unused.deleting')}: {progress.fileName}</span>
+                                <span className="font-medium">{progress.current} / {progress.total}</span>
+                            </div>
+                            <Progress value={progress.total > 0 ? (progress.current / progress.total) * 100 : 0} />
+                        </div>
+                    ) : status === 'completed' ? (
+                        <div className="flex items-center justify-center text-sm font-medium text-green-600 py-1">
+                            ✓ {t('audit.unused.deleted', { count: deletedCount })}
+                        </div>
+                    ) : (
+                        <div className="flex items-start gap-2 text-sm text-amber-700">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            {t('audit.unused.deleteWarning', { count: fileCount, size: formatKb(size) })}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                        {status === 'completed' ? (
+                            <Button onClick={onConfirmCompletion}>{t('common.confirm')}</Button>
+                        ) : (
+                            <>
+                                <Button variant="outline" onClick={onClose} disabled={status === 'deleting'}>{t('common.cancel')}</Button>
+                                <Button
+                                    variant="destructive"
+                                    onClick={() => onConfirm(selectedIssues)}
+                                    disabled={status !== 'ready' || fileCount === 0}
+                                >
+                                    {t('audit.unused.confirmDelete', { count: fileCount })}
+                                </Button>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react'
+import { X, AlertTriangle, Loader2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { AndroidResourceDir, WebPConversionItem, WebPConversionStatus } from '@/types'
+import { WEBP_ALPHA_MIN_SDK } from '@/lib/webpConversion'
+
+interface WebPConversionDialogProps {
+    open: boolean
+    resDirs: AndroidResourceDir[]
+    selectedResDir: AndroidResourceDir | null
+    minSdk: number
+    skipLauncherIcons: boolean
+    quality: number
+    lossless: boolean
+    items: WebPConversionItem[]
+    status: WebPConversionStatus
+    error: string | null
+    progress: { current: number; total: number; fileName: string }
+    convertedCount: number
+    onClose: () => void
+    onSelectResDir: (resDir: AndroidResourceDir) => void
+    onMinSdkChange: (minSdk: number) => void
+    onSkipLauncherIconsChange: (skip: boolean) => void
+    onItemsChange: (items: WebPConversionItem[]) => void
+    onConfirm: () => void
+    onConfirmCompletion: () => void
+}
+
+function formatKb(bytes: number): string {
+    return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+export function WebPConversionDialog({
+    open,
+    resDirs,
+    selectedResDir,
+    minSdk,
+    skipLauncherIcons,
+    quality,
+    lossless,
+    items,
+    status,
+    error,
+    progress,
+    convertedCount,
+    onClose,
+    onSelectResDir,
+    onMinSdkChange,
+    onSkipLauncherIconsChange,
+    onItemsChange,
+    onConfirm,
+    onConfirmCompletion
+}: WebPConversionDialogProps) {
+    const { t } = useTranslation()
+    // Deleting originals needs a second click
+    const [confirming, setConfirming] = useState(false)
+    const [minSdkInput, setMinSdkInput] = useState(String(minSdk))
+
+    useEffect(() => {
+        setMinSdkInput(String(minSdk))
+    }, [minSdk])
+
+    useEffect(() => {
+        if (status !== 'ready') setConfirming(false)
+    }, [status])
+
+    const isBusy = status === 'scanning' || status === 'writing'
+
+    // ESC to cancel, except while files are being replaced
+    useEffect(() => {
+        if (!open) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && status !== 'writing') onClose()
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [open, status, onClose])
+
+    if (!open) return null
+
+    const encoded = items.filter(item => item.blob)
+    const selected = encoded.filter(item => item.selected)
+    const savedBytes = selected.reduce((sum, item) => sum + item.size - item.webpSize!, 0)
+    const largerCount = encoded.filter(item => item.webpSize! >= item.size).length
+
+    const setSelected = (predicate: (item: WebPConversionItem) => boolean, value: boolean) => {
+        setConfirming(false)
+        onItemsChange(items.map(item => item.blob && predicate(item) ? { ...item, selected: value } : item))
+    }
+
+    const commitMinSdk = () => {
+        const value = parseInt(minSdkInput)
+        if (value > 0 && value !== minSdk) onMinSdkChange(value)
+        else setMinSdkInput(String(minSdk))
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={isBusy ? undefined : onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-3xl mx-4 flex flex-col max-h-[85vh]">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <div>
+                        <h3 className="text-lg font-semibold">{t('audit.convert.title')}</h3>
+                        <p className="text-xs text-muted-foreground">
+                            {t('audit.convert.desc', { mode: lossless && minSdk >= WEBP_ALPHA_MIN_SDK ? t('drawable.lossless') : `q${quality}` })}
+                        </p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} disabled={status === 'writing'}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="px-6 py-3 border-b flex flex-wrap items-center gap-x-6 gap-y-2">
+                    {resDirs.length > 1 && (
+                        <div className="flex items-center gap-1.5">
+                            <Label className="text-xs text-muted-foreground">{t('audit.convert.module')}</Label>
+                            <div className="flex flex-wrap gap-1">
+                                {resDirs.map(dir => (
+                                    <button
+                                        key={dir.path}
+                                        onClick={() => onSelectResDir(dir)}
+                                        disabled={isBusy}
+                                        title={dir.path}
+                                        className={`px-2 py-0.5 rounded-md border text-xs transition-colors ${selectedResDir?.path === dir.path
+                                            ? 'border-primary bg-primary/5 text-primary font-medium'
+                                            : 'text-muted-foreground hover:bg-slate-50'
+                                            }`}
+                                    >
+                                        {dir.name}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    <div className="flex items-center gap-1.5">
+                        <Label htmlFor="convert-min-sdk" className="text-xs text-muted-foreground">minSdk</Label>
+                        <Input
+                            id="convert-min-sdk"
+                            type="number"
+                            min={1}
+                            value={minSdkInput}
+                            onChange={(e) => setMinSdkInput(e.target.value)}
+                            onBlur={commitMinSdk}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitMinSdk()
+                            }}
+                            disabled={isBusy}
+                            className="h-7 w-16 px-2 text-xs"
+                        />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                        <Checkbox
+                            id="convert-skip-launcher"
+                            checked={skipLauncherIcons}
+                            onCheckedChange={(checked) => onSkipLauncherIconsChange(!!checked)}
+                            disabled={isBusy}
+                        />
+                        <Label htmlFor="convert-skip-launcher" className="text-xs cursor-pointer">{t('audit.convert.skipLauncherIcons')}</Label>
+                    </div>
+                    {largerCount > 0 && (
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="convert-skip-larger"
+                                checked={encoded.every(item => item.webpSize! < item.size || !item.selected)}
+                                onCheckedChange={(checked) => setSelected(item => item.webpSize! >= item.size, !checked)}
+                                disabled={isBusy}
+                            />
+                            <Label htmlFor="convert-skip-larger" className="text-xs cursor-pointer">
+                                {t('audit.convert.skipLarger', { count: largerCount })}
+                            </Label>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                    {status === 'scanning' ? (
+                        <div className="px-6 py-8 space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="text-muted-foreground truncate flex items-center gap-2">
+                                    <Loader2 className="h-4 w-4 animate-spin shrink-0" />
+                                    {t('audit.convert.encoding')}: {progress.fileName}
+                                </span>
+                                <span className="font-medium">{progress.current} / {progress.total}</span>
+                            </div>
+                            <Progress value={progress.total > 0 ? (progress.current / progress.total) * 100 : 0} />
+                        </div>
+                    ) : items.length === 0 ? (
+                        <p className="px-6 py-8 text-sm text-center text-muted-foreground">{t('audit.convert.noFiles')}</p>
+                    ) : (
+                        <table className="w-full text-xs">
+                            <thead className="sticky top-0 bg-slate-50 text-muted-foreground">
+                                <tr>
+                                    <th className="pl-6 pr-2 py-2 w-8">
+                                        <Checkbox
+                                            checked={encoded.length > 0 && selected.length === encoded.length}
+                                            onCheckedChange={(checked) => setSelected(() => true, !!checked)}
+                                            disabled={isBusy || encoded.length === 0}
+                                        />
+                                    </th>
+                                    <th className="px-2 py-2 text-left font-medium">{t('audit.convert.file')}</th>
+                                    <th className="px-2 py-2 text-right font-medium">{t('audit.convert.oldSize')}</th>
+                                    <th className="px-2 py-2 text-right font-medium">{t('audit.convert.newSize')}</th>
+                                    <th className="pl-2 pr-6 py-2 text-right font-medium">SSIM</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y">
+                                {items.map(item => {
+                                    const grows = item.webpSize !== null && item.webpSize >= item.size
+                                    return (
+                                        <tr key={`${item.folder}/${item.fileName}`} className={item.blob ? '' : 'text-muted-foreground'}>
+                                            <td className="pl-6 pr-2 py-1.5">
+                                                <Checkbox
+                                                    checked={item.selected}
+                                                    onCheckedChange={(checked) => setSelected(i => i === item, !!checked)}
+                                                    disabled={isBusy || !item.blob}
+                                                />
+                                            </td>
+                                            <td className="px-2 py-1.5 font-mono truncate max-w-[280px]" title={`${item.folder}/${item.fileName}`}>
+                                                {item.folder}/{item.fileName}
+                                            </td>
+                                            <td className="px-2 py-1.5 text-right whitespace-nowrap">{formatKb(item.size)}</td>
+                                            {item.skipReason ? (
+                                                <td colSpan={2} className="pl-2 pr-6 py-1.5 text-right">{t(`audit.convert.skipReasons.${item.skipReason}`)}</td>
+                                            ) : (
+                                                <>
+                                                    <td className={`px-2 py-1.5 text-right whitespace-nowrap ${grows ? 'text-red-600' : 'text-green-700'}`}>
+                                                        {formatKb(item.webpSize!)} ({grows ? '+' : '−'}{Math.abs(Math.round((1 - item.webpSize! / item.size) * 100))}%)
+                                                    </td>
+                                                    <td className="pl-2 pr-6 py-1.5 text-right font-mono">{item.ssim!.toFixed(4)}</td>
+                                                </>
+                                            )}
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className="px-6 py-4 border-t space-y-3">
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    {status === 'writing' ? (
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="text-muted-foreground truncate">{t('audit.convert.writing')}: {progress.fileName}</span>
+                                <span className="font-medium">{progress.current} / {progress.total}</span>
+                            </div>
+                            <Progress value={progress.total > 0 ? (progress.current / progress.total) * 100 : 0} />
+                        </div>
+                    ) : status === 'completed' ? (
+                        <div className="flex items-center justify-center text-sm font-medium text-green-600 py-1">
+                            ✓ {t('audit.convert.completed', { count: convertedCount })}
+                        </div>
+                    ) : confirming ? (
+                        <div className="flex items-start gap-2 text-sm text-amber-700">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            {t('audit.convert.confirmDelete', { count: selected.length })}
+                        </div>
+                    ) : (
+                        <span className="text-sm text-muted-foreground">
+                            {t('audit.convert.summary', { count: selected.length, saving: formatKb(savedBytes) })}
+                        </span>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                        {status === 'completed' ? (
+                            <Button onClick={onConfirmCompletion}>{t('common.confirm')}</Button>
+                        ) : (
+                            <>
+                                <Button variant="outline" onClick={confirming ? () => setConfirming(false) : onClose} disabled={status === 'writing'}>
+                                    {t('common.cancel')}
+                                </Button>
+                                {confirming ? (
+                                    <Button variant="destructive" onClick={onConfirm} disabled={status !== 'ready'}>
+                                        {t('audit.convert.confirmReplace')}
+                                    </Button>
+                                ) : (
+                                    <Button onClick={() => setConfirming(true)} disabled={status !== 'ready' || selected.length === 0}>
+                                        {t('audit.convert.convert', { count: selected.length })}
+                                    </Button>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -1,4 +1,4 @@
-import { Download, Loader2 } from 'lucide-react'
+import { Download, FolderOpen, Loader2, TextCursorInput, Wand2 } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { Button } from '@/components/ui/button'
 
@@ -6,16 +6,26 @@ interface ActionBarProps {
     readyCount: number
     processingCount: number
     downloadingId: string | null
+    invalidNameCount: number
     onClearAll: () => void
     onDownloadAll: () => void
+    onCancel: () => void
+    onBatchRename: () => void
+    onSanitizeNames: () => void
+    onExportToProject?: () => void   // omitted when File System Access is unavailable
 }
 
 export function ActionBar({
     readyCount,
     processingCount,
     downloadingId,
+    invalidNameCount,
     onClearAll,
-    onDownloadAll
+    onDownloadAll,
+    onCancel,
+    onBatchRename,
+    onSanitizeNames,
+    onExportToProject
 }: ActionBarProps) {
     const { t } = useTranslation()
 
@@ -26,7 +36,29 @@ export function ActionBar({
                 {readyCount > 0 && t('drawable.totalFiles', { count: readyCount })}
             </div>
             <div className="flex gap-2">
-                <Button variant="outline" size="sm" onClick={onClearAll}>{t('drawable.clearAll')}</Button>
+                {downloadingId ? (
+                    <Button variant="outline" size="sm" onClick={onCancel}>{t('common.cancel')}</Button>
+                ) : (
+                    <Button variant="outline" size="sm" onClick={onClearAll}>{t('drawable.clearAll')}</Button>
+                )}
+                {invalidNameCount > 0 && (
+                    <Button variant="outline" size="sm" onClick={onSanitizeNames} disabled={!!downloadingId} className="text-red-600">
+                        <Wand2 className="h-4 w-4 mr-1" />
+                        {t('drawable.names.fixAll', { count: invalidNameCount })}
+                    </Button>
+                )}
+                {readyCount > 0 && (
+                    <Button variant="outline" size="sm" onClick={onBatchRename} disabled={!!downloadingId}>
+                        <TextCursorInput className="h-4 w-4 mr-1" />
+                        {t('drawable.names.rename')}
+                    </Button>
+                )}
+                {readyCount > 0 && onExportToProject && (
+                    <Button variant="outline" size="sm" onClick={onExportToProject} disabled={!!downloadingId}>
+                        {downloadingId === 'export' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FolderOpen className="h-4 w-4 mr-1" />}
+                        {t('drawable.exportToProject')}
+                    </Button>
+                )}
                 {readyCount > 0 && (
                     <Button size="sm" onClick={onDownloadAll} disabled={downloadingId === 'all'}>
                         {downloadingId === 'all' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react'
+import { X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ProcessingFile } from '@/types'
+import { DEFAULT_RENAME_TEMPLATE, NameCase, RenameTemplate, applyRenameTemplate, getResourceNameError } from '@/lib/resourceNames'
+
+interface BatchRenameDialogProps {
+    open: boolean
+    files: ProcessingFile[]         // files to rename, in list order
+    onApply: (names: Map<string, string>) => void
+    onClose: () => void
+}
+
+const NAME_CASES: NameCase[] = ['snake', 'lower', 'keep']
+// Rows shown in the preview, the rest is summarized
+const PREVIEW_LIMIT = 8
+
+export function BatchRenameDialog({ open, files, onApply, onClose }: BatchRenameDialogProps) {
+    const { t } = useTranslation()
+    const [template, setTemplate] = useState<RenameTemplate>(DEFAULT_RENAME_TEMPLATE)
+
+    const names = new Map(files.map((file, index) => [file.id, applyRenameTemplate(template, file.outputName, index)]))
+
+    // ESC to cancel, Enter to apply
+    useEffect(() => {
+        if (!open) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose()
+            } else if (e.key === 'Enter' && (e.target as HTMLElement).tagName !== 'BUTTON') {
+                onApply(names)
+            }
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [open, names, onApply, onClose])
+
+    if (!open) return null
+
+    const update = (patch: Partial<RenameTemplate>) => setTemplate(prev => ({ ...prev, ...patch }))
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <div>
+                        <h3 className="text-lg font-semibold">{t('drawable.names.renameTitle')}</h3>
+                        <p className="text-xs text-muted-foreground">{t('drawable.names.renameCount', { count: files.length })}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4 max-h-[60vh] overflow-y-auto">
+                    <div>
+                        <Label htmlFor="rename-template" className="text-sm font-medium mb-1.5 block">{t('drawable.names.template')}</Label>
+                        <Input
+                            id="rename-template"
+                            value={template.template}
+                            onChange={(e) => update({ template: e.target.value })}
+                            placeholder="ic_{name}_24dp"
+                            className="h-8 font-mono text-sm"
+                            autoFocus
+                        />
+                        <p className="text-[11px] text-muted-foreground mt-1">{t('drawable.names.templateDesc')}</p>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <Label htmlFor="rename-prefix" className="text-sm font-medium mb-1.5 block">{t('drawable.names.prefix')}</Label>
+                            <Input
+                                id="rename-prefix"
+                                value={template.prefix}
+                                onChange={(e) => update({ prefix: e.target.value })}
+                                placeholder="ic_"
+                                className="h-8 font-mono text-sm"
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="rename-suffix" className="text-sm font-medium mb-1.5 block">{t('drawable.names.suffix')}</Label>
+                            <Input
+                                id="rename-suffix"
+                                value={template.suffix}
+                                onChange={(e) => update({ suffix: e.target.value })}
+                                placeholder="_24dp"
+                                className="h-8 font-mono text-sm"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label className="text-sm font-medium mb-1.5 block">{t('drawable.names.case')}</Label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {NAME_CASES.map(nameCase => (
+                                <button
+                                    key={nameCase}
+                                    onClick={() => update({ nameCase })}
+                                    className={`py-1.5 border rounded-md text-xs transition-colors ${template.nameCase === nameCase
+                                        ? 'bg-primary/5 border-primary font-medium'
+                                        : 'hover:bg-slate-50'
+                                        }`}
+                                >
+                                    {t(`drawable.names.cases.${nameCase}`)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label className="text-sm font-medium mb-1.5 block">{t('drawable.names.preview')}</Label>
+                        <div className="rounded-md border divide-y text-xs font-mono">
+                            {files.slice(0, PREVIEW_LIMIT).map(file => {
+                                const name = names.get(file.id)!
+                                const error = getResourceNameError(name)
+                                return (
+                                    <div key={file.id} className="px-2 py-1 flex items-center gap-2" title={error ? t(`drawable.names.errors.${error}`) : undefined}>
+                                        <span className="truncate text-muted-foreground flex-1">{file.outputName}</span>
+                                        <span className="text-muted-foreground">→</span>
+                                        <span className={`truncate flex-1 ${error ? 'text-red-600' : ''}`}>{name}</span>
+                                    </div>
+                                )
+                            })}
+                            {files.length > PREVIEW_LIMIT && (
+                                <div className="px-2 py-1 text-muted-foreground font-sans">
+                                    {t('drawable.names.previewMore', { count: files.length - PREVIEW_LIMIT })}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="px-6 py-4 border-t flex justify-end gap-2">
+                    <Button variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+                    <Button onClick={() => onApply(names)} disabled={files.length === 0}>{t('drawable.names.apply')}</Button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect, useMemo } from 'react'
+import { X, Plus, Trash2, Pipette, ArrowRight } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { ColorVariant, ProcessingFile, Recolor } from '@/types'
+import {
+    DEFAULT_TINT_COLOR,
+    applyRecolor,
+    findSourceColors,
+    getInvalidSuffixes,
+    isHexColor,
+    isValidRecolor,
+    loadPreviewPixels,
+} from '@/lib/colorVariants'
+
+interface ColorVariantsDialogProps {
+    file: ProcessingFile | null
+    onSave: (fileId: string, variants: ColorVariant[] | undefined) => void
+    onClose: () => void
+}
+
+// Longest side of the pixels used for previews and color detection
+const PREVIEW_SIZE = 160
+
+const MODES: Recolor['mode'][] = ['tint', 'palette']
+
+function createVariant(variants: ColorVariant[]): ColorVariant {
+    const suffix = variants.some(v => v.suffix === '_white') ? `_color${variants.length + 1}` : '_white'
+    return { suffix, recolor: { mode: 'tint', color: DEFAULT_TINT_COLOR, palette: [] } }
+}
+
+// Color picker with a hex field, like the recolor option of the dark version dialog
+function ColorField({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+    return (
+        <div className="flex items-center gap-1.5">
+            <input
+                type="color"
+                value={isHexColor(value) ? value : '#000000'}
+                onChange={(e) => onChange(e.target.value.toUpperCase())}
+                className="h-7 w-8 rounded border cursor-pointer bg-white"
+            />
+            <Input
+                value={value}
+                onChange={(e) => {
+                    const color = e.target.value.trim()
+                    if (/^#[0-9a-f]{0,6}$/i.test(color)) onChange(color)
+                }}
+                className="h-7 w-24 text-xs font-mono"
+                maxLength={7}
+            />
+        </div>
+    )
+}
+
+function RecolorPreview({ pixels, recolor }: { pixels: ImageData | null; recolor: Recolor }) {
+    const url = useMemo(() => {
+        if (!pixels || !isValidRecolor(recolor)) return null
+        const canvas = document.createElement('canvas')
+        canvas.width = pixels.width
+        canvas.height = pixels.height
+        const ctx = canvas.getContext('2d')
+        if (!ctx) return null
+        const copy = new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height)
+        ctx.putImageData(applyRecolor(copy, recolor), 0, 0)
+        return canvas.toDataURL()
+    }, [pixels, recolor])
+
+    return (
+        <div className="h-16 w-16 shrink-0 rounded-md border bg-neutral-400 flex items-center justify-center p-1.5">
+            {url && <img src={url} alt="" className="max-w-full max-h-full object-contain" />}
+        </div>
+    )
+}
+
+export function ColorVariantsDialog({ file, onSave, onClose }: ColorVariantsDialogProps) {
+    const { t } = useTranslation()
+    // Draft of the file's variants, only applied on save
+    const [variants, setVariants] = useState<ColorVariant[]>([])
+    const [pixels, setPixels] = useState<ImageData | null>(null)
+
+    useEffect(() => {
+        if (!file) return
+        setVariants(file.colorVariants ?? [createVariant([])])
+        setPixels(null)
+        let cancelled = false
+        loadPreviewPixels(file.preview, PREVIEW_SIZE)
+            .then(loaded => { if (!cancelled) setPixels(loaded) })
+            .catch(error => console.error('Failed to load preview pixels:', error))
+        return () => { cancelled = true }
+    }, [file])
+
+    const invalidSuffixes = getInvalidSuffixes(variants)
+    const canSave = invalidSuffixes.size === 0 && variants.every(v => isValidRecolor(v.recolor))
+
+    const save = () => {
+        if (!file || !canSave) return
+        onSave(file.id, variants.length > 0 ? variants : undefined)
+    }
+
+    // ESC to cancel, Enter to save
+    useEffect(() => {
+        if (!file) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose()
+            } else if (e.key === 'Enter' && (e.target as HTMLElement).tagName !== 'BUTTON') {
+                save()
+            }
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    })
+
+    if (!file) return null
+
+    const updateVariant = (index: number, changes: Partial<ColorVariant>) =>
+        setVariants(prev => prev.map((v, i) => i === index ? { ...v, ...changes } : v))
+
+    const updateRecolor = (index: number, changes: Partial<Recolor>) =>
+        setVariants(prev => prev.map((v, i) => i === index ? { ...v, recolor: { ...v.recolor, ...changes } } : v))
+
+    // Prefill the palette with the image's own colors, each mapped to itself
+    const detectColors = (index: number) => {
+        if (!pixels) return
+        updateRecolor(index, { palette: findSourceColors(pixels).map(color => ({ from: color, to: color })) })
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-xl mx-4">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-semibold">{t('drawable.colors.title')}</h3>
+                        <p className="text-xs text-muted-foreground truncate">{file.name}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="px-6 py-4 space-y-3 max-h-[60vh] overflow-y-auto">
+                    <p className="text-xs text-muted-foreground">{t('drawable.colors.desc')}</p>
+
+                    {variants.map((variant, index) => (
+                        <div key={index} className="rounded-md border p-3 flex gap-3">
+                            <RecolorPreview pixels={pixels} recolor={variant.recolor} />
+                            <div className="flex-1 min-w-0 space-y-2">
+                                <div className="flex items-center gap-1.5">
+                                    <span className="text-xs text-muted-foreground font-mono truncate">{file.outputName}</span>
+                                    <Input
+                                        value={variant.suffix}
+                                        onChange={(e) => updateVariant(index, { suffix: e.target.value.trim() })}
+                                        className={`h-7 w-28 text-xs font-mono ${invalidSuffixes.has(variant.suffix) ? 'border-red-400 focus-visible:ring-red-400' : ''}`}
+                                        title={t('drawable.colors.suffix')}
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-7 w-7 ml-auto text-muted-foreground hover:text-destructive"
+                                        onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </div>
+                                {invalidSuffixes.has(variant.suffix) && (
+                                    <p className="text-xs text-red-600">{t('drawable.colors.invalidSuffix')}</p>
+                                )}
+
+                                <RadioGroup
+                                    value={variant.recolor.mode}
+                                    onValueChange={(value) => {
+                                        updateRecolor(index, { mode: value as Recolor['mode'] })
+                                        if (value === 'palette' && variant.recolor.palette.length === 0) detectColors(index)
+                                    }}
+                                    className="flex gap-4"
+                                >
+                                    {MODES.map(mode => (
+                                        <div key={mode} className="flex items-center space-x-1.5">
+                                            <RadioGroupItem value={mode} id={`color-mode-${index}-${mode}`} />
+                                            <Label htmlFor={`color-mode-${index}-${mode}`} className="text-xs cursor-pointer" title={t(`drawable.colors.modes.${mode}.desc`)}>
+                                                {t(`drawable.colors.modes.${mode}.label`)}
+                                            </Label>
+                                        </div>
+                                    ))}
+                                </RadioGroup>
+
+                                {variant.recolor.mode === 'tint' ? (
+                                    <ColorField value={variant.recolor.color} onChange={(color) => updateRecolor(index, { color })} />
+                                ) : (
+                                    <div className="space-y-1.5">
+                                        {variant.recolor.palette.map((entry, entryIndex) => (
+                                            <div key={entryIndex} className="flex items-center gap-1.5">
+                                                <ColorField
+                                                    value={entry.from}
+                                                    onChange={(from) => updateRecolor(index, {
+                                                        palette: variant.recolor.palette.map((e, i) => i === entryIndex ? { ...e, from } : e),
+                                                    })}
+                                                />
+                                                <ArrowRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                                                <ColorField
+                                                    value={entry.to}
+                                                    onChange={(to) => updateRecolor(index, {
+                                                        palette: variant.recolor.palette.map((e, i) => i === entryIndex ? { ...e, to } : e),
+                                                    })}
+                                                />
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-7 w-7 text-muted-foreground"
+                                                    onClick={() => updateRecolor(index, { palette: variant.recolor.palette.filter((_, i) => i !== entryIndex) })}
+                                                >
+                                                    <X className="h-3.5 w-3.5" />
+                                                </Button>
+                                            </div>
+                                        ))}
+                                        <div className="flex gap-2">
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="h-7 px-2 text-xs"
+                                                onClick={() => updateRecolor(index, {
+                                                    palette: [...variant.recolor.palette, { from: '#000000', to: DEFAULT_TINT_COLOR }],
+                                                })}
+                                            >
+                                                <Plus className="h-3.5 w-3.5 mr-1" />
+                                                {t('drawable.colors.addColor')}
+                                            </Button>
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="h-7 px-2 text-xs"
+                                                onClick={() => detectColors(index)}
+                                                disabled={!pixels}
+                                            >
+                                                <Pipette className="h-3.5 w-3.5 mr-1" />
+                                                {t('drawable.colors.detect')}
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+
+                    <Button variant="outline" size="sm" className="w-full" onClick={() => setVariants(prev => [...prev, createVariant(prev)])}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        {t('drawable.colors.add')}
+                    </Button>
+                </div>
+
+                <div className="px-6 py-4 border-t flex justify-end gap-2">
+                    <Button variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+                    <Button onClick={save} disabled={!canSave}>{t('common.confirm')}</Button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,313 @@
+import { useState, useEffect, useRef } from 'react'
+import { X, Loader2, ZoomIn, ZoomOut, Maximize } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { ConvertConfig, ProcessingFile } from '@/types'
+import { getDensityOrder } from '@/lib/imageUtils'
+import { getDensityFolder, getEffectiveConfig, getOutputExtension } from '@/lib/conversion'
+import { ComparisonResult, encodeComparison } from '@/lib/comparison'
+import { isAbortError } from '@/lib/workerPool'
+
+interface ComparisonDialogProps {
+    file: ProcessingFile | null
+    config: ConvertConfig
+    onApply: (fileId: string, quality: number, lossless: boolean) => void
+    onClose: () => void
+}
+
+const ZOOM_LEVELS = [0.25, 0.5, 1, 2, 4, 8, 16]
+
+// Wait for the slider to settle before re-encoding
+const ENCODE_DELAY = 200
+
+// Transparent areas are shown on a checkerboard
+const CHECKERBOARD = {
+    backgroundImage: 'conic-gradient(#e2e8f0 25%, #fff 0 50%, #e2e8f0 0 75%, #fff 0)',
+    backgroundSize: '16px 16px',
+}
+
+function formatKb(bytes: number): string {
+    return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+export function ComparisonDialog({ file, config, onApply, onClose }: ComparisonDialogProps) {
+    const { t } = useTranslation()
+    const [density, setDensity] = useState('xxhdpi')
+    const [quality, setQuality] = useState(config.quality)
+    const [lossless, setLossless] = useState(config.lossless)
+    const [zoom, setZoom] = useState(1)
+    const [split, setSplit] = useState(50)
+    const [result, setResult] = useState<ComparisonResult | null>(null)
+    const [isEncoding, setIsEncoding] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const viewportRef = useRef<HTMLDivElement>(null)
+    const referenceCanvasRef = useRef<HTMLCanvasElement>(null)
+    const encodedCanvasRef = useRef<HTMLCanvasElement>(null)
+    const isDraggingRef = useRef(false)
+
+    const effectiveConfig = file ? getEffectiveConfig(file, config) : config
+    const densities = getDensityOrder(config.customDensities).filter(d => effectiveConfig.selectedDensities.includes(d))
+
+    // Start from the file's own settings and its largest density
+    useEffect(() => {
+        if (!file) return
+        const fileConfig = getEffectiveConfig(file, config)
+        const fileDensities = getDensityOrder(config.customDensities).filter(d => fileConfig.selectedDensities.includes(d) && d !== 'drawable')
+        setDensity(fileDensities[fileDensities.length - 1] || 'drawable')
+        setQuality(fileConfig.quality)
+        setLossless(fileConfig.lossless)
+        setResult(null)
+        setSplit(50)
+        // Only when another file is opened, not on every config change
+    }, [file?.id])
+
+    // Re-encode when the density or encoding settings change
+    useEffect(() => {
+        if (!file) return
+        const controller = new AbortController()
+        const timer = window.setTimeout(async () => {
+            setIsEncoding(true)
+            setError(null)
+            try {
+                const comparison = await encodeComparison(
+                    file,
+                    { ...getEffectiveConfig(file, config), quality, lossless },
+                    density,
+                    controller.signal
+                )
+                setResult(comparison)
+            } catch (err) {
+                if (isAbortError(err)) return
+                console.error('Failed to encode comparison:', err)
+                setError(t('drawable.compare.encodeFailed'))
+            }
+            setIsEncoding(false)
+        }, ENCODE_DELAY)
+
+        return () => {
+            window.clearTimeout(timer)
+            controller.abort()
+        }
+    }, [file, config, density, quality, lossless, t])
+
+    // Draw both images at their native size; zoom is applied with CSS
+    useEffect(() => {
+        if (!result) return
+        referenceCanvasRef.current?.getContext('2d')?.putImageData(result.reference, 0, 0)
+        encodedCanvasRef.current?.getContext('2d')?.putImageData(result.encoded, 0, 0)
+    }, [result])
+
+    // Fit a new density into the viewport (never enlarged past 100% here)
+    const resultWidth = result?.reference.width
+    const resultHeight = result?.reference.height
+    useEffect(() => {
+        const viewport = viewportRef.current
+        if (!viewport || !resultWidth || !resultHeight) return
+        setZoom(getFitZoom(viewport, resultWidth, resultHeight))
+    }, [resultWidth, resultHeight])
+
+    // ESC to close
+    useEffect(() => {
+        if (!file) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose()
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [file, onClose])
+
+    if (!file) return null
+
+    const format = getOutputExtension(file, effectiveConfig.format).replace(/^9\./, '').toUpperCase()
+    const canApply = !file.ninePatch && (quality !== effectiveConfig.quality || lossless !== effectiveConfig.lossless)
+
+    const updateSplit = (clientX: number, target: HTMLElement) => {
+        const rect = target.getBoundingClientRect()
+        setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)))
+    }
+
+    const stepZoom = (direction: 1 | -1) => {
+        const index = ZOOM_LEVELS.findIndex(level => level >= zoom)
+        const next = direction > 0
+            ? ZOOM_LEVELS.find(level => level > zoom)
+            : ZOOM_LEVELS[Math.max(0, (index === -1 ? ZOOM_LEVELS.length : index) - 1)]
+        if (next) setZoom(next)
+    }
+
+    const canvasStyle = result
+        ? { width: result.reference.width * zoom, height: result.reference.height * zoom, imageRendering: 'pixelated' as const }
+        : undefined
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-5xl mx-4 flex flex-col h-[85vh]">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-semibold">{t('drawable.compare.title')}</h3>
+                        <p className="text-xs text-muted-foreground truncate">{file.name}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="px-6 py-3 border-b flex flex-wrap items-center gap-x-6 gap-y-3">
+                    <div className="flex flex-wrap gap-1">
+                        {densities.map(d => (
+                            <button
+                                key={d}
+                                onClick={() => setDensity(d)}
+                                className={`px-2.5 py-1 rounded-md border text-xs font-mono transition-colors ${density === d
+                                    ? 'border-primary bg-primary/5 text-primary'
+                                    : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                                    }`}
+                            >
+                                {getDensityFolder(d)}
+                            </button>
+                        ))}
+                    </div>
+
+                    {!file.ninePatch && (
+                        <div className="flex items-center gap-3">
+                            <Label className="text-sm whitespace-nowrap">
+                                {lossless ? t('drawable.compression') : t('drawable.quality')}
+                            </Label>
+                            <Slider
+                                value={[quality]}
+                                onValueChange={([value]) => setQuality(value)}
+                                max={100}
+                                min={lossless ? 0 : 10}
+                                step={1}
+                                className="w-40"
+                            />
+                            <span className="text-xs text-muted-foreground w-6 text-right">{quality}</span>
+                            <div className="flex items-center space-x-2">
+                                <Checkbox
+                                    id="compare-lossless"
+                                    checked={lossless}
+                                    onCheckedChange={(checked) => setLossless(!!checked)}
+                                />
+                                <Label htmlFor="compare-lossless" className="text-sm cursor-pointer">{t('drawable.lossless')}</Label>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex items-center gap-1 ml-auto">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepZoom(-1)} disabled={zoom <= ZOOM_LEVELS[0]}>
+                            <ZoomOut className="h-4 w-4" />
+                        </Button>
+                        <span className="text-xs font-medium w-12 text-center">{Math.round(zoom * 100)}%</span>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepZoom(1)} disabled={zoom >= ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}>
+                            <ZoomIn className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title={t('drawable.compare.fit')}
+                            onClick={() => result && viewportRef.current && setZoom(getFitZoom(viewportRef.current, result.reference.width, result.reference.height))}
+                        >
+                            <Maximize className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="relative flex-1 min-h-0 bg-slate-100">
+                    <div ref={viewportRef} className="absolute inset-0 overflow-auto">
+                        {result && (
+                            <div className="min-w-full min-h-full w-max flex items-center justify-center p-4">
+                                <div
+                                    className="relative cursor-ew-resize select-none touch-none shadow"
+                                    style={{ ...CHECKERBOARD, ...canvasStyle }}
+                                    onPointerDown={(e) => {
+                                        isDraggingRef.current = true
+                                        e.currentTarget.setPointerCapture(e.pointerId)
+                                        updateSplit(e.clientX, e.currentTarget)
+                                    }}
+                                    onPointerMove={(e) => {
+                                        if (isDraggingRef.current) updateSplit(e.clientX, e.currentTarget)
+                                    }}
+                                    onPointerUp={() => { isDraggingRef.current = false }}
+                                >
+                                    <canvas
+                                        ref={referenceCanvasRef}
+                                        width={result.reference.width}
+                                        height={result.reference.height}
+                                        className="absolute inset-0"
+                                        style={canvasStyle}
+                                    />
+                                    <canvas
+                                        ref={encodedCanvasRef}
+                                        width={result.encoded.width}
+                                        height={result.encoded.height}
+                                        className="absolute inset-0"
+                                        style={{ ...canvasStyle, clipPath: `inset(0 0 0 ${split}%)` }}
+                                    />
+                                    <div className="absolute inset-y-0 w-px bg-primary pointer-events-none" style={{ left: `${split}%` }} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="absolute top-0 inset-x-0 flex justify-between p-2 pointer-events-none text-[11px] font-medium">
+                        <span className="px-2 py-0.5 rounded bg-black/60 text-white">{t('drawable.compare.original')}</span>
+                        <span className="px-2 py-0.5 rounded bg-black/60 text-white">
+                            {t('drawable.compare.encoded', { format })}
+                        </span>
+                    </div>
+
+                    {(isEncoding || (!result && !error)) && (
+                        <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-1.5 px-2 py-1 rounded bg-white/90 text-xs text-muted-foreground shadow-sm">
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                            {t('drawable.compare.encoding')}
+                        </div>
+                    )}
+                </div>
+
+                <div className="px-6 py-4 border-t flex items-center justify-between gap-4">
+                    <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm">
+                        {error ? (
+                            <span className="text-red-600">{error}</span>
+                        ) : result && (
+                            <>
+                                <span className="text-muted-foreground">
+                                    {result.reference.width} × {result.reference.height}
+                                </span>
+                                <span>
+                                    <span className="text-muted-foreground">{t('drawable.compare.size')}: </span>
+                                    <span className="font-medium">{formatKb(result.size)}</span>
+                                    <span className="text-xs text-muted-foreground ml-1">
+                                        ({t('drawable.compare.sourceSize', { size: formatKb(file.size) })})
+                                    </span>
+                                </span>
+                                <span title={t('drawable.compare.ssimDesc')}>
+                                    <span className="text-muted-foreground">SSIM: </span>
+                                    <span className="font-medium font-mono">{result.ssim.toFixed(4)}</span>
+                                </span>
+                            </>
+                        )}
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                        <Button variant="outline" onClick={onClose}>{t('drawable.compare.close')}</Button>
+                        <Button onClick={() => onApply(file.id, quality, lossless)} disabled={!canApply}>
+                            {t('drawable.compare.apply')}
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
+
+/**
+ * Largest zoom level that shows the whole image in the viewport (at most 100%)
+ */
+function getFitZoom(viewport: HTMLElement, width: number, height: number): number {
+    // Leave room for the padding around the image
+    const available = Math.min((viewport.clientWidth - 32) / width, (viewport.clientHeight - 32) / height)
+    return [...ZOOM_LEVELS].reverse().find(level => level <= Math.min(1, available)) ?? ZOOM_LEVELS[0]
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect, useRef } from 'react'
+import { X, ImagePlus } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { ImageFile, NightTransform, ProcessingFile } from '@/types'
+import { createImageFile } from '@/lib/imageUtils'
+import { DEFAULT_NIGHT_COLOR } from '@/lib/darkVariants'
+
+type DarkMode = 'none' | 'image' | NightTransform['mode']
+
+interface DarkVariantDialogProps {
+    file: ProcessingFile | null
+    nightMode: boolean              // whether files without a dark version get a copy in the night folders
+    onSave: (fileId: string, darkVariant: ImageFile | undefined, nightTransform: NightTransform | undefined) => void
+    onClose: () => void
+}
+
+const DARK_MODES: DarkMode[] = ['none', 'image', 'invert', 'recolor']
+
+export function DarkVariantDialog({ file, nightMode, onSave, onClose }: DarkVariantDialogProps) {
+    const { t } = useTranslation()
+    const inputRef = useRef<HTMLInputElement>(null)
+    // Draft of the file's night version, only applied on save
+    const [mode, setMode] = useState<DarkMode>('none')
+    const [image, setImage] = useState<ImageFile | undefined>()
+    const [color, setColor] = useState(DEFAULT_NIGHT_COLOR)
+    const [loadFailed, setLoadFailed] = useState(false)
+
+    useEffect(() => {
+        if (!file) return
+        setMode(file.darkVariant ? 'image' : file.nightTransform?.mode || 'none')
+        setImage(file.darkVariant)
+        setColor(file.nightTransform?.color || DEFAULT_NIGHT_COLOR)
+        setLoadFailed(false)
+    }, [file])
+
+    // Drop the preview of an attached image that is not kept
+    const discardDraftImage = (keep?: ImageFile) => {
+        if (image && image !== file?.darkVariant && image !== keep) URL.revokeObjectURL(image.preview)
+    }
+
+    const close = () => {
+        discardDraftImage()
+        onClose()
+    }
+
+    const save = () => {
+        if (!file) return
+        const darkVariant = mode === 'image' ? image : undefined
+        discardDraftImage(darkVariant)
+        onSave(file.id, darkVariant, mode === 'invert' || mode === 'recolor' ? { mode, color } : undefined)
+    }
+
+    // ESC to cancel, Enter to save
+    useEffect(() => {
+        if (!file) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                close()
+            } else if (e.key === 'Enter' && (e.target as HTMLElement).tagName !== 'BUTTON') {
+                save()
+            }
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    })
+
+    if (!file) return null
+
+    const handleImageSelect = async (selected: File | undefined) => {
+        if (!selected) return
+        try {
+            const loaded = await createImageFile(selected)
+            discardDraftImage()
+            setImage(loaded)
+            setMode('image')
+            setLoadFailed(false)
+        } catch (error) {
+            console.error('Failed to load dark variant:', error)
+            setLoadFailed(true)
+        }
+    }
+
+    // Generated versions need pixels and would repaint the nine-patch markers
+    const canTransform = !file.ninePatch && !(file.vectorDrawable && !file.rasterize)
+    const canSave = mode === 'image' ? !!image : mode !== 'recolor' || /^#[0-9a-f]{6}$/i.test(color)
+
+    const renderNightPreview = () => {
+        switch (mode) {
+            case 'image':
+                return image
+                    ? <img src={image.preview} alt={image.name} className="max-w-full max-h-full object-contain" />
+                    : <ImagePlus className="h-6 w-6 text-neutral-500" />
+            case 'invert':
+                return <img src={file.preview} alt="" className="max-w-full max-h-full object-contain" style={{ filter: 'invert(1)' }} />
+            case 'recolor':
+                // The mask keeps the icon's alpha and paints it in one color, like the worker does
+                return (
+                    <div
+                        className="w-full h-full"
+                        style={{
+                            backgroundColor: color,
+                            WebkitMaskImage: `url(${file.preview})`,
+                            maskImage: `url(${file.preview})`,
+                            WebkitMaskSize: 'contain',
+                            maskSize: 'contain',
+                            WebkitMaskRepeat: 'no-repeat',
+                            maskRepeat: 'no-repeat',
+                            WebkitMaskPosition: 'center',
+                            maskPosition: 'center',
+                        }}
+                    />
+                )
+            default:
+                return nightMode
+                    ? <img src={file.preview} alt="" className="max-w-full max-h-full object-contain" />
+                    : <span className="text-[11px] text-neutral-500 text-center px-2">{t('drawable.dark.noNightOutput')}</span>
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={close} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-semibold">{t('drawable.dark.title')}</h3>
+                        <p className="text-xs text-muted-foreground truncate">{file.name}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={close}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4 max-h-[60vh] overflow-y-auto">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <p className="text-xs text-muted-foreground mb-1">{t('drawable.dark.light')}</p>
+                            <div className="h-24 rounded-md border bg-white flex items-center justify-center p-2">
+                                <img src={file.preview} alt={file.name} className="max-w-full max-h-full object-contain" />
+                            </div>
+                        </div>
+                        <div>
+                            <p className="text-xs text-muted-foreground mb-1">{t('drawable.dark.night')}</p>
+                            <div className="h-24 rounded-md border bg-neutral-900 flex items-center justify-center p-2">
+                                {renderNightPreview()}
+                            </div>
+                        </div>
+                    </div>
+
+                    <RadioGroup value={mode} onValueChange={(value) => setMode(value as DarkMode)} className="space-y-2">
+                        {DARK_MODES.map(value => (
+                            <div key={value} className="flex items-start space-x-2">
+                                <RadioGroupItem
+                                    value={value}
+                                    id={`dark-mode-${value}`}
+                                    disabled={(value === 'invert' || value === 'recolor') && !canTransform}
+                                    className="mt-0.5"
+                                />
+                                <Label htmlFor={`dark-mode-${value}`} className="text-sm cursor-pointer">
+                                    {t(`drawable.dark.modes.${value}.label`)}
+                                    <span className="block text-xs text-muted-foreground font-normal">{t(`drawable.dark.modes.${value}.desc`)}</span>
+                                </Label>
+                            </div>
+                        ))}
+                    </RadioGroup>
+
+                    {mode === 'image' && (
+                        <div>
+                            <Button
+                                variant="outline"
+                                className="w-full justify-start gap-2 h-10"
+                                onClick={() => inputRef.current?.click()}
+                            >
+                                {image ? (
+                                    <img src={image.preview} alt="" className="h-5 w-5 object-contain shrink-0" />
+                                ) : (
+                                    <ImagePlus className="h-4 w-4 shrink-0" />
+                                )}
+                                <span className="truncate">{image ? image.name : t('drawable.dark.chooseImage')}</span>
+                            </Button>
+                            <input
+                                ref={inputRef}
+                                type="file"
+                                accept="image/png,image/jpeg,image/webp,image/svg+xml,application/pdf"
+                                className="hidden"
+                                onChange={(e) => {
+                                    handleImageSelect(e.target.files?.[0])
+                                    e.target.value = ''
+                                }}
+                            />
+                            {loadFailed && <p className="text-xs text-red-600 mt-1">{t('drawable.loadFailed')}</p>}
+                        </div>
+                    )}
+
+                    {mode === 'recolor' && (
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="color"
+                                value={color}
+                                onChange={(e) => setColor(e.target.value)}
+                                className="h-8 w-10 rounded border cursor-pointer bg-white"
+                            />
+                            <Input
+                                value={color}
+                                onChange={(e) => {
+                                    const value = e.target.value.trim()
+                                    if (/^#[0-9a-f]{0,6}$/i.test(value)) setColor(value)
+                                }}
+                                className="h-8 text-sm font-mono"
+                                maxLength={7}
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div className="px-6 py-4 border-t flex justify-end gap-2">
+                    <Button variant="outline" onClick={close}>{t('common.cancel')}</Button>
+                    <Button onClick={save} disabled={!canSave}>{t('common.confirm')}</Button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -1,29 +1,63 @@
-import { Trash2, Loader2, Pencil, Check, Download } from 'lucide-react'
+import { Trash2, Loader2, Pencil, Check, Download, AlertTriangle, SlidersHorizontal, SplitSquareHorizontal, Wand2, Moon, Crop, Palette } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
 import { Progress } from '@/components/ui/progress'
-import { ProcessingFile } from '@/types'
+import { ImageTransform, OutputFormat, ProcessingFile, TransformLayout } from '@/types'
+import { getOutputExtension, hasDarkVersion } from '@/lib/conversion'
+import { ResourceNameError } from '@/lib/resourceNames'
+import { DEFAULT_IMAGE_TRANSFORM, canTransform } from '@/lib/imageTransforms'
+import { canRecolor } from '@/lib/colorVariants'
+import { TransformPreview } from './TransformPreview'
 
 interface FileListProps {
     files: ProcessingFile[]
+    outputFormat: OutputFormat
     downloadingId: string | null
+    nameErrors: Map<string, ResourceNameError>
+    transformLayouts: Map<string, TransformLayout>
     onRemove: (fileId: string) => void
     onStartEdit: (fileId: string) => void
     onNameChange: (fileId: string, newName: string) => void
     onFinishEdit: (fileId: string) => void
     onDownload: (file: ProcessingFile) => void
+    onVectorSizeChange: (fileId: string, widthDp: number) => void
+    onToggleRasterize: (fileId: string) => void
+    onAnimationChange: (fileId: string, settings: Pick<ProcessingFile, 'loopCount' | 'animationList'>) => void
+    onTransformChange: (fileId: string, transform: ImageTransform | undefined) => void
+    onEditOverrides: (fileId: string) => void
+    onCompare: (fileId: string) => void
+    onEditDark: (fileId: string) => void
+    onEditColors: (fileId: string) => void
+    onToggleSelect: (fileId: string) => void
+    onSelectAll: (selected: boolean) => void
+    onSanitizeName: (fileId: string) => void
 }
 
 export function FileList({
     files,
+    outputFormat,
     downloadingId,
+    nameErrors,
+    transformLayouts,
     onRemove,
     onStartEdit,
     onNameChange,
     onFinishEdit,
-    onDownload
+    onDownload,
+    onVectorSizeChange,
+    onToggleRasterize,
+    onAnimationChange,
+    onTransformChange,
+    onEditOverrides,
+    onCompare,
+    onEditDark,
+    onEditColors,
+    onToggleSelect,
+    onSelectAll,
+    onSanitizeName
 }: FileListProps) {
     const { t } = useTranslation()
 
@@ -37,67 +71,358 @@ export function FileList({
         )
     }
 
+    const selectedCount = files.filter(f => f.selected).length
+
     return (
         <div className="flex-1 overflow-y-auto px-6 pb-6">
+            <div className="flex items-center gap-2 px-3 pb-2 text-xs text-muted-foreground">
+                <Checkbox
+                    id="select-all-files"
+                    checked={selectedCount === files.length}
+                    onCheckedChange={(checked) => onSelectAll(!!checked)}
+                />
+                <label htmlFor="select-all-files" className="cursor-pointer">
+                    {selectedCount > 0 ? t('drawable.names.selected', { count: selectedCount }) : t('drawable.names.selectAll')}
+                </label>
+            </div>
             <div className="space-y-2">
-                {files.map((file) => (
-                    <div key={file.id} className="flex items-center gap-4 p-3 bg-white rounded-lg border">
-                        <div className="w-12 h-12 rounded-lg overflow-hidden flex-shrink-0 bg-slate-100 flex items-center justify-center">
-                            <img src={file.preview} alt={file.name} className="max-w-full max-h-full object-contain" />
-                        </div>
-                        <div className="flex-1 min-w-0">
-                            {file.isEditing ? (
-                                <div className="flex items-center gap-2 mb-1">
-                                    <Input
-                                        value={file.outputName}
-                                        onChange={(e) => onNameChange(file.id, e.target.value)}
-                                        className="h-7 text-sm"
-                                        autoFocus
-                                        onBlur={() => onFinishEdit(file.id)}
-                                        onKeyDown={(e) => {
-                                            if (e.key === 'Enter' || e.key === 'Escape') onFinishEdit(file.id)
-                                        }}
-                                    />
-                                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => onFinishEdit(file.id)}>
-                                        <Check className="h-4 w-4 text-green-600" />
-                                    </Button>
-                                </div>
-                            ) : (
-                                <div className="flex items-center gap-2 mb-1">
-                                    <p className="text-sm font-medium truncate">{file.outputName}.webp</p>
-                                    {file.status === 'ready' && (
-                                        <button onClick={() => onStartEdit(file.id)} className="text-muted-foreground hover:text-foreground">
-                                            <Pencil className="h-3.5 w-3.5" />
-                                        </button>
+                {files.map((file) => {
+                    const exportsXml = !!file.vectorDrawable && !file.rasterize
+                    const nameError = nameErrors.get(file.id)
+                    const layout = transformLayouts.get(file.id)
+                    const updateTransform = (changes: Partial<ImageTransform>) =>
+                        onTransformChange(file.id, { ...file.transform!, ...changes })
+                    return (
+                        <div key={file.id} className="flex items-center gap-4 p-3 bg-white rounded-lg border">
+                            <Checkbox
+                                checked={!!file.selected}
+                                onCheckedChange={() => onToggleSelect(file.id)}
+                                className="flex-shrink-0"
+                            />
+                            <div className="relative w-12 h-12 flex-shrink-0">
+                                <div className="w-12 h-12 rounded-lg overflow-hidden bg-slate-100 flex items-center justify-center">
+                                    {layout ? (
+                                        <TransformPreview src={file.preview} alt={file.name} layout={layout} />
+                                    ) : (
+                                        <img src={file.preview} alt={file.name} className="max-w-full max-h-full object-contain" />
                                     )}
                                 </div>
-                            )}
-                            <p className="text-xs text-muted-foreground">{file.width} × {file.height} · {(file.size / 1024).toFixed(1)} KB</p>
-                            {file.status === 'processing' && <Progress value={file.progress} className="h-1 mt-1.5" />}
-                        </div>
-                        <div className="flex items-center gap-2 flex-shrink-0">
-                            {file.status === 'processing' && (
-                                <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                                    <span>{file.progress}%</span>
-                                </div>
-                            )}
-                            {file.status === 'ready' && downloadingId !== file.id && (
-                                <Badge variant="secondary" className="text-xs">{t('drawable.ready')}</Badge>
-                            )}
-                        </div>
-                        <div className="flex items-center gap-1 flex-shrink-0">
-                            {file.status === 'ready' && (
-                                <Button size="sm" variant="outline" onClick={() => onDownload(file)} disabled={downloadingId === file.id} className="h-8">
-                                    {downloadingId === file.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                                {file.darkVariant && (
+                                    <div
+                                        className="absolute -bottom-1 -right-1 w-6 h-6 rounded-md overflow-hidden bg-neutral-900 border-2 border-white flex items-center justify-center"
+                                        title={file.darkVariant.name}
+                                    >
+                                        <img src={file.darkVariant.preview} alt={file.darkVariant.name} className="max-w-full max-h-full object-contain" />
+                                    </div>
+                                )}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                {file.isEditing ? (
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <Input
+                                            value={file.outputName}
+                                            onChange={(e) => onNameChange(file.id, e.target.value)}
+                                            className={`h-7 text-sm ${nameError ? 'border-red-400 focus-visible:ring-red-400' : ''}`}
+                                            autoFocus
+                                            onBlur={() => onFinishEdit(file.id)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter' || e.key === 'Escape') onFinishEdit(file.id)
+                                            }}
+                                        />
+                                        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => onFinishEdit(file.id)}>
+                                            <Check className="h-4 w-4 text-green-600" />
+                                        </Button>
+                                    </div>
+                                ) : (
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <p className={`text-sm font-medium truncate ${nameError ? 'text-red-600' : ''}`}>{file.outputName}.{getOutputExtension(file, outputFormat)}</p>
+                                        {exportsXml && (
+                                            <Badge variant="outline" className="text-[10px] px-1.5 py-0">{t('drawable.vectorDrawable')}</Badge>
+                                        )}
+                                        {file.ninePatch && (
+                                            <Badge variant="outline" className="text-[10px] px-1.5 py-0">{t('drawable.ninePatch')}</Badge>
+                                        )}
+                                        {file.animation && (
+                                            <Badge variant="outline" className="text-[10px] px-1.5 py-0">{t('drawable.animation.badge')}</Badge>
+                                        )}
+                                        {file.scaleVariants && (
+                                            <Badge
+                                                variant="outline"
+                                                className="text-[10px] px-1.5 py-0"
+                                                title={t('drawable.scaleVariantsDesc', { files: file.scaleVariants.join(', ') })}
+                                            >
+                                                {t('drawable.scaleVariants', { count: file.scaleVariants.length + 1 })}
+                                            </Badge>
+                                        )}
+                                        {hasDarkVersion(file) && (
+                                            <Badge
+                                                variant="outline"
+                                                className="text-[10px] px-1.5 py-0 gap-0.5"
+                                                title={file.darkVariant ? file.darkVariant.name : t(`drawable.dark.modes.${file.nightTransform!.mode}.label`)}
+                                            >
+                                                <Moon className="h-2.5 w-2.5" />
+                                                {t('drawable.dark.badge')}
+                                            </Badge>
+                                        )}
+                                        {file.colorVariants && canRecolor(file) && (
+                                            <Badge
+                                                variant="outline"
+                                                className="text-[10px] px-1.5 py-0 gap-0.5"
+                                                title={file.colorVariants.map(v => file.outputName + v.suffix).join(', ')}
+                                            >
+                                                <Palette className="h-2.5 w-2.5" />
+                                                {t('drawable.colors.badge', { count: file.colorVariants.length })}
+                                            </Badge>
+                                        )}
+                                        {file.overrides && (
+                                            <Badge
+                                                variant="outline"
+                                                className="text-[10px] px-1.5 py-0 border-primary/40 text-primary"
+                                                title={Object.keys(file.overrides).join(', ')}
+                                            >
+                                                {t('drawable.overrides.badge')}
+                                            </Badge>
+                                        )}
+                                        {file.status === 'ready' && (
+                                            <button onClick={() => onStartEdit(file.id)} className="text-muted-foreground hover:text-foreground">
+                                                <Pencil className="h-3.5 w-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {nameError && (
+                                    <p className="text-xs text-red-600 flex items-center gap-1 mb-0.5">
+                                        <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                                        <span className="truncate">{t(`drawable.names.errors.${nameError}`)}</span>
+                                        {file.status === 'ready' && (
+                                            <button onClick={() => onSanitizeName(file.id)} className="flex items-center gap-0.5 text-primary hover:underline flex-shrink-0">
+                                                <Wand2 className="h-3 w-3" />
+                                                {t('drawable.names.fix')}
+                                            </button>
+                                        )}
+                                    </p>
+                                )}
+                                {file.vectorSource ? (
+                                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                                        <Input
+                                            type="number"
+                                            value={file.vectorSource.widthDp}
+                                            onChange={(e) => onVectorSizeChange(file.id, parseInt(e.target.value) || 0)}
+                                            className="h-6 w-14 px-1 text-xs text-center"
+                                            min={1}
+                                            disabled={file.status !== 'ready'}
+                                            title={t('drawable.logicalSize')}
+                                        />
+                                        <span>× {file.vectorSource.heightDp} dp · {(file.size / 1024).toFixed(1)} KB</span>
+                                        {file.vectorDrawable && file.status === 'ready' && (
+                                            <button onClick={() => onToggleRasterize(file.id)} className="text-primary hover:underline">
+                                                {file.rasterize ? t('drawable.exportAsVector') : t('drawable.exportAsBitmap')}
+                                            </button>
+                                        )}
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-muted-foreground">
+                                        {file.width} × {file.height}
+                                        {layout && ` → ${layout.width} × ${layout.height}`} · {(file.size / 1024).toFixed(1)} KB
+                                    </p>
+                                )}
+                                {file.transform && canTransform(file) && (
+                                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-0.5 text-xs text-muted-foreground">
+                                        <span className="flex items-center gap-1.5">
+                                            <Checkbox
+                                                id={`transform-trim-${file.id}`}
+                                                checked={file.transform.trim}
+                                                onCheckedChange={(checked) => updateTransform({ trim: !!checked })}
+                                                disabled={file.status !== 'ready'}
+                                                className="h-3.5 w-3.5"
+                                            />
+                                            <label htmlFor={`transform-trim-${file.id}`} className="cursor-pointer">{t('drawable.transform.trim')}</label>
+                                            <Input
+                                                type="number"
+                                                value={file.transform.trimThreshold}
+                                                onChange={(e) => updateTransform({ trimThreshold: Math.min(254, Math.max(0, parseInt(e.target.value) || 0)) })}
+                                                className="h-6 w-12 px-1 text-xs text-center"
+                                                min={0}
+                                                max={254}
+                                                disabled={file.status !== 'ready' || !file.transform.trim}
+                                                title={t('drawable.transform.thresholdDesc')}
+                                            />
+                                        </span>
+                                        <span className="flex items-center gap-1.5">
+                                            {t('drawable.transform.padding')}
+                                            <Input
+                                                type="number"
+                                                value={file.transform.paddingDp}
+                                                onChange={(e) => updateTransform({ paddingDp: Math.min(256, Math.max(0, parseInt(e.target.value) || 0)) })}
+                                                className="h-6 w-12 px-1 text-xs text-center"
+                                                min={0}
+                                                max={256}
+                                                disabled={file.status !== 'ready'}
+                                            />
+                                            dp
+                                        </span>
+                                        <span className="flex items-center gap-1.5">
+                                            <Checkbox
+                                                id={`transform-square-${file.id}`}
+                                                checked={file.transform.square}
+                                                onCheckedChange={(checked) => updateTransform({ square: !!checked })}
+                                                disabled={file.status !== 'ready'}
+                                                className="h-3.5 w-3.5"
+                                            />
+                                            <label htmlFor={`transform-square-${file.id}`} className="cursor-pointer">{t('drawable.transform.square')}</label>
+                                        </span>
+                                        <span className="flex items-center gap-1.5">
+                                            <Checkbox
+                                                id={`transform-snap-${file.id}`}
+                                                checked={file.transform.snap}
+                                                onCheckedChange={(checked) => updateTransform({ snap: !!checked })}
+                                                disabled={file.status !== 'ready'}
+                                                className="h-3.5 w-3.5"
+                                            />
+                                            <label htmlFor={`transform-snap-${file.id}`} className="cursor-pointer" title={t('drawable.transform.snapDesc')}>
+                                                {t('drawable.transform.snap')}
+                                            </label>
+                                        </span>
+                                    </div>
+                                )}
+                                {file.transform?.snap && (layout?.snapUnavailable || layout?.snapSkipped) && (
+                                    <p className="text-xs text-amber-600 flex items-center gap-1 mt-0.5">
+                                        <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                                        <span className="truncate">
+                                            {layout.snapUnavailable
+                                                ? t('drawable.transform.snapUnavailable')
+                                                : t('drawable.transform.snapSkipped', { densities: layout.snapSkipped!.join(', ') })}
+                                        </span>
+                                    </p>
+                                )}
+                                {file.animation && (
+                                    <div className="flex items-center gap-1.5 mt-0.5 text-xs text-muted-foreground">
+                                        <span>
+                                            {t('drawable.animation.frames', { count: file.animation.frameCount })}
+                                            {file.animation.duration !== undefined && ` · ${(file.animation.duration / 1000).toFixed(2)} s`} · {t('drawable.animation.loop')}
+                                        </span>
+                                        <Input
+                                            type="number"
+                                            value={file.loopCount ?? file.animation.loopCount}
+                                            onChange={(e) => onAnimationChange(file.id, { loopCount: Math.min(65535, Math.max(0, parseInt(e.target.value) || 0)) })}
+                                            className="h-6 w-12 px-1 text-xs text-center"
+                                            min={0}
+                                            max={65535}
+                                            disabled={file.status !== 'ready'}
+                                            title={t('drawable.animation.loopDesc')}
+                                        />
+                                        <Checkbox
+                                            id={`animation-list-${file.id}`}
+                                            checked={!!file.animationList}
+                                            onCheckedChange={(checked) => onAnimationChange(file.id, { animationList: !!checked })}
+                                            disabled={file.status !== 'ready'}
+                                            className="ml-1 h-3.5 w-3.5"
+                                        />
+                                        <label htmlFor={`animation-list-${file.id}`} className="cursor-pointer" title={t('drawable.animation.animationListDesc')}>
+                                            {t('drawable.animation.animationList')}
+                                        </label>
+                                    </div>
+                                )}
+                                {exportsXml && file.vectorDrawable!.unsupported.length > 0 && (
+                                    <p className="text-xs text-amber-600 flex items-center gap-1 mt-0.5">
+                                        <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                                        <span className="truncate">{t('drawable.unsupportedSvg', { items: file.vectorDrawable!.unsupported.join(', ') })}</span>
+                                    </p>
+                                )}
+                                {file.budgetResults && file.status !== 'processing' && (
+                                    <div className="flex flex-wrap gap-x-3 mt-0.5 text-[11px]">
+                                        {file.budgetResults.map(({ density, budget }) => (
+                                            <span
+                                                key={density}
+                                                className={budget.fits ? 'text-muted-foreground' : 'text-red-600'}
+                                                title={t('drawable.budget.limit', { size: (budget.maxBytes / 1024).toFixed(1) })}
+                                            >
+                                                {density.replace(/^drawable-/, '')}: {budget.lossless ? t('drawable.lossless') : `q${budget.quality}`} · {(budget.size / 1024).toFixed(1)} KB
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                {file.status === 'processing' && <Progress value={file.progress} className="h-1 mt-1.5" />}
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                {file.status === 'processing' && (
+                                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                        <span>{file.progress}%</span>
+                                    </div>
+                                )}
+                                {file.status === 'ready' && downloadingId !== file.id && (
+                                    <Badge variant="secondary" className="text-xs">{t('drawable.ready')}</Badge>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                                {file.status === 'ready' && (
+                                    <Button size="sm" variant="outline" onClick={() => onDownload(file)} disabled={downloadingId === file.id} className="h-8">
+                                        {downloadingId === file.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                                    </Button>
+                                )}
+                                {file.status === 'ready' && !exportsXml && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => onCompare(file.id)}
+                                        className="h-8 w-8 p-0 text-muted-foreground"
+                                        title={t('drawable.compare.open')}
+                                    >
+                                        <SplitSquareHorizontal className="h-4 w-4" />
+                                    </Button>
+                                )}
+                                {file.status === 'ready' && canTransform(file) && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => onTransformChange(file.id, file.transform ? undefined : DEFAULT_IMAGE_TRANSFORM)}
+                                        className={`h-8 w-8 p-0 ${file.transform ? 'text-primary' : 'text-muted-foreground'}`}
+                                        title={t(file.transform ? 'drawable.transform.remove' : 'drawable.transform.add')}
+                                    >
+                                        <Crop className="h-4 w-4" />
+                                    </Button>
+                                )}
+                                {file.status === 'ready' && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => onEditDark(file.id)}
+                                        className={`h-8 w-8 p-0 ${hasDarkVersion(file) ? 'text-primary' : 'text-muted-foreground'}`}
+                                        title={t('drawable.dark.edit')}
+                                    >
+                                        <Moon className="h-4 w-4" />
+                                    </Button>
+                                )}
+                                {file.status === 'ready' && canRecolor(file) && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => onEditColors(file.id)}
+                                        className={`h-8 w-8 p-0 ${file.colorVariants ? 'text-primary' : 'text-muted-foreground'}`}
+                                        title={t('drawable.colors.edit')}
+                                    >
+                                        <Palette className="h-4 w-4" />
+                                    </Button>
+                                )}
+                                {file.status === 'ready' && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => onEditOverrides(file.id)}
+                                        className={`h-8 w-8 p-0 ${file.overrides ? 'text-primary' : 'text-muted-foreground'}`}
+                                        title={t('drawable.overrides.edit')}
+                                    >
+                                        <SlidersHorizontal className="h-4 w-4" />
+                                    </Button>
+                                )}
+                                <Button size="sm" variant="ghost" onClick={() => onRemove(file.id)} className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive">
+                                    <Trash2 className="h-4 w-4" />
                                 </Button>
-                            )}
-                            <Button size="sm" variant="ghost" onClick={() => onRemove(file.id)} className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive">
-                                <Trash2 className="h-4 w-4" />
-                            </Button>
+                            </div>
                         </div>
-                    </div>
-                ))}
+                    )
+                })}
             </div>
         </div>
     )
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react'
+import { X, RotateCcw } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { ConvertConfig, ConvertOverrides, ProcessingFile } from '@/types'
+import { getDensityOrder } from '@/lib/imageUtils'
+import { getBaseConfig, getConfigOverrides, getDensityFolder, getEffectiveConfig } from '@/lib/conversion'
+
+interface FileOverridesDialogProps {
+    file: ProcessingFile | null
+    config: ConvertConfig
+    onSave: (fileId: string, overrides: ConvertOverrides | undefined) => void
+    onClose: () => void
+}
+
+const INPUT_SCALES = [1, 2, 3, 4]
+
+export function FileOverridesDialog({ file, config, onSave, onClose }: FileOverridesDialogProps) {
+    const { t } = useTranslation()
+    // Draft of the file's effective config, only applied on save
+    const [draft, setDraft] = useState<ConvertConfig>(config)
+
+    useEffect(() => {
+        if (file) setDraft(getEffectiveConfig(file, config))
+    }, [file, config])
+
+    // ESC to cancel, Enter to save
+    useEffect(() => {
+        if (!file) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose()
+            } else if (e.key === 'Enter' && (e.target as HTMLElement).tagName !== 'BUTTON') {
+                onSave(file.id, getConfigOverrides(draft, getBaseConfig(file, config)))
+            }
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [file, draft, config, onSave, onClose])
+
+    if (!file) return null
+
+    // Reset goes back to the detected input scale, not the global one
+    const baseConfig = getBaseConfig(file, config)
+    const overrides = getConfigOverrides(draft, baseConfig)
+    const customMark = (...keys: (keyof ConvertOverrides)[]) => keys.some(key => overrides?.[key] !== undefined) && (
+        <span className="ml-2 text-[10px] font-semibold text-primary uppercase">{t('drawable.overrides.custom')}</span>
+    )
+
+    const toggleDensity = (density: string, checked: boolean) => {
+        setDraft(prev => ({
+            ...prev,
+            selectedDensities: checked
+                ? [...prev.selectedDensities, density]
+                : prev.selectedDensities.filter(d => d !== density)
+        }))
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-semibold">{t('drawable.overrides.title')}</h3>
+                        <p className="text-xs text-muted-foreground truncate">{file.name}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="px-6 py-4 space-y-5 max-h-[60vh] overflow-y-auto">
+                    {!file.vectorSource && (
+                        <div>
+                            <Label className="text-sm font-medium mb-2 block">
+                                {t('drawable.inputScale')}
+                                {customMark('inputScale')}
+                            </Label>
+                            <div className="grid grid-cols-4 gap-2">
+                                {INPUT_SCALES.map(scale => (
+                                    <button
+                                        key={scale}
+                                        onClick={() => setDraft(prev => ({ ...prev, inputScale: scale }))}
+                                        className={`py-1.5 border rounded-md text-sm font-semibold transition-colors ${draft.inputScale === scale
+                                            ? 'bg-primary/5 border-primary'
+                                            : 'hover:bg-slate-50'
+                                            }`}
+                                    >
+                                        {scale}x
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex items-center space-x-2">
+                        <Checkbox
+                            id="override-lossless"
+                            checked={draft.lossless}
+                            onCheckedChange={(checked) => setDraft(prev => ({ ...prev, lossless: !!checked }))}
+                        />
+                        <Label htmlFor="override-lossless" className="text-sm cursor-pointer">
+                            {t('drawable.lossless')}
+                            {customMark('lossless')}
+                        </Label>
+                    </div>
+
+                    <div>
+                        <Label className="text-sm font-medium mb-3 block">
+                            {draft.lossless ? t('drawable.compression') : t('drawable.quality')}
+                            {customMark('quality')}
+                        </Label>
+                        <div className="flex items-center gap-3">
+                            <Slider
+                                value={[draft.quality]}
+                                onValueChange={([value]) => setDraft(prev => ({ ...prev, quality: value }))}
+                                max={100}
+                                min={draft.lossless ? 0 : 10}
+                                step={1}
+                                className="flex-1"
+                            />
+                            <span className="text-xs text-muted-foreground w-8 text-right">{draft.quality}</span>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium block">
+                            {t('drawable.outputDir')}
+                            {customMark('selectedDensities', 'nightMode')}
+                        </Label>
+                        <div className="flex items-center space-x-2 pb-2 border-b">
+                            <Checkbox
+                                id="override-night-mode"
+                                checked={draft.nightMode}
+                                onCheckedChange={(checked) => setDraft(prev => ({ ...prev, nightMode: !!checked }))}
+                            />
+                            <Label htmlFor="override-night-mode" className="text-sm cursor-pointer">{t('drawable.nightMode')}</Label>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            {getDensityOrder(config.customDensities).map(density => (
+                                <div key={density} className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id={`override-density-${density}`}
+                                        checked={draft.selectedDensities.includes(density)}
+                                        onCheckedChange={(checked) => toggleDensity(density, !!checked)}
+                                    />
+                                    <Label htmlFor={`override-density-${density}`} className="text-sm cursor-pointer font-mono">
+                                        {getDensityFolder(density)}
+                                    </Label>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="px-6 py-4 border-t flex items-center justify-between gap-2">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft(baseConfig)}
+                        disabled={!overrides}
+                        className="text-muted-foreground"
+                    >
+                        <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                        {t('drawable.overrides.reset')}
+                    </Button>
+                    <div className="flex gap-2">
+                        <Button variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+                        <Button onClick={() => onSave(file.id, overrides)}>{t('common.confirm')}</Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,218 @@
+import { X, FolderOpen, AlertTriangle, Loader2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { AndroidResourceDir, ProjectExportItem, ProjectExportStatus } from '@/types'
+
+interface ProjectExportDialogProps {
+    open: boolean
+    projectName: string | null
+    resDirs: AndroidResourceDir[]
+    selectedResDir: AndroidResourceDir | null
+    items: ProjectExportItem[]
+    overwriteExisting: boolean
+    status: ProjectExportStatus
+    error: string | null
+    progress: { current: number; total: number; fileName: string }
+    writtenCount: number
+    onClose: () => void
+    onChangeProject: () => void
+    onSelectResDir: (resDir: AndroidResourceDir) => void
+    onOverwriteExistingChange: (overwrite: boolean) => void
+    onConfirm: () => void
+    onConfirmCompletion: () => void
+}
+
+const STATUS_STYLES: Record<ProjectExportItem['status'], string> = {
+    new: 'bg-green-50 text-green-700 border-green-200',
+    overwrite: 'bg-amber-50 text-amber-700 border-amber-200',
+    unchanged: 'bg-slate-50 text-slate-500 border-slate-200',
+}
+
+function formatFileInfo(size: number, width: number | null, height: number | null): string {
+    const kb = `${(size / 1024).toFixed(1)} KB`
+    return width !== null && height !== null ? `${width} × ${height} · ${kb}` : kb
+}
+
+export function ProjectExportDialog({
+    open,
+    projectName,
+    resDirs,
+    selectedResDir,
+    items,
+    overwriteExisting,
+    status,
+    error,
+    progress,
+    writtenCount,
+    onClose,
+    onChangeProject,
+    onSelectResDir,
+    onOverwriteExistingChange,
+    onConfirm,
+    onConfirmCompletion
+}: ProjectExportDialogProps) {
+    const { t } = useTranslation()
+
+    if (!open) return null
+
+    const newCount = items.filter(i => i.status === 'new').length
+    const overwriteCount = items.filter(i => i.status === 'overwrite').length
+    const unchangedCount = items.filter(i => i.status === 'unchanged').length
+    const writeCount = newCount + (overwriteExisting ? overwriteCount : 0)
+    const isWriting = status === 'writing'
+    const isCompleted = status === 'completed'
+    const isScanning = status === 'scanning'
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div
+                className="absolute inset-0 bg-black/50"
+                onClick={isWriting ? undefined : (isCompleted ? onConfirmCompletion : onClose)}
+            />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 flex flex-col max-h-[85vh]">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <h3 className="text-lg font-semibold">{t('drawable.export.title')}</h3>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={isCompleted ? onConfirmCompletion : onClose}
+                        disabled={isWriting}
+                    >
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4 border-b">
+                    <div className="flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                            <Label className="text-xs text-muted-foreground">{t('drawable.export.project')}</Label>
+                            <p className="text-sm font-medium truncate">{projectName}</p>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={onChangeProject} disabled={isWriting || isCompleted}>
+                            <FolderOpen className="h-4 w-4 mr-1" />
+                            {t('drawable.export.changeProject')}
+                        </Button>
+                    </div>
+
+                    {resDirs.length > 1 && (
+                        <div>
+                            <Label className="text-xs text-muted-foreground mb-2 block">{t('drawable.export.module')}</Label>
+                            <div className="flex flex-wrap gap-2">
+                                {resDirs.map(dir => (
+                                    <button
+                                        key={dir.path}
+                                        onClick={() => onSelectResDir(dir)}
+                                        disabled={isWriting || isCompleted || isScanning}
+                                        title={dir.path}
+                                        className={`px-3 py-1 rounded-md border text-xs font-medium transition-colors ${selectedResDir?.path === dir.path
+                                            ? 'border-primary bg-primary/5 text-primary'
+                                            : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                                            }`}
+                                    >
+                                        {dir.name}
+                                        {dir.layout === 'compose' && (
+                                            <span className="ml-1 text-[10px] opacity-70">composeResources</span>
+                                        )}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {selectedResDir && (
+                        <p className="text-xs text-muted-foreground font-mono truncate">{projectName}/{selectedResDir.path}</p>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4">
+                    {isScanning ? (
+                        <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            {t('drawable.export.scanning')}
+                        </div>
+                    ) : (
+                        <div className="space-y-1">
+                            {items.map(item => (
+                                <div key={`${item.folder}/${item.fileName}`} className="py-2 border-b border-slate-100 last:border-0">
+                                    <div className="flex items-center gap-3">
+                                        <Badge variant="outline" className={`text-[10px] px-1.5 py-0 w-20 justify-center ${STATUS_STYLES[item.status]}`}>
+                                            {t(`drawable.export.status.${item.status}`)}
+                                        </Badge>
+                                        <span className="text-sm font-mono truncate flex-1">{item.folder}/{item.fileName}</span>
+                                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                            {item.existing && item.status === 'overwrite' && (
+                                                <>
+                                                    <span className="line-through">{formatFileInfo(item.existing.size, item.existing.width, item.existing.height)}</span>
+                                                    {' → '}
+                                                </>
+                                            )}
+                                            {formatFileInfo(item.blob.size, item.width, item.height)}
+                                        </span>
+                                    </div>
+                                    {item.conflicts.length > 0 && (
+                                        <p className="text-xs text-amber-600 flex items-center gap-1 mt-1 ml-[92px]">
+                                            <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                                            <span className="truncate">{t('drawable.export.duplicateResource', { files: item.conflicts.join(', ') })}</span>
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="px-6 py-4 border-t space-y-3">
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    {isWriting || isCompleted ? (
+                        progress.current < progress.total ? (
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-muted-foreground truncate">{t('drawable.export.writing')}: {progress.fileName}</span>
+                                    <span className="font-medium">{progress.current} / {progress.total}</span>
+                                </div>
+                                <Progress value={(progress.current / progress.total) * 100} />
+                            </div>
+                        ) : isCompleted && (
+                            <div className="flex items-center justify-center text-sm font-medium text-green-600 py-1">
+                                ✓ {t('drawable.export.completed', { count: writtenCount })}
+                            </div>
+                        )
+                    ) : (
+                        <div className="flex items-center justify-between gap-4">
+                            <span className="text-sm text-muted-foreground">
+                                {t('drawable.export.summary', { newCount, overwriteCount, unchangedCount })}
+                            </span>
+                            <div className="flex items-center space-x-2">
+                                <Checkbox
+                                    id="overwrite-existing"
+                                    checked={overwriteExisting}
+                                    onCheckedChange={(checked) => onOverwriteExistingChange(!!checked)}
+                                />
+                                <Label htmlFor="overwrite-existing" className="text-sm cursor-pointer">{t('drawable.export.overwriteExisting')}</Label>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                        {isCompleted ? (
+                            <Button onClick={onConfirmCompletion}>{t('common.confirm')}</Button>
+                        ) : (
+                            <>
+                                <Button variant="outline" onClick={onClose} disabled={isWriting}>{t('common.cancel')}</Button>
+                                <Button onClick={onConfirm} disabled={status !== 'ready' || writeCount === 0}>
+                                    {isWriting ? t('drawable.export.exporting') : t('drawable.export.confirm', { count: writeCount })}
+                                </Button>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
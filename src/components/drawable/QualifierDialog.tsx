@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react'
+import { X, Plus } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { QualifierConfig } from '@/types'
+import {
+    LAYOUT_DIRECTIONS,
+    ORIENTATIONS,
+    QualifierKey,
+    getDefaultQualifiers,
+    getQualifiedFolder,
+    getQualifierChains,
+    limitQualifiers,
+    parseQualifierValue,
+} from '@/lib/qualifiers'
+
+interface QualifierDialogProps {
+    open: boolean
+    qualifiers: QualifierConfig
+    supported: QualifierKey[]       // qualifier types of the current export target
+    nightMode: boolean
+    onSave: (qualifiers: QualifierConfig) => void
+    onClose: () => void
+}
+
+// Fixed choices; the other types are typed in
+const QUALIFIER_OPTIONS: Partial<Record<QualifierKey, string[]>> = {
+    layoutDirections: LAYOUT_DIRECTIONS,
+    orientations: ORIENTATIONS,
+}
+
+const PLACEHOLDERS: Partial<Record<QualifierKey, string>> = {
+    locales: 'en, zh-rCN',
+    smallestWidths: '600',
+    apiLevels: '26',
+}
+
+// Folders listed in the preview, the rest is summarized
+const PREVIEW_LIMIT = 12
+
+export function QualifierDialog({ open, qualifiers, supported, nightMode, onSave, onClose }: QualifierDialogProps) {
+    const { t } = useTranslation()
+    // Draft of the qualifiers, only applied on save
+    const [draft, setDraft] = useState<QualifierConfig>(qualifiers)
+    const [inputs, setInputs] = useState<Partial<Record<QualifierKey, string>>>({})
+    const [invalid, setInvalid] = useState<Partial<Record<QualifierKey, boolean>>>({})
+
+    useEffect(() => {
+        if (!open) return
+        setDraft(qualifiers)
+        setInputs({})
+        setInvalid({})
+    }, [open, qualifiers])
+
+    // ESC to cancel
+    useEffect(() => {
+        if (!open) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose()
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [open, onClose])
+
+    if (!open) return null
+
+    const toggleValue = (key: QualifierKey, value: string) => {
+        setDraft(prev => ({
+            ...prev,
+            [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value]
+        }))
+    }
+
+    // Add the typed values (comma separated), keeping the input when one is invalid
+    const addValues = (key: QualifierKey) => {
+        const parsed = (inputs[key] || '').split(',').filter(v => v.trim()).map(v => parseQualifierValue(key, v))
+        if (parsed.length === 0) return
+        if (parsed.some(v => v === null)) {
+            setInvalid(prev => ({ ...prev, [key]: true }))
+            return
+        }
+        setDraft(prev => ({ ...prev, [key]: Array.from(new Set([...prev[key], ...parsed as string[]])) }))
+        setInputs(prev => ({ ...prev, [key]: '' }))
+        setInvalid(prev => ({ ...prev, [key]: false }))
+    }
+
+    // Types the target does not support are kept in the config but not written
+    const chains = getQualifierChains(limitQualifiers(draft, supported))
+    const folders = chains.flatMap(chain => nightMode
+        ? [getQualifiedFolder(chain, 'xxhdpi'), getQualifiedFolder(chain, 'xxhdpi', true)]
+        : [getQualifiedFolder(chain, 'xxhdpi')])
+
+    const chip = (key: QualifierKey, value: string) => (
+        <button
+            key={value || 'default'}
+            onClick={() => toggleValue(key, value)}
+            className={`px-2 py-0.5 rounded-md border text-xs font-mono transition-colors ${draft[key].includes(value) || (!value && draft[key].length === 0)
+                ? 'border-primary bg-primary/5 text-primary'
+                : 'text-muted-foreground hover:bg-slate-50'
+                }`}
+        >
+            {value || t('drawable.qualifiers.default')}
+        </button>
+    )
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                    <div>
+                        <h3 className="text-lg font-semibold">{t('drawable.qualifiers.title')}</h3>
+                        <p className="text-xs text-muted-foreground">{t('drawable.qualifiers.desc')}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4 max-h-[60vh] overflow-y-auto">
+                    {supported.map(key => {
+                        const options = QUALIFIER_OPTIONS[key]
+                        // Typed values are listed as chips, clicking one removes it
+                        const values = options || draft[key].filter(Boolean)
+                        return (
+                            <div key={key}>
+                                <Label className="text-sm font-medium mb-1.5 block">{t(`drawable.qualifiers.types.${key}`)}</Label>
+                                <div className="flex flex-wrap items-center gap-1.5">
+                                    {chip(key, '')}
+                                    {values.map(value => chip(key, value))}
+                                    {!options && (
+                                        <div className="flex items-center gap-1">
+                                            <Input
+                                                value={inputs[key] || ''}
+                                                onChange={(e) => {
+                                                    setInputs(prev => ({ ...prev, [key]: e.target.value }))
+                                                    setInvalid(prev => ({ ...prev, [key]: false }))
+                                                }}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') addValues(key)
+                                                }}
+                                                placeholder={PLACEHOLDERS[key]}
+                                                className={`h-6 w-28 px-1.5 text-xs font-mono ${invalid[key] ? 'border-red-400' : ''}`}
+                                            />
+                                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => addValues(key)}>
+                                                <Plus className="h-3.5 w-3.5" />
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                                {invalid[key] && (
+                                    <p className="text-xs text-red-600 mt-1">{t(`drawable.qualifiers.invalid.${key}`)}</p>
+                                )}
+                            </div>
+                        )
+                    })}
+
+                    {supported.includes('layoutDirections') && (
+                        <div className="flex items-start space-x-2">
+                            <Checkbox
+                                id="mirror-rtl"
+                                checked={draft.mirrorRtl}
+                                onCheckedChange={(checked) => setDraft(prev => ({ ...prev, mirrorRtl: !!checked }))}
+                                className="mt-0.5"
+                            />
+                            <Label htmlFor="mirror-rtl" className="text-sm cursor-pointer">
+                                {t('drawable.qualifiers.mirrorRtl')}
+                                <span className="block text-xs text-muted-foreground font-normal">{t('drawable.qualifiers.mirrorRtlDesc')}</span>
+                            </Label>
+                        </div>
+                    )}
+
+                    <div>
+                        <Label className="text-sm font-medium mb-1.5 block">
+                            {t('drawable.qualifiers.preview', { count: chains.length })}
+                        </Label>
+                        <div className="rounded-md border bg-slate-50 px-2 py-1.5 text-xs font-mono space-y-0.5">
+                            {folders.slice(0, PREVIEW_LIMIT).map(folder => <div key={folder}>{folder}/</div>)}
+                            {folders.length > PREVIEW_LIMIT && (
+                                <div className="text-muted-foreground font-sans">{t('drawable.names.previewMore', { count: folders.length - PREVIEW_LIMIT })}</div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="px-6 py-4 border-t flex items-center justify-between gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setDraft(getDefaultQualifiers())} className="text-muted-foreground">
+                        {t('drawable.qualifiers.reset')}
+                    </Button>
+                    <div className="flex gap-2">
+                        <Button variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+                        <Button onClick={() => onSave(draft)}>{t('common.confirm')}</Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
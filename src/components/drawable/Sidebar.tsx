@@ -1,30 +1,65 @@
+import { useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
+import { Settings2, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Slider } from '@/components/ui/slider'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
-import { ConvertConfig } from '@/types'
+import { ConvertConfig, CustomDensity, ExportTargetId, OutputFormat, QualifierConfig, ResampleFilter, SizeBudget } from '@/types'
 import { Analytics } from '@/lib/analytics'
+import { DENSITY_ORDER, STANDARD_DENSITIES, getDensityFactor, getCustomDensityFactor, getDensityOrder, getPaletteColors, isValidCustomDensityName } from '@/lib/imageUtils'
+import { getDensityFolder } from '@/lib/conversion'
+import { EXPORT_TARGETS, getExportTarget, getTargetFormat } from '@/lib/exportTargets'
+import { getQualifiedFolder, getQualifierChains, limitQualifiers } from '@/lib/qualifiers'
+import { QualifierDialog } from './QualifierDialog'
+import { WebPOptionsSection } from './WebPOptionsSection'
 
 interface SidebarProps {
     config: ConvertConfig
     onChange: (config: ConvertConfig) => void
 }
 
-// Get recommended output densities based on input scale
-function getRecommendedDensities(inputScale: number): string[] {
-    switch (inputScale) {
-        case 1: return ['mdpi']
-        case 2: return ['mdpi', 'hdpi', 'xhdpi']
-        case 3: return ['mdpi', 'hdpi', 'xhdpi', 'xxhdpi']
-        case 4: return ['mdpi', 'hdpi', 'xhdpi', 'xxhdpi', 'xxxhdpi']
-        default: return ['mdpi', 'hdpi', 'xhdpi', 'xxhdpi']
-    }
+// Output formats with the minimum Android version that can decode them
+const OUTPUT_FORMATS: { value: OutputFormat; label: string; minApi: string }[] = [
+    { value: 'webp', label: 'WebP', minApi: 'API 18+' },
+    { value: 'png', label: 'PNG', minApi: 'API 1+' },
+    { value: 'avif', label: 'AVIF', minApi: 'API 31+' },
+]
+
+const RESAMPLE_FILTERS: ResampleFilter[] = ['lanczos3', 'mitchell', 'box', 'nearest']
+
+// Get recommended output densities based on input scale: every standard or
+// custom density that does not need upscaling
+function getRecommendedDensities(inputScale: number, customDensities: CustomDensity[]): string[] {
+    return getDensityOrder(customDensities).filter(density =>
+        (STANDARD_DENSITIES.includes(density) || customDensities.some(d => d.name === density)) &&
+        getDensityFactor(density, customDensities) <= inputScale
+    )
+}
+
+function formatFactor(factor: number): string {
+    return `${parseFloat(factor.toFixed(2))}x`
 }
 
 export function Sidebar({ config, onChange }: SidebarProps) {
     const { t } = useTranslation()
+    // Suffixes are edited as text and parsed on blur, so a trailing comma can be typed
+    const [darkSuffixes, setDarkSuffixes] = useState(config.darkSuffixes.join(', '))
+    const [showQualifiers, setShowQualifiers] = useState(false)
+    const [customName, setCustomName] = useState('')
+
+    useEffect(() => {
+        setDarkSuffixes(config.darkSuffixes.join(', '))
+    }, [config.darkSuffixes])
+
+    const commitDarkSuffixes = () => {
+        const suffixes = darkSuffixes.split(',').map(s => s.trim()).filter(Boolean)
+        if (suffixes.join(',') === config.darkSuffixes.join(',')) return
+        onChange({ ...config, darkSuffixes: suffixes })
+        Analytics.changeDarkSuffixes(suffixes)
+    }
 
     const handleDensityToggle = (key: string, checked: boolean) => {
         const newDensities = checked
@@ -34,6 +69,66 @@ export function Sidebar({ config, onChange }: SidebarProps) {
         Analytics.toggleDensity(key, checked)
     }
 
+    const updateBudget = (budget: Partial<SizeBudget>) => {
+        onChange({ ...config, sizeBudget: { ...config.sizeBudget, ...budget } })
+    }
+
+    // Empty input falls back to the shared limit
+    const handleDensityBudgetChange = (density: string, value: string) => {
+        const densityKb = { ...config.sizeBudget.densityKb }
+        const kb = parseFloat(value)
+        if (kb > 0) {
+            densityKb[density] = kb
+        } else {
+            delete densityKb[density]
+        }
+        updateBudget({ densityKb })
+    }
+
+    // The factor follows the qualifier (dpi / 160), as Android picks the folder by it
+    const customFactorValue = isValidCustomDensityName(customName) ? getCustomDensityFactor(customName) : 0
+    const canAddCustomDensity = customFactorValue > 0 && customFactorValue <= 8 &&
+        !config.customDensities.some(d => d.name === customName)
+
+    const addCustomDensity = () => {
+        if (!canAddCustomDensity) return
+        onChange({
+            ...config,
+            customDensities: [...config.customDensities, { name: customName, factor: customFactorValue }],
+            selectedDensities: [...config.selectedDensities, customName],
+        })
+        Analytics.addCustomDensity(customName, customFactorValue)
+        setCustomName('')
+    }
+
+    const removeCustomDensity = (name: string) => {
+        const densityKb = { ...config.sizeBudget.densityKb }
+        delete densityKb[name]
+        onChange({
+            ...config,
+            customDensities: config.customDensities.filter(d => d.name !== name),
+            selectedDensities: config.selectedDensities.filter(d => d !== name),
+            sizeBudget: { ...config.sizeBudget, densityKb },
+        })
+    }
+
+    const saveQualifiers = (qualifiers: QualifierConfig) => {
+        onChange({ ...config, qualifiers })
+        setShowQualifiers(false)
+        Analytics.changeQualifiers(getQualifierChains(qualifiers).length)
+    }
+
+    // Platforms that cannot load the chosen format fall back to one they can
+    const target = getExportTarget(config.target)
+    const format = getTargetFormat(target, config.format)
+    // Qualifier folders written besides night and density, as prefixes like 'drawable-ldrtl'
+    const densityOrder = getDensityOrder(config.customDensities)
+    const qualifierChains = getQualifierChains(limitQualifiers(config.qualifiers, target.qualifiers))
+    const qualifierPrefixes = qualifierChains.map(chain => getQualifiedFolder(chain, 'drawable'))
+
+    // The size budget replaces the fixed quality for WebP output
+    const budgetActive = format === 'webp' && config.sizeBudget.enabled
+
     return (
         <aside className="w-[280px] border-r bg-white flex-shrink-0 overflow-y-auto">
             <div className="p-6 space-y-6">
@@ -47,7 +142,7 @@ export function Sidebar({ config, onChange }: SidebarProps) {
                             onChange({
                                 ...config,
                                 inputScale: newScale,
-                                selectedDensities: getRecommendedDensities(newScale)
+                                selectedDensities: getRecommendedDensities(newScale, config.customDensities)
                             })
                             Analytics.changeInputScale(newScale)
                         }}
@@ -70,7 +165,7 @@ export function Sidebar({ config, onChange }: SidebarProps) {
                                     onChange({
                                         ...config,
                                         inputScale: newScale,
-                                        selectedDensities: getRecommendedDensities(newScale)
+                                        selectedDensities: getRecommendedDensities(newScale, config.customDensities)
                                     })
                                     Analytics.changeInputScale(newScale)
                                 }}
@@ -81,120 +176,358 @@ export function Sidebar({ config, onChange }: SidebarProps) {
                             </div>
                         ))}
                     </RadioGroup>
+
+                    <Label htmlFor="dark-suffixes" className="text-sm font-medium mt-4 mb-1.5 block">{t('drawable.dark.suffixes')}</Label>
+                    <Input
+                        id="dark-suffixes"
+                        value={darkSuffixes}
+                        onChange={(e) => setDarkSuffixes(e.target.value)}
+                        onBlur={commitDarkSuffixes}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitDarkSuffixes()
+                        }}
+                        placeholder="_dark, -night"
+                        className="h-8 text-sm font-mono"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">{t('drawable.dark.suffixesDesc')}</p>
                 </div>
 
                 <div className="h-px bg-border" />
 
                 <div>
                     <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-4">{t('drawable.output')}</h3>
-                    <Label className="text-sm font-medium mb-3 block">{t('drawable.encodingMode')}</Label>
+                    <Label className="text-sm font-medium mb-3 block">{t('drawable.target')}</Label>
                     <RadioGroup
-                        value={config.lossless ? 'lossless' : 'lossy'}
+                        value={config.target}
                         onValueChange={(value) => {
-                            const isLossless = value === 'lossless'
-                            onChange({ ...config, lossless: isLossless })
-                            Analytics.changeEncodingMode(isLossless ? 'lossless' : 'lossy')
+                            onChange({ ...config, target: value as ExportTargetId })
+                            Analytics.changeExportTarget(value)
                         }}
-                        className="space-y-2"
+                        className="grid grid-cols-2 gap-2 mb-4"
                     >
-                        <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="lossy" id="lossy" />
-                            <Label htmlFor="lossy" className="text-sm cursor-pointer">
-                                {t('drawable.lossy')}
-                                <span className="text-xs text-muted-foreground ml-2">{t('drawable.lossyDesc')}</span>
-                            </Label>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="lossless" id="lossless" />
-                            <Label htmlFor="lossless" className="text-sm cursor-pointer">
-                                {t('drawable.lossless')}
-                                <span className="text-xs text-muted-foreground ml-2">{t('drawable.losslessDesc')}</span>
-                            </Label>
-                        </div>
+                        {EXPORT_TARGETS.map(({ id, label }) => (
+                            <div
+                                key={id}
+                                className={`flex items-center justify-center p-2 border rounded-lg cursor-pointer transition-colors ${config.target === id
+                                    ? 'bg-primary/5 border-primary'
+                                    : 'hover:bg-slate-50'
+                                    }`}
+                                onClick={() => {
+                                    onChange({ ...config, target: id })
+                                    Analytics.changeExportTarget(id)
+                                }}
+                            >
+                                <RadioGroupItem value={id} id={`target-${id}`} className="sr-only" />
+                                <span className="font-semibold text-sm">{label}</span>
+                            </div>
+                        ))}
                     </RadioGroup>
+
+                    <Label className="text-sm font-medium mb-3 block">{t('drawable.format')}</Label>
+                    <RadioGroup
+                        value={config.format}
+                        onValueChange={(value) => {
+                            onChange({ ...config, format: value as OutputFormat })
+                            Analytics.changeOutputFormat(value)
+                        }}
+                        className="grid grid-cols-3 gap-2"
+                    >
+                        {OUTPUT_FORMATS.map(({ value, label, minApi }) => (
+                            <div
+                                key={value}
+                                className={`flex flex-col items-center p-2 border rounded-lg transition-colors ${!target.formats.includes(value)
+                                    ? 'opacity-40 cursor-not-allowed'
+                                    : format === value
+                                        ? 'bg-primary/5 border-primary cursor-pointer'
+                                        : 'hover:bg-slate-50 cursor-pointer'
+                                    }`}
+                                onClick={() => {
+                                    if (!target.formats.includes(value)) return
+                                    onChange({ ...config, format: value })
+                                    Analytics.changeOutputFormat(value)
+                                }}
+                            >
+                                <RadioGroupItem value={value} id={`format-${value}`} className="sr-only" />
+                                <span className="font-semibold text-sm">{label}</span>
+                                <span className="text-[10px] text-muted-foreground">{minApi}</span>
+                            </div>
+                        ))}
+                    </RadioGroup>
+                    <p className="text-xs text-muted-foreground mt-2">{t(`drawable.formatDesc.${format}`)}</p>
                 </div>
 
-                <div>
-                    <Label className="text-sm font-medium mb-3 block">
-                        {config.lossless ? t('drawable.compression') : t('drawable.quality')}
-                    </Label>
-                    <div className="flex items-center gap-3">
-                        <Slider
-                            value={[config.quality]}
-                            onValueChange={([value]) => {
-                                onChange({ ...config, quality: value })
-                            }}
-                            max={100}
-                            min={config.lossless ? 0 : 10}
-                            step={1}
-                            className="flex-1"
-                        />
-                        <Input
-                            type="number"
-                            value={config.quality}
-                            onChange={(e) => {
-                                const val = Math.min(100, Math.max(config.lossless ? 0 : 10, parseInt(e.target.value) || 0))
-                                onChange({ ...config, quality: val })
-                            }}
-                            className="w-16 h-8 text-center text-sm"
-                            min={config.lossless ? 0 : 10}
-                            max={100}
-                        />
+                {format === 'webp' && (
+                    <div>
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="size-budget"
+                                checked={config.sizeBudget.enabled}
+                                onCheckedChange={(checked) => {
+                                    updateBudget({ enabled: !!checked })
+                                    Analytics.toggleSizeBudget(!!checked)
+                                }}
+                            />
+                            <Label htmlFor="size-budget" className="text-sm cursor-pointer">{t('drawable.budget.label')}</Label>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1 ml-6">{t('drawable.budget.desc')}</p>
+                        {config.sizeBudget.enabled && (
+                            <div className="mt-3 ml-6 space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <Label htmlFor="size-budget-max" className="text-sm flex-1">{t('drawable.budget.maxSize')}</Label>
+                                    <Input
+                                        id="size-budget-max"
+                                        type="number"
+                                        value={config.sizeBudget.maxKb}
+                                        onChange={(e) => updateBudget({ maxKb: Math.max(1, parseFloat(e.target.value) || 1) })}
+                                        className="w-16 h-8 text-center text-sm"
+                                        min={1}
+                                    />
+                                    <span className="text-xs text-muted-foreground w-5">KB</span>
+                                </div>
+                                <p className="text-[10px] text-muted-foreground pt-1">{t('drawable.budget.perDensity')}</p>
+                                {densityOrder.filter(d => config.selectedDensities.includes(d)).map(density => (
+                                    <div key={density} className="flex items-center gap-2">
+                                        <Label htmlFor={`size-budget-${density}`} className="text-xs font-mono flex-1 truncate">
+                                            {getDensityFolder(density)}
+                                        </Label>
+                                        <Input
+                                            id={`size-budget-${density}`}
+                                            type="number"
+                                            value={config.sizeBudget.densityKb[density] ?? ''}
+                                            placeholder={config.sizeBudget.maxKb.toString()}
+                                            onChange={(e) => handleDensityBudgetChange(density, e.target.value)}
+                                            className="w-16 h-7 text-center text-xs"
+                                            min={1}
+                                        />
+                                        <span className="text-xs text-muted-foreground w-5">KB</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
-                    {config.lossless && (
-                        <p className="text-xs text-muted-foreground mt-2">
-                            {t('drawable.compressionDesc')}
-                        </p>
-                    )}
-                </div>
+                )}
 
-                <div>
-                    <Label className="text-sm font-medium mb-3 block">{t('drawable.outputDir')}</Label>
-                    <div className="space-y-2">
-                        <div className="pb-3 mb-3 border-b">
-                            <div className="flex items-center space-x-2">
-                                <Checkbox
-                                    id="night-mode"
-                                    checked={config.nightMode}
-                                    onCheckedChange={(checked) => {
-                                        onChange({ ...config, nightMode: !!checked })
-                                        Analytics.toggleNightMode(!!checked)
+                {!budgetActive && (
+                    <>
+                        <div>
+                            <Label className="text-sm font-medium mb-3 block">{t('drawable.encodingMode')}</Label>
+                            <RadioGroup
+                                value={config.lossless ? 'lossless' : 'lossy'}
+                                onValueChange={(value) => {
+                                    const isLossless = value === 'lossless'
+                                    onChange({ ...config, lossless: isLossless })
+                                    Analytics.changeEncodingMode(isLossless ? 'lossless' : 'lossy')
+                                }}
+                                className="space-y-2"
+                            >
+                                <div className="flex items-center space-x-2">
+                                    <RadioGroupItem value="lossy" id="lossy" />
+                                    <Label htmlFor="lossy" className="text-sm cursor-pointer">
+                                        {format === 'png' ? t('drawable.quantized') : t('drawable.lossy')}
+                                        <span className="text-xs text-muted-foreground ml-2">
+                                            {format === 'png' ? t('drawable.quantizedDesc') : t('drawable.lossyDesc')}
+                                        </span>
+                                    </Label>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <RadioGroupItem value="lossless" id="lossless" />
+                                    <Label htmlFor="lossless" className="text-sm cursor-pointer">
+                                        {t('drawable.lossless')}
+                                        <span className="text-xs text-muted-foreground ml-2">{t('drawable.losslessDesc')}</span>
+                                    </Label>
+                                </div>
+                            </RadioGroup>
+                        </div>
+
+                        <div>
+                            <Label className="text-sm font-medium mb-3 block">
+                                {config.lossless ? t('drawable.compression') : t('drawable.quality')}
+                            </Label>
+                            <div className="flex items-center gap-3">
+                                <Slider
+                                    value={[config.quality]}
+                                    onValueChange={([value]) => {
+                                        onChange({ ...config, quality: value })
                                     }}
+                                    max={100}
+                                    min={config.lossless ? 0 : 10}
+                                    step={1}
+                                    className="flex-1"
+                                />
+                                <Input
+                                    type="number"
+                                    value={config.quality}
+                                    onChange={(e) => {
+                                        const val = Math.min(100, Math.max(config.lossless ? 0 : 10, parseInt(e.target.value) || 0))
+                                        onChange({ ...config, quality: val })
+                                    }}
+                                    className="w-16 h-8 text-center text-sm"
+                                    min={config.lossless ? 0 : 10}
+                                    max={100}
                                 />
-                                <Label htmlFor="night-mode" className="text-sm cursor-pointer flex-1">
-                                    {t('drawable.nightMode')}
-                                    <span className="text-xs text-muted-foreground ml-2">(drawable-night-*)</span>
-                                </Label>
                             </div>
-                            {config.nightMode && (
-                                <p className="text-[10px] text-muted-foreground mt-1 ml-6">
-                                    {t('drawable.nightModeDesc')}
+                            {config.lossless ? (
+                                <p className="text-xs text-muted-foreground mt-2">
+                                    {t('drawable.compressionDesc')}
+                                </p>
+                            ) : format === 'png' && (
+                                <p className="text-xs text-muted-foreground mt-2">
+                                    {t('drawable.paletteColors', { count: getPaletteColors(config.quality) })}
                                 </p>
                             )}
                         </div>
-                        {[
-                            { key: 'mdpi', label: 'drawable-mdpi', desc: '1x' },
-                            { key: 'hdpi', label: 'drawable-hdpi', desc: '1.5x' },
-                            { key: 'xhdpi', label: 'drawable-xhdpi', desc: '2x' },
-                            { key: 'xxhdpi', label: 'drawable-xxhdpi', desc: '3x' },
-                            { key: 'xxxhdpi', label: 'drawable-xxxhdpi', desc: '4x' },
-                            { key: 'drawable', label: 'drawable', desc: t('drawable.universal') },
-                        ].map(({ key, label, desc }) => (
-                            <div key={key} className="flex items-center space-x-2">
-                                <Checkbox
-                                    id={`density-${key}`}
-                                    checked={config.selectedDensities.includes(key)}
-                                    onCheckedChange={(checked) => handleDensityToggle(key, !!checked)}
-                                />
-                                <Label htmlFor={`density-${key}`} className="text-sm cursor-pointer flex-1">
-                                    {label}
-                                    <span className="text-xs text-muted-foreground ml-2">({desc})</span>
+                    </>
+                )}
+
+                {format === 'webp' && (
+                    <WebPOptionsSection
+                        options={config.webp}
+                        lossless={config.lossless}
+                        budget={budgetActive}
+                        onChange={(webp) => onChange({ ...config, webp })}
+                    />
+                )}
+
+                <div>
+                    <Label className="text-sm font-medium mb-3 block">{t('drawable.resampling')}</Label>
+                    <RadioGroup
+                        value={config.filter}
+                        onValueChange={(value) => {
+                            onChange({ ...config, filter: value as ResampleFilter })
+                            Analytics.changeResampleFilter(value)
+                        }}
+                        className="space-y-2"
+                    >
+                        {RESAMPLE_FILTERS.map(filter => (
+                            <div key={filter} className="flex items-center space-x-2">
+                                <RadioGroupItem value={filter} id={`filter-${filter}`} />
+                                <Label htmlFor={`filter-${filter}`} className="text-sm cursor-pointer">
+                                    {t(`drawable.filters.${filter}.label`)}
+                                    <span className="text-xs text-muted-foreground ml-2">{t(`drawable.filters.${filter}.desc`)}</span>
                                 </Label>
                             </div>
                         ))}
-                    </div>
+                    </RadioGroup>
                 </div>
+
+                {target.scales ? (
+                    <div>
+                        <Label className="text-sm font-medium mb-3 block">{t('drawable.targetScales')}</Label>
+                        <div className="space-y-1.5">
+                            {DENSITY_ORDER.filter(d => target.scales![d]).map(density => (
+                                <div key={density} className="flex items-center justify-between text-sm">
+                                    <span className="font-semibold">{target.scales![density]}</span>
+                                    <span className="text-xs text-muted-foreground font-mono">{density}</span>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-2">{t('drawable.targetScalesDesc', { platform: target.label })}</p>
+                    </div>
+                ) : (
+                    <div>
+                        <Label className="text-sm font-medium mb-3 block">{t('drawable.outputDir')}</Label>
+                        <div className="space-y-2">
+                            <div className="pb-3 mb-3 border-b">
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id="night-mode"
+                                        checked={config.nightMode}
+                                        onCheckedChange={(checked) => {
+                                            onChange({ ...config, nightMode: !!checked })
+                                            Analytics.toggleNightMode(!!checked)
+                                        }}
+                                    />
+                                    <Label htmlFor="night-mode" className="text-sm cursor-pointer flex-1">
+                                        {t('drawable.nightMode')}
+                                        <span className="text-xs text-muted-foreground ml-2">(drawable-night-*)</span>
+                                    </Label>
+                                </div>
+                                {config.nightMode && (
+                                    <p className="text-[10px] text-muted-foreground mt-1 ml-6">
+                                        {t('drawable.nightModeDesc')}
+                                    </p>
+                                )}
+                            </div>
+                            {densityOrder.map(key => {
+                                const isCustom = config.customDensities.some(d => d.name === key)
+                                return (
+                                    <div key={key} className="flex items-center space-x-2">
+                                        <Checkbox
+                                            id={`density-${key}`}
+                                            checked={config.selectedDensities.includes(key)}
+                                            onCheckedChange={(checked) => handleDensityToggle(key, !!checked)}
+                                        />
+                                        <Label htmlFor={`density-${key}`} className="text-sm cursor-pointer flex-1">
+                                            {getDensityFolder(key)}
+                                            <span className="text-xs text-muted-foreground ml-2">
+                                                ({key === 'drawable' ? t('drawable.universal') : formatFactor(getDensityFactor(key, config.customDensities))})
+                                            </span>
+                                        </Label>
+                                        {isCustom && (
+                                            <button
+                                                onClick={() => removeCustomDensity(key)}
+                                                className="text-muted-foreground hover:text-destructive"
+                                                title={t('drawable.customDensity.remove')}
+                                            >
+                                                <X className="h-3.5 w-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                )
+                            })}
+                        </div>
+                        <div className="mt-3">
+                            <Label className="text-xs text-muted-foreground mb-1.5 block">{t('drawable.customDensity.label')}</Label>
+                            <div className="flex items-center gap-1.5">
+                                <Input
+                                    value={customName}
+                                    onChange={(e) => setCustomName(e.target.value.trim().toLowerCase())}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') addCustomDensity()
+                                    }}
+                                    placeholder="280dpi"
+                                    className="h-7 flex-1 min-w-0 px-2 text-xs font-mono"
+                                />
+                                <span
+                                    className="h-7 w-14 flex items-center justify-center rounded-md border bg-muted/50 text-xs text-muted-foreground"
+                                    title={t('drawable.customDensity.factor')}
+                                >
+                                    {customFactorValue > 0 ? formatFactor(customFactorValue) : '–'}
+                                </span>
+                                <Button variant="outline" size="icon" className="h-7 w-7 flex-shrink-0" onClick={addCustomDensity} disabled={!canAddCustomDensity}>
+                                    <Plus className="h-3.5 w-3.5" />
+                                </Button>
+                            </div>
+                            <p className="text-[10px] text-muted-foreground mt-1">{t('drawable.customDensity.desc')}</p>
+                        </div>
+                        {target.qualifiers.length > 0 && (
+                            <div className="mt-4 pt-3 border-t">
+                                <div className="flex items-center justify-between mb-1.5">
+                                    <Label className="text-sm font-medium">{t('drawable.qualifiers.label')}</Label>
+                                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setShowQualifiers(true)}>
+                                        <Settings2 className="h-3.5 w-3.5 mr-1" />
+                                        {t('drawable.qualifiers.edit')}
+                                    </Button>
+                                </div>
+                                <p className="text-xs text-muted-foreground font-mono break-all">
+                                    {qualifierPrefixes.length === 1 && qualifierPrefixes[0] === 'drawable'
+                                        ? t('drawable.qualifiers.none')
+                                        : qualifierPrefixes.slice(0, 4).join(', ') + (qualifierPrefixes.length > 4 ? ` +${qualifierPrefixes.length - 4}` : '')}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
+
+            <QualifierDialog
+                open={showQualifiers}
+                qualifiers={config.qualifiers}
+                supported={target.qualifiers}
+                nightMode={config.nightMode}
+                onSave={saveQualifiers}
+                onClose={() => setShowQualifiers(false)}
+            />
         </aside>
     )
 }
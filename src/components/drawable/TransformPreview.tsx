@@ -0,0 +1,41 @@
+import { TransformLayout } from '@/types'
+
+interface TransformPreviewProps {
+    src: string
+    alt: string
+    layout: TransformLayout
+}
+
+/**
+ * Source image laid out like the worker will draw it: the crop is clipped and
+ * placed on the new canvas, whose edge is outlined to show padding
+ */
+export function TransformPreview({ src, alt, layout }: TransformPreviewProps) {
+    const { crop, sourceWidth, sourceHeight } = layout
+    const percent = (value: number, total: number) => `${(value / total) * 100}%`
+    const wide = layout.width >= layout.height
+
+    return (
+        <div
+            className="relative overflow-hidden outline-dashed outline-1 outline-slate-400"
+            style={{
+                aspectRatio: `${layout.width} / ${layout.height}`,
+                width: wide ? '100%' : 'auto',
+                height: wide ? 'auto' : '100%',
+            }}
+        >
+            <img
+                src={src}
+                alt={alt}
+                className="absolute max-w-none"
+                style={{
+                    left: percent(layout.x - crop.x, layout.width),
+                    top: percent(layout.y - crop.y, layout.height),
+                    width: percent(sourceWidth, layout.width),
+                    height: percent(sourceHeight, layout.height),
+                    clipPath: `inset(${percent(crop.y, sourceHeight)} ${percent(sourceWidth - crop.x - crop.width, sourceWidth)} ${percent(sourceHeight - crop.y - crop.height, sourceHeight)} ${percent(crop.x, sourceWidth)})`,
+                }}
+            />
+        </div>
+    )
+}
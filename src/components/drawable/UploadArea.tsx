@@ -34,7 +34,7 @@ export function UploadArea({
                     <div className="bg-white rounded-2xl shadow-2xl p-12 text-center border-2 border-dashed border-primary max-w-lg w-full">
                         <Upload className="h-16 w-16 mx-auto mb-4 text-primary animate-bounce" />
                         <h2 className="text-2xl font-bold mb-2">{t('drawable.dropToUpload')}</h2>
-                        <p className="text-muted-foreground">PNG, JPG, WebP</p>
+                        <p className="text-muted-foreground">PNG, JPG, WebP, SVG, PDF</p>
                     </div>
                 </div>
             )}
@@ -55,12 +55,12 @@ export function UploadArea({
                     <h2 className="text-lg font-semibold mb-1">
                         {isDragging ? t('drawable.dropToUpload') : t('drawable.uploadArea')}
                     </h2>
-                    <p className="text-sm text-muted-foreground">{t('drawable.uploadBatch')} (PNG, JPG, WebP)</p>
+                    <p className="text-sm text-muted-foreground">{t('drawable.uploadBatch')} (PNG, JPG, WebP, GIF, SVG, PDF)</p>
                     <input
                         ref={inputRef}
                         type="file"
                         multiple
-                        accept="image/png,image/jpeg,image/jpg,image/webp"
+                        accept="image/png,image/apng,.apng,image/jpeg,image/jpg,image/webp,image/gif,image/svg+xml,.svg,application/pdf,.pdf"
                         className="hidden"
                         onChange={(e) => onFileSelect(e.target.files)}
                     />
@@ -0,0 +1,247 @@
+import { useState, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ChevronDown, ChevronRight, Download, Upload, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { WebPOptions, WebPProfile } from '@/types'
+import { Analytics } from '@/lib/analytics'
+import {
+    DEFAULT_WEBP_OPTIONS,
+    WEBP_PRESETS,
+    applyWebPPreset,
+    exportWebPProfiles,
+    isSameWebPOptions,
+    loadWebPProfiles,
+    mergeWebPProfiles,
+    parseImportedProfiles,
+    saveWebPProfiles,
+} from '@/lib/webpOptions'
+
+interface WebPOptionsSectionProps {
+    options: WebPOptions
+    lossless: boolean               // greys out the settings the current mode ignores
+    budget: boolean                 // size budgets try both modes, so nothing is greyed out
+    onChange: (options: WebPOptions) => void
+}
+
+type NumericOption = 'method' | 'alphaQuality' | 'nearLossless' | 'snsStrength' | 'filterStrength'
+
+// Sliders with their range and the encoding mode they apply to (undefined = both)
+const NUMERIC_OPTIONS: { key: NumericOption; max: number; lossless?: boolean }[] = [
+    { key: 'method', max: 6 },
+    { key: 'alphaQuality', max: 100, lossless: false },
+    { key: 'snsStrength', max: 100, lossless: false },
+    { key: 'filterStrength', max: 100, lossless: false },
+    { key: 'nearLossless', max: 100, lossless: true },
+]
+
+export function WebPOptionsSection({ options, lossless, budget, onChange }: WebPOptionsSectionProps) {
+    const { t } = useTranslation()
+    const importInputRef = useRef<HTMLInputElement>(null)
+    const [expanded, setExpanded] = useState(false)
+    const [profiles, setProfiles] = useState<WebPProfile[]>(loadWebPProfiles)
+    const [profileName, setProfileName] = useState('')
+    const [importFailed, setImportFailed] = useState(false)
+
+    const updateProfiles = (next: WebPProfile[]) => {
+        setProfiles(next)
+        saveWebPProfiles(next)
+    }
+
+    const saveProfile = () => {
+        const name = profileName.trim()
+        if (!name) return
+        updateProfiles(mergeWebPProfiles(profiles, [{ name, options }]))
+        setProfileName('')
+        Analytics.webpProfiles('save', 1)
+    }
+
+    const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (!file) return
+
+        const reader = new FileReader()
+        reader.onload = () => {
+            const imported = parseImportedProfiles(reader.result as string)
+            setImportFailed(!imported)
+            if (imported) {
+                updateProfiles(mergeWebPProfiles(profiles, imported))
+                Analytics.webpProfiles('import', imported.length)
+            }
+        }
+        reader.readAsText(file)
+        e.target.value = ''
+    }
+
+    const isModified = !isSameWebPOptions(options, DEFAULT_WEBP_OPTIONS)
+
+    return (
+        <div>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center gap-1 text-sm font-medium"
+            >
+                {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                {t('drawable.webp.advanced')}
+                {!expanded && isModified && (
+                    <span className="ml-auto text-xs font-normal text-primary">{t('drawable.webp.modified')}</span>
+                )}
+            </button>
+
+            {expanded && (
+                <div className="mt-3 space-y-4">
+                    <div>
+                        <Label className="text-xs text-muted-foreground mb-1.5 block">{t('drawable.webp.preset')}</Label>
+                        <div className="grid grid-cols-3 gap-1.5">
+                            {WEBP_PRESETS.map(preset => (
+                                <button
+                                    key={preset}
+                                    onClick={() => {
+                                        onChange(applyWebPPreset(options, preset))
+                                        Analytics.changeWebPPreset(preset)
+                                    }}
+                                    className={`py-1 border rounded-md text-xs transition-colors ${options.preset === preset
+                                        ? 'bg-primary/5 border-primary font-medium'
+                                        : 'hover:bg-slate-50'
+                                        }`}
+                                >
+                                    {t(`drawable.webp.presets.${preset}`)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {NUMERIC_OPTIONS.map(({ key, max, lossless: mode }) => {
+                        const inactive = !budget && mode !== undefined && mode !== lossless
+                        return (
+                            <div key={key} className={inactive ? 'opacity-50' : ''}>
+                                <div className="flex items-center justify-between mb-1.5">
+                                    <Label className="text-xs">{t(`drawable.webp.options.${key}`)}</Label>
+                                    <span className="text-xs font-mono text-muted-foreground">{options[key]}</span>
+                                </div>
+                                <Slider
+                                    value={[options[key]]}
+                                    onValueChange={([value]) => onChange({ ...options, [key]: value })}
+                                    max={max}
+                                    min={0}
+                                    step={1}
+                                />
+                            </div>
+                        )
+                    })}
+
+                    <div className="space-y-2">
+                        {(['useSharpYuv', 'exact'] as const).map(key => (
+                            <div key={key} className="flex items-start space-x-2">
+                                <Checkbox
+                                    id={`webp-${key}`}
+                                    checked={options[key]}
+                                    onCheckedChange={(checked) => onChange({ ...options, [key]: !!checked })}
+                                    className="mt-0.5"
+                                />
+                                <Label htmlFor={`webp-${key}`} className="text-xs cursor-pointer">
+                                    {t(`drawable.webp.options.${key}`)}
+                                    <span className="block text-[10px] text-muted-foreground font-normal">{t(`drawable.webp.options.${key}Desc`)}</span>
+                                </Label>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div>
+                        <div className="flex items-center justify-between mb-1.5">
+                            <Label className="text-xs text-muted-foreground">{t('drawable.webp.profiles')}</Label>
+                            <div className="flex items-center">
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0"
+                                    onClick={() => exportWebPProfiles(profiles)}
+                                    disabled={profiles.length === 0}
+                                    title={t('drawable.webp.exportProfiles')}
+                                >
+                                    <Download className="h-3.5 w-3.5" />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0"
+                                    onClick={() => importInputRef.current?.click()}
+                                    title={t('drawable.webp.importProfiles')}
+                                >
+                                    <Upload className="h-3.5 w-3.5" />
+                                </Button>
+                                <input
+                                    ref={importInputRef}
+                                    type="file"
+                                    accept=".json"
+                                    className="hidden"
+                                    onChange={handleImportFile}
+                                />
+                            </div>
+                        </div>
+                        {profiles.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mb-2">
+                                {profiles.map(profile => (
+                                    <div
+                                        key={profile.name}
+                                        className={`flex items-center rounded-md border text-xs ${isSameWebPOptions(profile.options, options)
+                                            ? 'border-primary bg-primary/5 text-primary'
+                                            : ''
+                                            }`}
+                                    >
+                                        <button
+                                            onClick={() => {
+                                                onChange(profile.options)
+                                                Analytics.webpProfiles('apply', 1)
+                                            }}
+                                            className="pl-2 pr-1 py-0.5 max-w-[120px] truncate"
+                                            title={profile.name}
+                                        >
+                                            {profile.name}
+                                        </button>
+                                        <button
+                                            onClick={() => updateProfiles(profiles.filter(p => p !== profile))}
+                                            className="pr-1.5 text-muted-foreground hover:text-destructive"
+                                            title={t('drawable.webp.deleteProfile')}
+                                        >
+                                            <X className="h-3 w-3" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div className="flex items-center gap-1.5">
+                            <Input
+                                value={profileName}
+                                onChange={(e) => setProfileName(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') saveProfile()
+                                }}
+                                placeholder={t('drawable.webp.profileName')}
+                                className="h-7 flex-1 min-w-0 px-2 text-xs"
+                            />
+                            <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={saveProfile} disabled={!profileName.trim()}>
+                                {t('drawable.webp.saveProfile')}
+                            </Button>
+                        </div>
+                        {importFailed && <p className="text-xs text-red-600 mt-1">{t('drawable.webp.importFailed')}</p>}
+                    </div>
+
+                    {isModified && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs text-muted-foreground"
+                            onClick={() => onChange(DEFAULT_WEBP_OPTIONS)}
+                        >
+                            {t('drawable.webp.reset')}
+                        </Button>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
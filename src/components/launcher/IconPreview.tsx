@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { IconMaskShape, LauncherIconConfig } from '@/types'
+import {
+    LayerImages,
+    ADAPTIVE_VIEWPORT_DP,
+    SAFE_ZONE_DP,
+    renderMaskedIcon,
+    renderThemedIcon
+} from '@/lib/launcherIcon'
+
+const PREVIEW_SIZE = 144
+const MASK_SHAPES: IconMaskShape[] = ['circle', 'squircle', 'rounded-square']
+
+// Material You tonal colors used for the themed icon preview
+const THEMED_TINT = { foreground: '#1B3A57', background: '#D3E4FF' }
+
+interface IconPreviewProps {
+    config: LauncherIconConfig
+    images: LayerImages
+    showSafeZone: boolean
+    onShowSafeZoneChange: (show: boolean) => void
+}
+
+/**
+ * Draw the 66dp safe zone as a dashed circle over a 72dp viewport preview
+ */
+function drawSafeZone(canvas: HTMLCanvasElement) {
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    const radius = (canvas.width * SAFE_ZONE_DP / ADAPTIVE_VIEWPORT_DP) / 2
+    ctx.save()
+    ctx.setLineDash([4, 4])
+    ctx.lineWidth = 1.5
+    ctx.strokeStyle = 'rgba(239, 68, 68, 0.9)'
+    ctx.beginPath()
+    ctx.arc(canvas.width / 2, canvas.height / 2, radius, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.restore()
+}
+
+function PreviewCanvas({ render, label }: { render: () => HTMLCanvasElement; label: string }) {
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const ctx = canvas?.getContext('2d')
+        if (!canvas || !ctx) return
+        ctx.clearRect(0, 0, canvas.width, canvas.height)
+        ctx.drawImage(render(), 0, 0)
+    }, [render])
+
+    return (
+        <div className="flex flex-col items-center gap-2">
+            <canvas ref={canvasRef} width={PREVIEW_SIZE} height={PREVIEW_SIZE} className="w-[144px] h-[144px]" />
+            <span className="text-xs text-muted-foreground">{label}</span>
+        </div>
+    )
+}
+
+export function IconPreview({ config, images, showSafeZone, onShowSafeZoneChange }: IconPreviewProps) {
+    const { t } = useTranslation()
+    const monochrome = config.monochrome?.file ? config.monochrome : null
+
+    return (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <div className="bg-white rounded-xl border p-6">
+                <div className="flex items-center justify-between mb-6">
+                    <h3 className="text-sm font-semibold">{t('launcher.preview')}</h3>
+                    <div className="flex items-center space-x-2">
+                        <Checkbox
+                            id="safe-zone"
+                            checked={showSafeZone}
+                            onCheckedChange={(checked) => onShowSafeZoneChange(!!checked)}
+                        />
+                        <Label htmlFor="safe-zone" className="text-sm cursor-pointer">
+                            {t('launcher.safeZone')}
+                            <span className="text-xs text-muted-foreground ml-2">({SAFE_ZONE_DP}dp)</span>
+                        </Label>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-8 justify-center">
+                    {MASK_SHAPES.map(shape => (
+                        <PreviewCanvas
+                            key={shape}
+                            label={t(`launcher.shapes.${shape}`)}
+                            render={() => {
+                                const canvas = renderMaskedIcon(config, images, shape, PREVIEW_SIZE)
+                                if (showSafeZone) drawSafeZone(canvas)
+                                return canvas
+                            }}
+                        />
+                    ))}
+                    {monochrome && (
+                        <PreviewCanvas
+                            label={t('launcher.themed')}
+                            render={() => renderThemedIcon(monochrome, images.monochrome, 'circle', PREVIEW_SIZE, THEMED_TINT)}
+                        />
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
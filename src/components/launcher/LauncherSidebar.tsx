@@ -0,0 +1,105 @@
+import { Plus } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { LauncherIconConfig } from '@/types'
+import { createLayer } from '@/lib/storage'
+import { LayerEditor } from './LayerEditor'
+
+interface LauncherSidebarProps {
+    config: LauncherIconConfig
+    onChange: (config: LauncherIconConfig) => void
+}
+
+export function LauncherSidebar({ config, onChange }: LauncherSidebarProps) {
+    const { t } = useTranslation()
+
+    return (
+        <aside className="w-[280px] border-r bg-white flex-shrink-0 overflow-y-auto">
+            <div className="p-6 space-y-6">
+                <div>
+                    <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-4">{t('launcher.layers')}</h3>
+                    <div className="space-y-6">
+                        <LayerEditor
+                            id="foreground"
+                            title={t('launcher.foreground')}
+                            layer={config.foreground}
+                            onChange={(foreground) => onChange({ ...config, foreground })}
+                        />
+                        <LayerEditor
+                            id="background"
+                            title={t('launcher.background')}
+                            layer={config.background}
+                            onChange={(background) => onChange({ ...config, background })}
+                        />
+                        {config.monochrome ? (
+                            <LayerEditor
+                                id="monochrome"
+                                title={t('launcher.monochrome')}
+                                layer={config.monochrome}
+                                allowColor={false}
+                                onChange={(monochrome) => onChange({ ...config, monochrome })}
+                                onRemove={() => {
+                                    if (config.monochrome?.preview) URL.revokeObjectURL(config.monochrome.preview)
+                                    onChange({ ...config, monochrome: null })
+                                }}
+                            />
+                        ) : (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="w-full gap-1"
+                                onClick={() => onChange({ ...config, monochrome: createLayer('image', '#000000') })}
+                            >
+                                <Plus className="h-4 w-4" />
+                                {t('launcher.addMonochrome')}
+                            </Button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="h-px bg-border" />
+
+                <div className="space-y-4">
+                    <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">{t('drawable.output')}</h3>
+                    <div>
+                        <Label htmlFor="launcher-name" className="text-sm font-medium mb-2 block">{t('launcher.name')}</Label>
+                        <Input
+                            id="launcher-name"
+                            value={config.name}
+                            onChange={(e) => onChange({ ...config, name: e.target.value })}
+                            className="h-8 text-sm font-mono"
+                        />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                        <Checkbox
+                            id="launcher-lossless"
+                            checked={config.lossless}
+                            onCheckedChange={(checked) => onChange({ ...config, lossless: !!checked })}
+                        />
+                        <Label htmlFor="launcher-lossless" className="text-sm cursor-pointer">{t('drawable.lossless')}</Label>
+                    </div>
+                    <div>
+                        <Label className="text-sm font-medium mb-3 block">
+                            {config.lossless ? t('drawable.compression') : t('drawable.quality')}
+                        </Label>
+                        <div className="flex items-center gap-3">
+                            <Slider
+                                value={[config.quality]}
+                                onValueChange={([value]) => onChange({ ...config, quality: value })}
+                                max={100}
+                                min={config.lossless ? 0 : 10}
+                                step={1}
+                                className="flex-1"
+                            />
+                            <span className="text-xs text-muted-foreground w-8 text-right">{config.quality}</span>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </aside>
+    )
+}
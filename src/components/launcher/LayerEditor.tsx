@@ -0,0 +1,128 @@
+import { useRef } from 'react'
+import { ImagePlus, X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Slider } from '@/components/ui/slider'
+import { LauncherLayer } from '@/types'
+
+interface LayerEditorProps {
+    id: string
+    title: string
+    layer: LauncherLayer
+    allowColor?: boolean
+    onChange: (layer: LauncherLayer) => void
+    onRemove?: () => void
+}
+
+export function LayerEditor({
+    id,
+    title,
+    layer,
+    allowColor = true,
+    onChange,
+    onRemove
+}: LayerEditorProps) {
+    const { t } = useTranslation()
+    const inputRef = useRef<HTMLInputElement>(null)
+
+    const handleImageSelect = (files: FileList | null) => {
+        const file = files?.[0]
+        if (!file) return
+        if (layer.preview) URL.revokeObjectURL(layer.preview)
+        onChange({ ...layer, type: 'image', file, preview: URL.createObjectURL(file) })
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">{title}</Label>
+                {onRemove && (
+                    <button onClick={onRemove} className="text-muted-foreground hover:text-destructive" title={t('launcher.removeLayer')}>
+                        <X className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {allowColor && (
+                <RadioGroup
+                    value={layer.type}
+                    onValueChange={(value) => onChange({ ...layer, type: value as LauncherLayer['type'] })}
+                    className="flex gap-4"
+                >
+                    <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="image" id={`${id}-image`} />
+                        <Label htmlFor={`${id}-image`} className="text-sm cursor-pointer">{t('launcher.image')}</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="color" id={`${id}-color`} />
+                        <Label htmlFor={`${id}-color`} className="text-sm cursor-pointer">{t('launcher.color')}</Label>
+                    </div>
+                </RadioGroup>
+            )}
+
+            {layer.type === 'color' ? (
+                <div className="flex items-center gap-2">
+                    <input
+                        type="color"
+                        value={layer.color}
+                        onChange={(e) => onChange({ ...layer, color: e.target.value })}
+                        className="h-8 w-10 rounded border cursor-pointer bg-white"
+                    />
+                    <Input
+                        value={layer.color}
+                        onChange={(e) => {
+                            const value = e.target.value.trim()
+                            if (/^#[0-9a-f]{0,6}$/i.test(value)) onChange({ ...layer, color: value })
+                        }}
+                        className="h-8 text-sm font-mono"
+                        maxLength={7}
+                    />
+                </div>
+            ) : (
+                <>
+                    <Button
+                        variant="outline"
+                        className="w-full justify-start gap-2 h-10"
+                        onClick={() => inputRef.current?.click()}
+                    >
+                        {layer.preview ? (
+                            <img src={layer.preview} alt="" className="h-5 w-5 object-contain shrink-0" />
+                        ) : (
+                            <ImagePlus className="h-4 w-4 shrink-0" />
+                        )}
+                        <span className="truncate">{layer.file?.name || t('launcher.selectImage')}</span>
+                    </Button>
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        accept="image/png,image/jpeg,image/jpg,image/webp,image/svg+xml,.svg"
+                        className="hidden"
+                        onChange={(e) => {
+                            handleImageSelect(e.target.files)
+                            e.target.value = ''
+                        }}
+                    />
+                    {layer.file && (
+                        <div>
+                            <Label className="text-xs text-muted-foreground mb-2 block">{t('launcher.resize')}</Label>
+                            <div className="flex items-center gap-3">
+                                <Slider
+                                    value={[layer.scale]}
+                                    onValueChange={([value]) => onChange({ ...layer, scale: value })}
+                                    min={10}
+                                    max={200}
+                                    step={1}
+                                    className="flex-1"
+                                />
+                                <span className="text-xs text-muted-foreground w-10 text-right">{layer.scale}%</span>
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
@@ -5,13 +5,15 @@ import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
-import { AndroidResourceDir } from '@/types'
+import { AndroidResourceDir, ResourceLayout } from '@/types'
 import { Analytics } from '@/lib/analytics'
 
 interface StringSidebarProps {
     projectRootName: string | null
     discoveredResDirs: AndroidResourceDir[]
     selectedResDir: AndroidResourceDir | null
+    resourceLayout: ResourceLayout
+    availableLayouts: ResourceLayout[]
     sourceDirName: string | null
     sourceFileCount: number
     totalSourceEntries: number
@@ -19,6 +21,7 @@ interface StringSidebarProps {
     onSelectProjectDir: () => void
     onSelectSourceDir: () => void
     onLoadResDirectory: (dir: AndroidResourceDir) => void
+    onResourceLayoutChange: (layout: ResourceLayout) => void
     onReplaceExistingChange: (replace: boolean) => void
 }
 
@@ -26,6 +29,8 @@ export function StringSidebar({
     projectRootName,
     discoveredResDirs,
     selectedResDir,
+    resourceLayout,
+    availableLayouts,
     sourceDirName,
     sourceFileCount,
     totalSourceEntries,
@@ -33,6 +38,7 @@ export function StringSidebar({
     onSelectProjectDir,
     onSelectSourceDir,
     onLoadResDirectory,
+    onResourceLayoutChange,
     onReplaceExistingChange
 }: StringSidebarProps) {
     const { t } = useTranslation()
@@ -78,6 +84,29 @@ export function StringSidebar({
                         </span>
                     </Button>
 
+                    {/* Resource Layout (only when the project has both) */}
+                    {availableLayouts.length > 1 && (
+                        <div className="mt-4">
+                            <Label className="text-[11px] font-medium text-slate-500 mb-1.5 block uppercase tracking-wider">
+                                {t('string.resourceLayout')}
+                            </Label>
+                            <div className="grid grid-cols-2 gap-1.5">
+                                {(['android', 'compose'] as const).map(layout => (
+                                    <button
+                                        key={layout}
+                                        onClick={() => onResourceLayoutChange(layout)}
+                                        className={`px-2 py-1.5 rounded-md border text-xs transition-colors ${resourceLayout === layout
+                                            ? 'border-primary bg-primary/5 text-primary font-medium'
+                                            : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                                            }`}
+                                    >
+                                        {t(`string.layouts.${layout}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Module Selection (ComboBox) */}
                     {discoveredResDirs.length > 1 && (
                         <div className="mt-4" ref={containerRef}>
@@ -125,6 +154,9 @@ export function StringSidebar({
                                                         }}
                                                     >
                                                         {module.name}
+                                                        {module.layout === 'compose' && (
+                                                            <span className="ml-1.5 text-[10px] text-slate-400">composeResources</span>
+                                                        )}
                                                     </button>
                                                 ))
                                             ) : (
@@ -53,6 +53,56 @@ export const Analytics = {
             value: mode,
         }),
 
+    /** User changed output format */
+    changeOutputFormat: (format: string) =>
+        trackEvent('change_setting', {
+            setting_name: 'output_format',
+            value: format,
+        }),
+
+    /** User changed the platform layout of downloads */
+    changeExportTarget: (target: string) =>
+        trackEvent('change_setting', {
+            setting_name: 'export_target',
+            value: target,
+        }),
+
+    /** User changed the name suffixes paired as dark variants */
+    changeDarkSuffixes: (suffixes: string[]) =>
+        trackEvent('change_setting', {
+            setting_name: 'dark_suffixes',
+            value: suffixes.join(','),
+        }),
+
+    /** User saved resource qualifiers (number of qualifier combinations written) */
+    changeQualifiers: (chainCount: number) =>
+        trackEvent('change_setting', {
+            setting_name: 'qualifiers',
+            value: chainCount,
+        }),
+
+    /** User picked a libwebp content preset */
+    changeWebPPreset: (preset: string) =>
+        trackEvent('change_setting', {
+            setting_name: 'webp_preset',
+            value: preset,
+        }),
+
+    /** User applied, saved or imported named WebP presets */
+    webpProfiles: (action: 'apply' | 'save' | 'import', count: number) =>
+        trackEvent('webp_profiles', { action, count }),
+
+    /** User toggled the <animation-list> fallback of an animated file */
+    toggleAnimationList: (enabled: boolean) =>
+        trackEvent('toggle_animation_list', { enabled }),
+
+    /** User changed resampling filter */
+    changeResampleFilter: (filter: string) =>
+        trackEvent('change_setting', {
+            setting_name: 'resample_filter',
+            value: filter,
+        }),
+
     /** User changed quality setting */
     changeQuality: (quality: number) =>
         trackEvent('change_setting', {
@@ -60,6 +110,10 @@ export const Analytics = {
             value: quality,
         }),
 
+    /** User added a custom density bucket */
+    addCustomDensity: (name: string, factor: number) =>
+        trackEvent('add_custom_density', { name, factor }),
+
     /** User toggled output density */
     toggleDensity: (density: string, enabled: boolean) =>
         trackEvent('toggle_density', {
@@ -73,15 +127,79 @@ export const Analytics = {
             enabled,
         }),
 
+    /** User toggled the per-output size budget (WebP quality search) */
+    toggleSizeBudget: (enabled: boolean) =>
+        trackEvent('toggle_size_budget', {
+            enabled,
+        }),
+
     /** User renamed a file */
     renameFile: () => trackEvent('rename_file'),
 
+    /** User renamed several files with a template */
+    batchRename: (fileCount: number) =>
+        trackEvent('batch_rename', { file_count: fileCount }),
+
+    /** User fixed invalid resource names (one file or the whole batch) */
+    sanitizeNames: (fileCount: number) =>
+        trackEvent('sanitize_names', { file_count: fileCount }),
+
     /** User removed a file */
     removeFile: () => trackEvent('remove_file'),
 
+    /** User saved per-file conversion settings (0 fields = reset to global) */
+    setFileOverrides: (fieldCount: number) =>
+        trackEvent('set_file_overrides', { field_count: fieldCount }),
+
+    /** User set the night version of a file ('none' = back to night mode copies) */
+    setDarkVersion: (mode: 'none' | 'image' | 'invert' | 'recolor') =>
+        trackEvent('set_dark_version', { mode }),
+
+    /** User saved the color variants of a file (0 = removed) */
+    setColorVariants: (count: number) =>
+        trackEvent('set_color_variants', { count }),
+
+    /** User turned the trim/pad/square transform of a file on or off */
+    toggleTransform: (enabled: boolean) =>
+        trackEvent('toggle_transform', { enabled }),
+
+    /** User opened the before/after comparison of a file */
+    openComparison: () => trackEvent('open_comparison'),
+
+    /** User wrote converted assets into an Android project */
+    exportToProject: (fileCount: number, writtenCount: number) =>
+        trackEvent('export_to_project', {
+            file_count: fileCount,
+            written_count: writtenCount,
+        }),
+
     /** User opened help dialog */
     openHelp: () => trackEvent('open_help'),
 
+    // Launcher icon module events
+
+    /** User downloaded launcher icon resources */
+    launcherDownload: (hasMonochrome: boolean, backgroundType: 'image' | 'color') =>
+        trackEvent('launcher_download', { has_monochrome: hasMonochrome, background_type: backgroundType }),
+
+    // Audit module events
+
+    /** User audited the drawables of a project */
+    auditScan: (moduleCount: number, fileCount: number, issueCount: number) =>
+        trackEvent('audit_scan', { module_count: moduleCount, file_count: fileCount, issue_count: issueCount }),
+
+    /** User exported an audit report */
+    auditExport: (format: 'json' | 'csv') =>
+        trackEvent('audit_export', { format }),
+
+    /** User replaced a module's PNG/JPG files with WebP */
+    convertToWebP: (fileCount: number, savedBytes: number) =>
+        trackEvent('convert_to_webp', { file_count: fileCount, saved_kb: Math.round(savedBytes / 1024) }),
+
+    /** User deleted unused drawables found by the audit */
+    deleteUnusedDrawables: (resourceCount: number, fileCount: number) =>
+        trackEvent('delete_unused_drawables', { resource_count: resourceCount, file_count: fileCount }),
+
     // String module events
 
     /** User selected Android project directory */
@@ -0,0 +1,304 @@
+/**
+ * Animated sources (GIF, APNG, animated WebP)
+ * Frames are decoded with the WebCodecs ImageDecoder, which returns them fully
+ * composited, so every frame can be resized on its own. Encoded frames are
+ * muxed into an animated WebP container (VP8X + ANIM + ANMF chunks).
+ * Android plays animated WebP from API 28 (AnimatedImageDrawable); older
+ * versions get an <animation-list> of per-frame drawables instead.
+ */
+
+import { AnimationInfo } from '@/types'
+
+// API level from which animated WebP can be played
+export const ANIMATED_WEBP_MIN_API = 28
+
+// Browsers play GIF delays of 10ms or less at 100ms, Android output should look the same
+const DEFAULT_FRAME_DURATION = 100
+const MAX_FRAME_DURATION = 0xffffff
+
+export interface AnimationFrame {
+    imageData: ImageData
+    duration: number            // ms
+}
+
+/**
+ * Get the decoder type of a possibly animated file, or null when the format
+ * cannot animate. APNG is decoded as PNG.
+ */
+export function getAnimationMimeType(file: File): string | null {
+    const name = file.name.toLowerCase()
+    if (file.type === 'image/gif' || name.endsWith('.gif')) return 'image/gif'
+    if (file.type === 'image/webp' || name.endsWith('.webp')) return 'image/webp'
+    if (file.type === 'image/png' || file.type === 'image/apng' || name.endsWith('.png') || name.endsWith('.apng')) return 'image/png'
+    return null
+}
+
+function normalizeFrameDuration(ms: number): number {
+    const rounded = Math.round(ms)
+    return rounded <= 10 ? DEFAULT_FRAME_DURATION : Math.min(rounded, MAX_FRAME_DURATION)
+}
+
+function getFrameDuration(frame: VideoFrame): number {
+    return normalizeFrameDuration((frame.duration ?? 0) / 1000)
+}
+
+// GIF: the delay (1/100 s) of each image comes from the Graphic Control Extension before it
+function readGifFrameDurations(bytes: Uint8Array): number[] {
+    const skipSubBlocks = (offset: number) => {
+        while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1
+        return offset + 1
+    }
+    const durations: number[] = []
+    let offset = 13
+    if (bytes[10] & 0x80) offset += 3 * (1 << ((bytes[10] & 0x07) + 1))
+    let delay = 0
+    while (offset < bytes.length) {
+        const block = bytes[offset]
+        if (block === 0x3b) break
+        if (block === 0x21) {
+            if (bytes[offset + 1] === 0xf9) delay = bytes[offset + 4] | (bytes[offset + 5] << 8)
+            offset = skipSubBlocks(offset + 2)
+        } else if (block === 0x2c) {
+            const packed = bytes[offset + 9]
+            offset += 10
+            if (packed & 0x80) offset += 3 * (1 << ((packed & 0x07) + 1))
+            offset = skipSubBlocks(offset + 1)
+            durations.push(delay * 10)
+            delay = 0
+        } else {
+            throw new Error('Invalid GIF block')
+        }
+    }
+    return durations
+}
+
+// APNG: every frame starts with an fcTL chunk holding its delay as a fraction of a second
+function readApngFrameDurations(bytes: Uint8Array): number[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const durations: number[] = []
+    let offset = 8
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset)
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+        if (type === 'fcTL') {
+            const numerator = view.getUint16(offset + 28)
+            const denominator = view.getUint16(offset + 30) || 100
+            durations.push(numerator * 1000 / denominator)
+        }
+        if (type === 'IEND') break
+        offset += 12 + length
+    }
+    return durations
+}
+
+// Animated WebP: every ANMF chunk stores its duration in ms
+function readWebPFrameDurations(bytes: Uint8Array): number[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const durations: number[] = []
+    let offset = 12
+    while (offset + 8 <= bytes.length) {
+        const size = view.getUint32(offset + 4, true)
+        if (String.fromCharCode(...bytes.subarray(offset, offset + 4)) === 'ANMF') {
+            durations.push(bytes[offset + 20] | (bytes[offset + 21] << 8) | (bytes[offset + 22] << 16))
+        }
+        offset += 8 + size + (size % 2)
+    }
+    return durations
+}
+
+/**
+ * Total duration of one loop, read from the container headers without
+ * decoding any frame, or undefined when they do not match the frame count
+ */
+function readAnimationDuration(data: ArrayBuffer, mimeType: string, frameCount: number): number | undefined {
+    const bytes = new Uint8Array(data)
+    try {
+        const durations = mimeType === 'image/gif' ? readGifFrameDurations(bytes)
+            : mimeType === 'image/webp' ? readWebPFrameDurations(bytes)
+                : readApngFrameDurations(bytes)
+        if (durations.length !== frameCount) return undefined
+        return durations.reduce((sum, ms) => sum + normalizeFrameDuration(ms), 0)
+    } catch (error) {
+        console.error('Failed to read animation frame durations:', error)
+        return undefined
+    }
+}
+
+// WebCodecs counts repetitions after the first play (Infinity = forever), WebP counts plays (0 = forever)
+function getLoopCount(track: ImageTrack): number {
+    return track.repetitionCount === Infinity ? 0 : Math.min(0xffff, track.repetitionCount + 1)
+}
+
+async function openDecoder(data: ArrayBuffer, mimeType: string): Promise<ImageDecoder | null> {
+    if (typeof ImageDecoder === 'undefined' || !(await ImageDecoder.isTypeSupported(mimeType))) return null
+    const decoder = new ImageDecoder({ data, type: mimeType })
+    await decoder.completed
+    return decoder
+}
+
+/**
+ * Read the frame count, duration and loop count of an animated file. Only
+ * the track metadata and container headers are read, no frame is decoded.
+ * Returns undefined for still images and when the browser has no ImageDecoder,
+ * in which case only the first frame is converted.
+ */
+export async function getAnimationInfo(file: File): Promise<AnimationInfo | undefined> {
+    const mimeType = getAnimationMimeType(file)
+    if (!mimeType) return undefined
+    const data = await file.arrayBuffer()
+    const decoder = await openDecoder(data, mimeType)
+    if (!decoder) return undefined
+    try {
+        const track = decoder.tracks.selectedTrack
+        if (!track || !track.animated || track.frameCount < 2) return undefined
+
+        const duration = readAnimationDuration(data, mimeType, track.frameCount)
+        return { mimeType, frameCount: track.frameCount, duration, loopCount: getLoopCount(track) }
+    } finally {
+        decoder.close()
+    }
+}
+
+/**
+ * Decode every frame of an animation at its full size
+ */
+export async function decodeAnimationFrames(data: Blob, mimeType: string): Promise<AnimationFrame[]> {
+    const decoder = await openDecoder(await data.arrayBuffer(), mimeType)
+    if (!decoder) throw new Error('Animated images are not supported by this browser')
+    try {
+        const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1
+        const frames: AnimationFrame[] = []
+        let ctx: OffscreenCanvasRenderingContext2D | null = null
+        for (let i = 0; i < frameCount; i++) {
+            const { image } = await decoder.decode({ frameIndex: i })
+            try {
+                if (!ctx) {
+                    ctx = new OffscreenCanvas(image.displayWidth, image.displayHeight).getContext('2d')
+                    if (!ctx) throw new Error('Failed to get canvas context')
+                }
+                const { width, height } = ctx.canvas
+                ctx.clearRect(0, 0, width, height)
+                ctx.drawImage(image, 0, 0, width, height)
+                frames.push({ imageData: ctx.getImageData(0, 0, width, height), duration: getFrameDuration(image) })
+            } finally {
+                image.close()
+            }
+        }
+        return frames
+    } finally {
+        decoder.close()
+    }
+}
+
+const textEncoder = new TextEncoder()
+
+function writeUint24(target: Uint8Array, offset: number, value: number) {
+    target[offset] = value & 0xff
+    target[offset + 1] = (value >> 8) & 0xff
+    target[offset + 2] = (value >> 16) & 0xff
+}
+
+// RIFF chunk with its header, padded to an even size
+function createChunk(fourcc: string, payload: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(8 + payload.length + (payload.length % 2))
+    chunk.set(textEncoder.encode(fourcc), 0)
+    new DataView(chunk.buffer).setUint32(4, payload.length, true)
+    chunk.set(payload, 8)
+    return chunk
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+        result.set(part, offset)
+        offset += part.length
+    }
+    return result
+}
+
+/**
+ * Get the image chunks of a still WebP (ALPH + VP8, or VP8L), without the
+ * RIFF header and VP8X, ready to be nested in an ANMF frame
+ */
+function getImageChunks(webp: ArrayBuffer): { chunks: Uint8Array[]; alpha: boolean } {
+    const bytes = new Uint8Array(webp)
+    const view = new DataView(webp)
+    const chunks: Uint8Array[] = []
+    let alpha = false
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const fourcc = String.fromCharCode(...bytes.subarray(offset, offset + 4))
+        const size = view.getUint32(offset + 4, true)
+        const end = offset + 8 + size + (size % 2)
+        if (fourcc === 'ALPH' || fourcc === 'VP8 ' || fourcc === 'VP8L') {
+            chunks.push(bytes.subarray(offset, end))
+            // VP8L header: signature byte, then 14+14 bits of size and the alpha_is_used bit
+            if (fourcc === 'ALPH' || (fourcc === 'VP8L' && (bytes[offset + 12] >> 4) & 1)) alpha = true
+        }
+        offset = end
+    }
+    return { chunks, alpha }
+}
+
+/**
+ * Combine still WebPs of the same size into one animated WebP.
+ * Frames replace the whole canvas (no blending), since decoded frames are
+ * already composited. `loopCount` 0 loops forever.
+ */
+export function muxAnimatedWebP(
+    frames: { webp: ArrayBuffer; duration: number }[],
+    width: number,
+    height: number,
+    loopCount: number
+): ArrayBuffer {
+    let alpha = false
+    const anmfChunks = frames.map(({ webp, duration }) => {
+        const image = getImageChunks(webp)
+        alpha = alpha || image.alpha
+        const header = new Uint8Array(16)
+        // Frame offset stays 0,0
+        writeUint24(header, 6, width - 1)
+        writeUint24(header, 9, height - 1)
+        writeUint24(header, 12, Math.min(duration, MAX_FRAME_DURATION))
+        header[15] = 0x02       // do not blend, no disposal
+        return createChunk('ANMF', concatBytes([header, ...image.chunks]))
+    })
+
+    const vp8x = new Uint8Array(10)
+    vp8x[0] = 0x02 | (alpha ? 0x10 : 0)     // animation, alpha
+    writeUint24(vp8x, 4, width - 1)
+    writeUint24(vp8x, 7, height - 1)
+
+    const anim = new Uint8Array(6)           // background color stays transparent black
+    new DataView(anim.buffer).setUint16(4, loopCount, true)
+
+    const body = concatBytes([textEncoder.encode('WEBP'), createChunk('VP8X', vp8x), createChunk('ANIM', anim), ...anmfChunks])
+    const riff = new Uint8Array(8 + body.length)
+    riff.set(textEncoder.encode('RIFF'), 0)
+    new DataView(riff.buffer).setUint32(4, body.length, true)
+    riff.set(body, 8)
+    return riff.buffer
+}
+
+/**
+ * Name suffix of one frame drawable of the <animation-list> fallback, e.g. '_frame_01'
+ */
+export function getFrameSuffix(index: number, frameCount: number): string {
+    return `_frame_${String(index + 1).padStart(Math.max(2, String(frameCount).length), '0')}`
+}
+
+/**
+ * Build the <animation-list> fallback for a drawable. It can only play once
+ * or loop forever, so other loop counts loop forever.
+ */
+export function buildAnimationListXml(name: string, durations: number[], loopCount: number): string {
+    const items = durations.map((duration, i) =>
+        `    <item android:drawable="@drawable/${name}${getFrameSuffix(i, durations.length)}" android:duration="${duration}" />`)
+    return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        `<animation-list xmlns:android="http://schemas.android.com/apk/res/android" android:oneshot="${loopCount === 1}">`,
+        ...items,
+        '</animation-list>',
+        '',
+    ].join('\n')
+}
@@ -0,0 +1,153 @@
+/**
+ * Color variants
+ * The same glyph is often needed in several colors, e.g. white for
+ * notification icons or the brand accent. A variant recolors the resampled
+ * pixels of every density, either tinting all non-transparent pixels or
+ * mapping source colors to target colors, and is written next to the
+ * original as <name><suffix> (ic_star_white, ic_star_accent…).
+ */
+
+import { ColorVariant, ProcessingFile, Recolor } from '@/types'
+import { parseHexColor } from './darkVariants'
+
+export const DEFAULT_TINT_COLOR = '#FFFFFF'
+
+// Pixels farther than this RGB distance from every source color keep their color
+const PALETTE_TOLERANCE = 64
+
+// Fainter pixels are anti-aliasing and not counted as source colors
+const MIN_COLOR_ALPHA = 128
+
+// Colors covering less of the visible pixels are not offered as source colors
+const MIN_COLOR_SHARE = 0.005
+
+/**
+ * Whether a file can get color variants: they need pixels, and a recolor
+ * would repaint the nine-patch markers. Animations keep their frame names.
+ */
+export function canRecolor(file: ProcessingFile): boolean {
+    return !file.ninePatch && !file.animation && !(file.vectorDrawable && !file.rasterize)
+}
+
+/**
+ * Whether a suffix keeps the resource name valid, e.g. '_white'
+ */
+export function isValidVariantSuffix(suffix: string): boolean {
+    return /^[a-z0-9_]+$/.test(suffix)
+}
+
+export function isHexColor(color: string): boolean {
+    return /^#[0-9a-f]{6}$/i.test(color)
+}
+
+/**
+ * Whether every field of a variant can be encoded
+ */
+export function isValidRecolor(recolor: Recolor): boolean {
+    return recolor.mode === 'tint'
+        ? isHexColor(recolor.color)
+        : recolor.palette.length > 0 && recolor.palette.every(entry => isHexColor(entry.from) && isHexColor(entry.to))
+}
+
+/**
+ * Get the suffixes of a file's variants that are invalid or used twice
+ */
+export function getInvalidSuffixes(variants: ColorVariant[]): Set<string> {
+    const invalid = new Set<string>()
+    const seen = new Set<string>()
+    for (const { suffix } of variants) {
+        if (!isValidVariantSuffix(suffix) || seen.has(suffix)) invalid.add(suffix)
+        seen.add(suffix)
+    }
+    return invalid
+}
+
+function toHexColor(r: number, g: number, b: number): string {
+    return `#${((1 << 24) | (r << 16) | (g << 8) | b).toString(16).slice(1).toUpperCase()}`
+}
+
+function colorDistance(a: [number, number, number], b: [number, number, number]): number {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+/**
+ * Recolor pixels in place. Alpha is kept, so shapes and anti-aliased edges stay the same.
+ */
+export function applyRecolor(imageData: ImageData, recolor: Recolor): ImageData {
+    const { data } = imageData
+    if (recolor.mode === 'tint') {
+        const [r, g, b] = parseHexColor(recolor.color)
+        for (let i = 0; i < data.length; i += 4) {
+            data[i] = r
+            data[i + 1] = g
+            data[i + 2] = b
+        }
+        return imageData
+    }
+
+    const palette = recolor.palette.map(entry => ({ from: parseHexColor(entry.from), to: parseHexColor(entry.to) }))
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue
+        const pixel: [number, number, number] = [data[i], data[i + 1], data[i + 2]]
+        let nearest: typeof palette[number] | null = null
+        let nearestDistance = PALETTE_TOLERANCE
+        for (const entry of palette) {
+            const distance = colorDistance(pixel, entry.from)
+            if (distance <= nearestDistance) {
+                nearest = entry
+                nearestDistance = distance
+            }
+        }
+        if (nearest) {
+            data[i] = nearest.to[0]
+            data[i + 1] = nearest.to[1]
+            data[i + 2] = nearest.to[2]
+        }
+    }
+    return imageData
+}
+
+/**
+ * Most used colors of an image, similar shades merged, to prefill a palette
+ */
+export function findSourceColors(imageData: ImageData, limit: number = 8): string[] {
+    const { data } = imageData
+    const counts = new Map<number, number>()
+    let visible = 0
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] < MIN_COLOR_ALPHA) continue
+        const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2]
+        counts.set(key, (counts.get(key) || 0) + 1)
+        visible++
+    }
+
+    const colors: [number, number, number][] = []
+    for (const [key, count] of Array.from(counts.entries()).sort((a, b) => b[1] - a[1])) {
+        if (colors.length >= limit || count < visible * MIN_COLOR_SHARE) break
+        const color: [number, number, number] = [(key >> 16) & 0xff, (key >> 8) & 0xff, key & 0xff]
+        if (colors.every(other => colorDistance(color, other) > PALETTE_TOLERANCE / 2)) colors.push(color)
+    }
+    return colors.map(([r, g, b]) => toHexColor(r, g, b))
+}
+
+/**
+ * Load a preview URL into pixels no larger than `maxSize`, for live previews
+ * and color detection on the main thread
+ */
+export function loadPreviewPixels(url: string, maxSize: number): Promise<ImageData> {
+    return new Promise((resolve, reject) => {
+        const img = new Image()
+        img.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(img.width, img.height))
+            const canvas = document.createElement('canvas')
+            canvas.width = Math.max(1, Math.round(img.width * scale))
+            canvas.height = Math.max(1, Math.round(img.height * scale))
+            const ctx = canvas.getContext('2d')
+            if (!ctx) return reject(new Error('Failed to get canvas context'))
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+            resolve(ctx.getImageData(0, 0, canvas.width, canvas.height))
+        }
+        img.onerror = () => reject(new Error('Failed to load image'))
+        img.src = url
+    })
+}
@@ -0,0 +1,119 @@
+/**
+ * Before/after comparison of one density
+ * Encodes exactly like the export does, decodes the output again and scores it
+ * against the resized source with SSIM.
+ */
+
+import { ConvertConfig, ProcessingFile } from '@/types'
+import { buildConvertTask } from './conversion'
+import { runConvertTask } from './workerPool'
+
+export interface ComparisonResult {
+    reference: ImageData        // resized source, before encoding
+    encoded: ImageData          // decoded output
+    size: number                // encoded bytes
+    ssim: number                // 0-1, 1 = identical
+}
+
+// SSIM window size and stride in pixels, constants from Wang et al. (2004)
+const SSIM_WINDOW = 8
+const SSIM_STEP = 4
+const SSIM_C1 = (0.01 * 255) ** 2
+const SSIM_C2 = (0.03 * 255) ** 2
+
+/**
+ * Luma (BT.601) of each pixel composited over white, as the asset would look on a light background
+ */
+function toLuma(image: ImageData): Float32Array {
+    const { data } = image
+    const luma = new Float32Array(image.width * image.height)
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+        const alpha = data[i + 3] / 255
+        const y = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+        luma[p] = y * alpha + 255 * (1 - alpha)
+    }
+    return luma
+}
+
+/**
+ * Mean SSIM of two equally sized images over overlapping square windows
+ */
+export function computeSsim(a: ImageData, b: ImageData): number {
+    const { width, height } = a
+    const lumaA = toLuma(a)
+    const lumaB = toLuma(b)
+    // Tiny densities (e.g. a 6px mdpi icon) are scored as a single window
+    const window = Math.min(SSIM_WINDOW, width, height)
+    const count = window * window
+
+    let total = 0
+    let windows = 0
+    for (let y = 0; y + window <= height; y += SSIM_STEP) {
+        for (let x = 0; x + window <= width; x += SSIM_STEP) {
+            let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0
+            for (let wy = 0; wy < window; wy++) {
+                let p = (y + wy) * width + x
+                for (let wx = 0; wx < window; wx++, p++) {
+                    const va = lumaA[p]
+                    const vb = lumaB[p]
+                    sumA += va
+                    sumB += vb
+                    sumAA += va * va
+                    sumBB += vb * vb
+                    sumAB += va * vb
+                }
+            }
+            const meanA = sumA / count
+            const meanB = sumB / count
+            const varA = sumAA / count - meanA * meanA
+            const varB = sumBB / count - meanB * meanB
+            const covar = sumAB / count - meanA * meanB
+            total += ((2 * meanA * meanB + SSIM_C1) * (2 * covar + SSIM_C2)) /
+                ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2))
+            windows++
+        }
+    }
+
+    return windows > 0 ? total / windows : 1
+}
+
+/**
+ * Decode an encoded image back to raw pixels
+ */
+export async function decodeImageData(blob: Blob): Promise<ImageData> {
+    const bitmap = await createImageBitmap(blob)
+    try {
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+        const ctx = canvas.getContext('2d')
+        if (!ctx) throw new Error('Failed to get canvas context')
+        ctx.drawImage(bitmap, 0, 0)
+        return ctx.getImageData(0, 0, bitmap.width, bitmap.height)
+    } finally {
+        bitmap.close()
+    }
+}
+
+/**
+ * Encode one density of a file with a fixed quality and compare it with the resized source.
+ * Size budgets are ignored so the chosen quality is what gets encoded.
+ */
+export async function encodeComparison(
+    file: ProcessingFile,
+    config: ConvertConfig,
+    densityName: string,
+    signal?: AbortSignal
+): Promise<ComparisonResult> {
+    const task = await buildConvertTask(file, { ...config, sizeBudget: { ...config.sizeBudget, enabled: false } }, densityName)
+    signal?.throwIfAborted()
+
+    const result = await runConvertTask({ ...task, returnPixels: true }, signal)
+    const encoded = await decodeImageData(new Blob([result.buffer], { type: result.mimeType }))
+    const reference = result.pixels!
+
+    return {
+        reference,
+        encoded,
+        size: result.buffer.byteLength,
+        ssim: computeSsim(reference, encoded),
+    }
+}
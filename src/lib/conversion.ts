@@ -0,0 +1,351 @@
+/**
+ * Drawable conversion pipeline
+ * Expands an image + config into per-density tasks and runs them on the worker pool
+ */
+
+import { ColorVariant, ConvertConfig, ConvertOverrides, ConvertTask, ConvertedImage, CustomDensity, ImageFile, OutputFormat, ProcessingFile, SizeBudget } from '@/types'
+import { getDensityFactor, getDensityOrder } from './imageUtils'
+import { setVectorDrawableAutoMirrored, setVectorDrawableSize } from './vectorDrawable'
+import { renderVectorSource } from './vectorRaster'
+import { runConvertTask } from './workerPool'
+import { ExportTarget, getExportTarget, getTargetConfig } from './exportTargets'
+import { QualifierChain, getQualifiedFolder, getQualifierChains, isMirroredChain } from './qualifiers'
+import { ANIMATED_WEBP_MIN_API, buildAnimationListXml, getFrameSuffix } from './animation'
+import { getTransformLayout } from './imageTransforms'
+import { canRecolor } from './colorVariants'
+
+export interface ConvertOptions {
+    signal?: AbortSignal
+    onProgress?: (progress: number) => void // 0-100, reported after each density
+    target?: ExportTarget                   // defaults to Android
+}
+
+/**
+ * Get the output folder for a density, e.g. 'drawable-xhdpi' or 'drawable-night-xhdpi'
+ */
+export function getDensityFolder(densityName: string, night: boolean = false): string {
+    const base = night ? 'drawable-night' : 'drawable'
+    return densityName === 'drawable' ? base : `${base}-${densityName}`
+}
+
+/**
+ * Get the config a file starts from before its overrides: the global config
+ * with the input scale detected from its name, if any
+ */
+export function getBaseConfig(file: ProcessingFile, config: ConvertConfig): ConvertConfig {
+    return file.detectedInputScale !== undefined ? { ...config, inputScale: file.detectedInputScale } : config
+}
+
+/**
+ * Get the config a file is converted with: its base config plus its own overrides
+ */
+export function getEffectiveConfig(file: ProcessingFile, config: ConvertConfig): ConvertConfig {
+    const base = getBaseConfig(file, config)
+    return file.overrides ? { ...base, ...file.overrides } : base
+}
+
+/**
+ * Get the overrides needed to turn `config` (a file's base config) into
+ * `edited`, or undefined when they are the same
+ */
+export function getConfigOverrides(edited: ConvertConfig, config: ConvertConfig): ConvertOverrides | undefined {
+    const overrides: ConvertOverrides = {}
+    if (edited.inputScale !== config.inputScale) overrides.inputScale = edited.inputScale
+    if (edited.quality !== config.quality) overrides.quality = edited.quality
+    if (edited.lossless !== config.lossless) overrides.lossless = edited.lossless
+    if (edited.nightMode !== config.nightMode) overrides.nightMode = edited.nightMode
+
+    const sameDensities = edited.selectedDensities.length === config.selectedDensities.length &&
+        edited.selectedDensities.every(d => config.selectedDensities.includes(d))
+    if (!sameDensities) overrides.selectedDensities = edited.selectedDensities
+
+    return Object.keys(overrides).length > 0 ? overrides : undefined
+}
+
+/**
+ * Get the size limit of one density's output in bytes
+ */
+export function getBudgetBytes(budget: SizeBudget, densityName: string): number {
+    return Math.round((budget.densityKb[densityName] ?? budget.maxKb) * 1024)
+}
+
+/**
+ * Get the output file extension of an image (without the leading dot)
+ */
+export function getOutputExtension(file: ProcessingFile, format: OutputFormat): string {
+    if (file.vectorDrawable && !file.rasterize) return 'xml'
+    // Animations are always animated WebP
+    if (file.animation) return 'webp'
+    // Nine-patches cannot be WebP or AVIF, aapt only compiles them from PNG
+    return file.ninePatch ? '9.png' : format
+}
+
+/**
+ * Raise a chain's API level to the one that plays animated WebP, so the
+ * <animation-list> fallback is used below it
+ */
+function getAnimatedChain(chain: QualifierChain): QualifierChain {
+    const apiLevel = parseInt(chain.apiLevel.slice(1)) || 0
+    return apiLevel >= ANIMATED_WEBP_MIN_API ? chain : { ...chain, apiLevel: `v${ANIMATED_WEBP_MIN_API}` }
+}
+
+/**
+ * Get the output pixel size of an image for a density.
+ * Bitmaps are scaled relative to their input scale; vector sources use the
+ * dp-to-px model (px = dp × density factor). 'drawable' is treated as mdpi.
+ * Nine-patch sizes include the unscaled 1px border.
+ */
+export function getTargetSize(
+    file: ImageFile,
+    densityName: string,
+    inputScale: number,
+    customDensities: CustomDensity[] = []
+): { width: number; height: number } {
+    const factor = getDensityFactor(densityName, customDensities)
+
+    if (file.vectorSource) {
+        return {
+            width: Math.max(1, Math.round(file.vectorSource.widthDp * factor)),
+            height: Math.max(1, Math.round(file.vectorSource.heightDp * factor)),
+        }
+    }
+
+    const scale = factor / inputScale
+
+    // Only the content of a nine-patch is scaled, the 1px border is added back
+    if (file.ninePatch) {
+        return {
+            width: Math.max(1, Math.round((file.width - 2) * scale)) + 2,
+            height: Math.max(1, Math.round((file.height - 2) * scale)) + 2,
+        }
+    }
+
+    return {
+        width: Math.max(1, Math.round(file.width * scale)),
+        height: Math.max(1, Math.round(file.height * scale)),
+    }
+}
+
+/**
+ * Build the worker task of one density. Vector sources are rendered at the
+ * final size here on the main thread, the worker only encodes them.
+ * `image` replaces the encoded pixels (a dark variant) while sizes still
+ * come from `file`, after its transform.
+ */
+export async function buildConvertTask(
+    file: ProcessingFile,
+    config: ConvertConfig,
+    densityName: string,
+    image: ImageFile = file
+): Promise<ConvertTask> {
+    const layout = getTransformLayout(file, config)
+    const sized = layout ? { ...file, width: layout.width, height: layout.height } : file
+    const { width, height } = getTargetSize(sized, densityName, config.inputScale, config.customDensities)
+    const source = image.vectorSource
+        ? await renderVectorSource(image.file, image.vectorSource.format, width, height)
+        : image.file
+    // Budgets search WebP quality; nine-patches are always lossless PNG
+    const useBudget = config.sizeBudget.enabled && config.format === 'webp' && !file.ninePatch
+
+    return {
+        source,
+        width,
+        height,
+        quality: config.quality,
+        // Nine-patch borders must stay exact, so they are never quantized
+        lossless: config.lossless || !!file.ninePatch,
+        format: file.ninePatch ? 'png' : config.format,
+        filter: config.filter,
+        webp: config.webp,
+        ninePatch: file.ninePatch,
+        // A vector dark variant is already rendered at the transformed size
+        transform: image.vectorSource ? undefined : layout,
+        maxBytes: useBudget ? getBudgetBytes(config.sizeBudget, densityName) : undefined,
+    }
+}
+
+/**
+ * Whether a file has its own night version (a dark variant or a generated one)
+ */
+export function hasDarkVersion(file: ProcessingFile): boolean {
+    return !!(file.darkVariant || file.nightTransform)
+}
+
+/**
+ * Convert one image into every selected density in parallel
+ * The file's own overrides are applied on top of `globalConfig`, then the
+ * target's scales and formats. Results keep the density order regardless of
+ * which worker finishes first. Files with a dark version get separately
+ * encoded night folders; night mode only copies the light image. Color
+ * variants are encoded per density like the light image, under their suffix.
+ */
+export async function convertImageFile(
+    sourceFile: ProcessingFile,
+    globalConfig: ConvertConfig,
+    options: ConvertOptions = {}
+): Promise<ConvertedImage[]> {
+    const { signal, onProgress, target = getExportTarget('android') } = options
+    const config = getTargetConfig(target, getEffectiveConfig(sourceFile, globalConfig))
+    // Other platforms cannot load VectorDrawables, so SVGs are always rasterized for them
+    let file = target.vectorDrawables ? sourceFile : { ...sourceFile, rasterize: true }
+    // Nor animated WebP, so animations become their first frame
+    if (!target.animated) file = { ...file, animation: undefined }
+    const animationList = !!file.animation && !!file.animationList
+
+    // Scaled targets (iOS, Flutter, React Native) have no night folders
+    const dark = !target.scales && hasDarkVersion(file)
+
+    // Every qualifier combination gets the same outputs; mirrored ldrtl bitmaps are encoded separately
+    const chains = getQualifierChains(config.qualifiers)
+
+    // SVG sources become a single density-independent VectorDrawable unless rasterized
+    if (file.vectorDrawable && !file.rasterize) {
+        const toXmlBlob = (image: ImageFile, mirrored: boolean) => {
+            let xml = file.vectorSource
+                ? setVectorDrawableSize(image.vectorDrawable!.xml, file.vectorSource.widthDp, file.vectorSource.heightDp)
+                : image.vectorDrawable!.xml
+            if (mirrored) xml = setVectorDrawableAutoMirrored(xml)
+            return new Blob([xml], { type: 'application/xml' })
+        }
+        onProgress?.(100)
+        return chains.flatMap(chain => {
+            const mirrored = isMirroredChain(chain, config.qualifiers)
+            const images: ConvertedImage[] = [
+                { density: getQualifiedFolder(chain, 'drawable'), densityName: 'drawable', blob: toXmlBlob(file, mirrored), extension: 'xml' },
+            ]
+            // Only a vector dark variant can be written as XML, generated versions need pixels
+            if (dark && file.darkVariant?.vectorDrawable) {
+                images.push({ density: getQualifiedFolder(chain, 'drawable', true), densityName: 'drawable', blob: toXmlBlob(file.darkVariant, mirrored), extension: 'xml' })
+            }
+            return images
+        })
+    }
+
+    const targets = getDensityOrder(config.customDensities).filter(d => config.selectedDensities.includes(d))
+    const mirrorStates = Array.from(new Set(chains.map(chain => isMirroredChain(chain, config.qualifiers))))
+    const variants: (ColorVariant | undefined)[] = [undefined, ...(canRecolor(file) ? file.colorVariants ?? [] : [])]
+    const jobs = targets.flatMap(densityName => variants.flatMap(variant =>
+        (dark && !variant ? [false, true] : [false]).flatMap(night =>
+            mirrorStates.map(mirror => ({ densityName, night, mirror, variant })))))
+    let completed = 0
+
+    const results = await Promise.all(jobs.map(async ({ densityName, night, mirror, variant }) => {
+        const image = night && file.darkVariant ? file.darkVariant : file
+        let task = await buildConvertTask(file, config, densityName, image)
+        if (night && !file.darkVariant) task = { ...task, nightTransform: file.nightTransform }
+        if (mirror) task = { ...task, mirror }
+        if (variant) task = { ...task, recolor: variant.recolor }
+        if (file.animation && image.animation) {
+            task = {
+                ...task,
+                animation: { mimeType: image.animation.mimeType, loopCount: file.loopCount ?? image.animation.loopCount, frames: animationList },
+                maxBytes: undefined,
+            }
+        } else if (file.animation) {
+            // A still dark version of an animation shares its .webp name
+            task = { ...task, format: 'webp' }
+        }
+        signal?.throwIfAborted()
+
+        const result = await runConvertTask(task, signal)
+
+        completed++
+        onProgress?.(Math.round((completed / jobs.length) * 100))
+        return {
+            blob: new Blob([result.buffer], { type: result.mimeType }),
+            budget: result.budget,
+            frames: result.frames?.map(frame => ({ blob: new Blob([frame.buffer], { type: frame.mimeType }), duration: frame.duration })),
+        }
+    }))
+
+    const extension = getOutputExtension(file, config.format)
+    const convertedImages: ConvertedImage[] = []
+    jobs.forEach(({ densityName, night, mirror, variant }, i) => {
+        const { blob, budget, frames } = results[i]
+        // Copies of one encoded file only report its budget once
+        let reportBudget = true
+        const push = (density: string) => {
+            convertedImages.push({ density, densityName, blob, extension, nameSuffix: variant?.suffix, budget: reportBudget ? budget : undefined })
+            reportBudget = false
+        }
+        // Night mode without a dark version: copy the light file
+        const nights = !dark && config.nightMode ? [night, true] : [night]
+
+        for (const chain of chains.filter(c => isMirroredChain(c, config.qualifiers) === mirror)) {
+            for (const nightFolder of nights) {
+                // With the fallback, the animated WebP moves to -v28 and the frames take its place
+                push(getQualifiedFolder(frames ? getAnimatedChain(chain) : chain, densityName, nightFolder))
+                frames?.forEach((frame, index) => convertedImages.push({
+                    density: getQualifiedFolder(chain, densityName, nightFolder),
+                    densityName,
+                    blob: frame.blob,
+                    extension: config.format,
+                    nameSuffix: getFrameSuffix(index, frames.length),
+                }))
+                // One density-independent <animation-list> per folder set
+                if (frames && densityName === targets[0]) {
+                    const xml = buildAnimationListXml(file.outputName, frames.map(frame => frame.duration), file.loopCount ?? file.animation!.loopCount)
+                    convertedImages.push({
+                        density: getQualifiedFolder(chain, 'drawable', nightFolder),
+                        densityName: 'drawable',
+                        blob: new Blob([xml], { type: 'application/xml' }),
+                        extension: 'xml',
+                    })
+                }
+            }
+        }
+    })
+
+    return convertedImages
+}
+
+/**
+ * Build a plain-text report of SVG features that were dropped during
+ * VectorDrawable conversion. Returns null when every file converted cleanly.
+ */
+export function buildVectorReport(files: ProcessingFile[]): string | null {
+    const lines = files
+        .filter(f => f.vectorDrawable && !f.rasterize && f.vectorDrawable.unsupported.length > 0)
+        .map(f => `${f.outputName}.xml (${f.name}): ${f.vectorDrawable!.unsupported.join(', ')}`)
+
+    if (lines.length === 0) return null
+    return [
+        'Unsupported SVG features (not included in the VectorDrawable output):',
+        '',
+        ...lines,
+        '',
+    ].join('\n')
+}
+
+/**
+ * Collect the size budget results of a conversion for display in the file
+ * list, color variants left out
+ */
+export function getBudgetResults(images: ConvertedImage[]): ProcessingFile['budgetResults'] {
+    const results = images.flatMap(img => img.budget && !img.nameSuffix ? [{ density: img.density, budget: img.budget }] : [])
+    return results.length > 0 ? results : undefined
+}
+
+/**
+ * Build a CSV summary of size-budgeted outputs (quality and size per density).
+ * Returns null when no output was converted under a budget.
+ */
+export function buildBudgetReport(converted: { file: ProcessingFile; images: ConvertedImage[] }[]): string | null {
+    const rows = converted.flatMap(({ file, images }) => images
+        .filter(img => img.budget)
+        .map(img => {
+            const { quality, lossless, size, maxBytes, fits } = img.budget!
+            return [
+                `${img.density}/${file.outputName}${img.nameSuffix ?? ''}.${img.extension}`,
+                file.name,
+                lossless ? 'lossless' : 'lossy',
+                quality,
+                size,
+                maxBytes,
+                fits ? 'yes' : 'no',
+            ].map(value => `"${String(value).replace(/"/g, '""')}"`).join(',')
+        }))
+
+    if (rows.length === 0) return null
+    return ['file,source,mode,quality,size_bytes,budget_bytes,fits', ...rows, ''].join('\n')
+}
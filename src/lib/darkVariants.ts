@@ -0,0 +1,86 @@
+/**
+ * Dark-mode variants
+ * A light image can carry its own night version, either a paired file
+ * (`icon.png` + `icon_dark.png`) or one generated by inverting or recoloring
+ * a monochrome icon. It is encoded separately into the drawable-night-* folders.
+ */
+
+import { NightTransform } from '@/types'
+
+export const DEFAULT_DARK_SUFFIXES = ['_dark', '-dark', '_night', '-night']
+
+export const DEFAULT_NIGHT_COLOR = '#FFFFFF'
+
+interface PairableGroup {
+    baseName: string
+    ninePatch: boolean
+}
+
+/**
+ * Get the light name a dark file belongs to, e.g. 'icon_dark' → 'icon', or null
+ */
+export function getLightBaseName(baseName: string, suffixes: string[]): string | null {
+    const lower = baseName.toLowerCase()
+    for (const suffix of suffixes) {
+        const trimmed = suffix.trim().toLowerCase()
+        if (trimmed && lower.length > trimmed.length && lower.endsWith(trimmed)) {
+            return baseName.slice(0, -trimmed.length)
+        }
+    }
+    return null
+}
+
+/**
+ * Pair dark files with the light file of the same name, keeping input order.
+ * Dark files without a light counterpart stay on their own.
+ */
+export function pairDarkVariants<T extends PairableGroup>(groups: T[], suffixes: string[]): { group: T; dark?: T }[] {
+    const key = (name: string, ninePatch: boolean) => `${name.toLowerCase()}|${ninePatch}`
+    const lights = new Map<string, T>()
+    for (const group of groups) {
+        if (getLightBaseName(group.baseName, suffixes) === null) {
+            lights.set(key(group.baseName, group.ninePatch), group)
+        }
+    }
+
+    const darkOf = new Map<T, T>()
+    const paired = new Set<T>()
+    for (const group of groups) {
+        const lightName = getLightBaseName(group.baseName, suffixes)
+        const light = lightName !== null ? lights.get(key(lightName, group.ninePatch)) : undefined
+        if (light && !darkOf.has(light)) {
+            darkOf.set(light, group)
+            paired.add(group)
+        }
+    }
+
+    return groups.filter(group => !paired.has(group)).map(group => ({ group, dark: darkOf.get(group) }))
+}
+
+export function parseHexColor(color: string): [number, number, number] {
+    const value = parseInt(color.replace('#', ''), 16)
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+/**
+ * Generate a night version in place: invert the color channels, or replace
+ * them with one color. Alpha is kept, so icon shapes stay the same.
+ */
+export function applyNightTransform(imageData: ImageData, transform: NightTransform): ImageData {
+    const { data } = imageData
+    if (transform.mode === 'invert') {
+        for (let i = 0; i < data.length; i += 4) {
+            data[i] = 255 - data[i]
+            data[i + 1] = 255 - data[i + 1]
+            data[i + 2] = 255 - data[i + 2]
+        }
+    } else {
+        const [r, g, b] = parseHexColor(transform.color)
+        for (let i = 0; i < data.length; i += 4) {
+            data[i] = r
+            data[i + 1] = g
+            data[i + 2] = b
+        }
+    }
+    return imageData
+}
@@ -0,0 +1,427 @@
+/**
+ * Drawable audit of an Android project
+ * Reads every drawable-* / mipmap-* folder of the modules found by
+ * findAndroidResourceDirectories and reports resources missing from some
+ * densities, bitmaps whose size does not follow the density ratio, PNG/JPG
+ * files that are much smaller as WebP, identical files in several modules and
+ * drawables nothing in the project refers to.
+ */
+
+import {
+    AndroidResourceDir,
+    AuditFileRef,
+    AuditReport,
+    DimensionIssue,
+    DuplicateIssue,
+    MissingDensityIssue,
+    UnusedDrawableIssue,
+    WebPOptions,
+    WebPSavingIssue,
+} from '@/types'
+import { DENSITY_FACTORS } from './imageUtils'
+import { buildReferenceIndex } from './drawableReferences'
+import { isNinePatchFile } from './ninePatch'
+import { getImageSize, getResourceName } from './projectExport'
+import { runConvertTask, isAbortError } from './workerPool'
+
+const BITMAP_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif']
+const WEBP_CANDIDATE_EXTENSIONS = ['png', 'jpg', 'jpeg']
+
+// Density qualifiers of bitmap buckets; nodpi/anydpi folders count as density-independent
+const DENSITY_QUALIFIER = /^(ldpi|mdpi|tvdpi|hdpi|xhdpi|xxhdpi|xxxhdpi|\d+dpi)$/
+
+// Platform version qualifier, e.g. 'v26'
+const API_LEVEL_QUALIFIER = /^v\d+$/
+
+// Sizes may be off by rounding, so only report larger differences
+const DIMENSION_TOLERANCE = 0.02
+
+// Smaller savings are not worth a conversion, whatever the percentage
+const MIN_SAVING_BYTES = 512
+
+export const DEFAULT_MIN_SAVING = 20
+
+export interface AuditOptions {
+    quality: number
+    lossless: boolean
+    webp: WebPOptions
+    minSaving: number           // percent of the original size
+}
+
+export interface AuditProgress {
+    phase: 'references' | 'reading' | 'encoding'
+    current: number
+    total: number
+}
+
+export interface AuditFolder {
+    type: string                // 'drawable' | 'mipmap'
+    density: string | null      // null for density-independent folders
+    family: string              // folder without its density, e.g. 'drawable-night'
+}
+
+interface ScannedFile extends AuditFileRef, AuditFolder {
+    path: string                // res dir of the module
+    file: File
+    name: string
+    extension: string
+    width: number | null
+    height: number | null
+    hash: string
+}
+
+/**
+ * Split a res folder into type, density and the other qualifiers,
+ * or null when it holds no drawables
+ */
+export function parseAuditFolder(folder: string): AuditFolder | null {
+    const [type, ...qualifiers] = folder.split('-')
+    if (type !== 'drawable' && type !== 'mipmap') return null
+    const density = qualifiers.find(q => DENSITY_QUALIFIER.test(q)) || null
+    return { type, density, family: [type, ...qualifiers.filter(q => q !== density)].join('-') }
+}
+
+// Pixels per dp of a density qualifier, including custom ones like '280dpi'
+function getQualifierFactor(density: string): number {
+    return DENSITY_FACTORS[density] ?? parseInt(density) / 160
+}
+
+function getExtension(fileName: string): string {
+    return fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase()
+}
+
+async function hashFile(file: File): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>()
+    for (const item of items) {
+        const key = getKey(item)
+        const group = groups.get(key)
+        if (group) group.push(item)
+        else groups.set(key, [item])
+    }
+    return groups
+}
+
+/**
+ * List the files of every drawable and mipmap folder of the modules
+ */
+export async function listResourceFiles(resDirs: AndroidResourceDir[]): Promise<{ module: string; path: string; folder: string; handle: FileSystemFileHandle }[]> {
+    const files: { module: string; path: string; folder: string; handle: FileSystemFileHandle }[] = []
+    for (const resDir of resDirs) {
+        for await (const entry of resDir.handle.values()) {
+            if (entry.kind !== 'directory' || !parseAuditFolder(entry.name)) continue
+            for await (const child of (entry as FileSystemDirectoryHandle).values()) {
+                if (child.kind === 'file' && !child.name.startsWith('.')) {
+                    files.push({ module: resDir.name, path: resDir.path, folder: entry.name, handle: child as FileSystemFileHandle })
+                }
+            }
+        }
+    }
+    return files
+}
+
+/**
+ * Resources a density folder of a family lacks. Names that also exist in a
+ * density-independent folder of the module (drawable/, drawable-nodpi/) have a
+ * fallback and are not reported. Folders with an API level (mipmap-anydpi-v26/)
+ * only cover newer devices, so they are no fallback.
+ */
+function findMissingDensities(files: ScannedFile[]): MissingDensityIssue[] {
+    const independent = new Set(files
+        .filter(f => !f.density && !f.folder.split('-').some(q => API_LEVEL_QUALIFIER.test(q)))
+        .map(f => `${f.module}/${f.type}/${f.name}`))
+    const issues: MissingDensityIssue[] = []
+
+    const bitmaps = files.filter(f => f.density && BITMAP_EXTENSIONS.includes(f.extension))
+    for (const family of groupBy(bitmaps, f => `${f.module}/${f.family}`).values()) {
+        const densities = Array.from(new Set(family.map(f => f.density!)))
+            .sort((a, b) => getQualifierFactor(a) - getQualifierFactor(b))
+        if (densities.length < 2) continue
+
+        for (const [name, versions] of groupBy(family, f => f.name)) {
+            const { module, type } = versions[0]
+            if (independent.has(`${module}/${type}/${name}`)) continue
+            const present = densities.filter(d => versions.some(f => f.density === d))
+            if (present.length === densities.length) continue
+            issues.push({
+                module,
+                family: versions[0].family,
+                name,
+                present,
+                missing: densities.filter(d => !present.includes(d)),
+            })
+        }
+    }
+    return issues
+}
+
+/**
+ * Bitmaps whose size differs from the largest version scaled by the density ratio.
+ * Nine-patch sizes are compared without their 1px border.
+ */
+function findDimensionMismatches(files: ScannedFile[]): DimensionIssue[] {
+    const issues: DimensionIssue[] = []
+    const bitmaps = files.filter(f => f.density && f.width !== null && f.height !== null)
+
+    for (const versions of groupBy(bitmaps, f => `${f.module}/${f.family}/${f.name}`).values()) {
+        if (versions.length < 2) continue
+        const reference = versions.reduce((a, b) => getQualifierFactor(b.density!) > getQualifierFactor(a.density!) ? b : a)
+        const referenceFactor = getQualifierFactor(reference.density!)
+
+        for (const version of versions) {
+            if (version === reference) continue
+            const border = isNinePatchFile(version.fileName) ? 2 : 0
+            const ratio = getQualifierFactor(version.density!) / referenceFactor
+            const expectedWidth = Math.round((reference.width! - border) * ratio) + border
+            const expectedHeight = Math.round((reference.height! - border) * ratio) + border
+            const isOff = (actual: number, expected: number) =>
+                Math.abs(actual - expected) > Math.max(1, expected * DIMENSION_TOLERANCE)
+
+            if (isOff(version.width!, expectedWidth) || isOff(version.height!, expectedHeight)) {
+                issues.push({
+                    module: version.module,
+                    folder: version.folder,
+                    fileName: version.fileName,
+                    width: version.width!,
+                    height: version.height!,
+                    expectedWidth,
+                    expectedHeight,
+                    reference: reference.folder,
+                })
+            }
+        }
+    }
+    return issues
+}
+
+/**
+ * Identical files (same SHA-256) found in more than one module
+ */
+function findDuplicates(files: ScannedFile[]): DuplicateIssue[] {
+    return Array.from(groupBy(files.filter(f => f.file.size > 0), f => f.hash).values())
+        .filter(group => new Set(group.map(f => f.module)).size > 1)
+        .map(group => ({
+            size: group[0].file.size,
+            files: group.map(({ module, folder, fileName }) => ({ module, folder, fileName })),
+        }))
+        .sort((a, b) => b.size * b.files.length - a.size * a.files.length)
+}
+
+/**
+ * Drawables (not mipmaps) whose name is never referenced. A bitmap used only
+ * by an unused XML drawable counts as used until that drawable is deleted.
+ */
+function findUnusedDrawables(files: ScannedFile[], references: Set<string>): UnusedDrawableIssue[] {
+    const drawables = files.filter(f => f.type === 'drawable' && !references.has(f.name))
+    return Array.from(groupBy(drawables, f => `${f.path}/${f.name}`).values())
+        .map(versions => ({
+            module: versions[0].module,
+            path: versions[0].path,
+            name: versions[0].name,
+            files: versions.map(({ module, folder, fileName, file }) => ({ module, folder, fileName, size: file.size })),
+            size: versions.reduce((sum, f) => sum + f.file.size, 0),
+        }))
+        .sort((a, b) => b.size - a.size)
+}
+
+/**
+ * Bytes of unused drawables per density, sorted by factor with
+ * density-independent folders ('drawable') last
+ */
+export function getUnusedBytesByDensity(issues: UnusedDrawableIssue[]): [string, number][] {
+    const bytes = new Map<string, number>()
+    for (const file of issues.flatMap(issue => issue.files)) {
+        const density = parseAuditFolder(file.folder)?.density || 'drawable'
+        bytes.set(density, (bytes.get(density) || 0) + file.size)
+    }
+    const getRank = (density: string) => density === 'drawable' ? Infinity : getQualifierFactor(density)
+    return Array.from(bytes.entries()).sort(([a], [b]) => getRank(a) - getRank(b))
+}
+
+/**
+ * Encode PNG/JPG files (nine-patches excluded) as WebP and keep the ones that
+ * shrink by at least `minSaving` percent
+ */
+async function findWebPSavings(
+    files: ScannedFile[],
+    options: AuditOptions,
+    onProgress?: (progress: AuditProgress) => void,
+    signal?: AbortSignal
+): Promise<WebPSavingIssue[]> {
+    const candidates = files.filter(f =>
+        WEBP_CANDIDATE_EXTENSIONS.includes(f.extension) && !isNinePatchFile(f.fileName) && f.width !== null && f.height !== null)
+    let done = 0
+    onProgress?.({ phase: 'encoding', current: 0, total: candidates.length })
+
+    const results = await Promise.all(candidates.map(async (f): Promise<WebPSavingIssue | null> => {
+        try {
+            const { buffer } = await runConvertTask({
+                source: f.file,
+                width: f.width!,
+                height: f.height!,
+                quality: options.quality,
+                lossless: options.lossless,
+                format: 'webp',
+                filter: 'lanczos3',
+                webp: options.webp,
+            }, signal)
+            const saving = f.file.size - buffer.byteLength
+            return saving >= MIN_SAVING_BYTES && saving * 100 >= f.file.size * options.minSaving
+                ? { module: f.module, folder: f.folder, fileName: f.fileName, size: f.file.size, webpSize: buffer.byteLength }
+                : null
+        } catch (error) {
+            if (isAbortError(error)) throw error
+            console.error(`Failed to encode ${f.folder}/${f.fileName}:`, error)
+            return null
+        } finally {
+            onProgress?.({ phase: 'encoding', current: ++done, total: candidates.length })
+        }
+    }))
+    return results
+        .filter((issue): issue is WebPSavingIssue => issue !== null)
+        .sort((a, b) => (b.size - b.webpSize) - (a.size - a.webpSize))
+}
+
+/**
+ * Audit the drawables of every module of a project
+ */
+export async function auditProject(
+    rootHandle: FileSystemDirectoryHandle,
+    resDirs: AndroidResourceDir[],
+    options: AuditOptions,
+    onProgress?: (progress: AuditProgress) => void,
+    signal?: AbortSignal
+): Promise<AuditReport> {
+    const references = await buildReferenceIndex(
+        rootHandle,
+        (current, total) => onProgress?.({ phase: 'references', current, total }),
+        signal
+    )
+
+    const entries = await listResourceFiles(resDirs)
+    const files: ScannedFile[] = []
+    for (const [i, entry] of entries.entries()) {
+        signal?.throwIfAborted()
+        onProgress?.({ phase: 'reading', current: i, total: entries.length })
+        const file = await entry.handle.getFile()
+        const extension = getExtension(file.name)
+        const size = BITMAP_EXTENSIONS.includes(extension) ? await getImageSize(file) : null
+        files.push({
+            module: entry.module,
+            path: entry.path,
+            folder: entry.folder,
+            fileName: file.name,
+            ...parseAuditFolder(entry.folder)!,
+            file,
+            name: getResourceName(file.name),
+            extension,
+            width: size?.width ?? null,
+            height: size?.height ?? null,
+            hash: await hashFile(file),
+        })
+    }
+
+    const webpSavings = await findWebPSavings(files, options, onProgress, signal)
+    return {
+        project: rootHandle.name,
+        scannedAt: new Date().toISOString(),
+        fileCount: files.length,
+        totalBytes: files.reduce((sum, f) => sum + f.file.size, 0),
+        missingDensities: findMissingDensities(files),
+        dimensionMismatches: findDimensionMismatches(files),
+        webpSavings,
+        duplicates: findDuplicates(files),
+        unusedDrawables: findUnusedDrawables(files, references),
+    }
+}
+
+export function getAuditIssueCount(report: AuditReport): number {
+    return report.missingDensities.length + report.dimensionMismatches.length + report.webpSavings.length +
+        report.duplicates.length + report.unusedDrawables.length
+}
+
+/**
+ * Saving of a WebP conversion in percent of the original size
+ */
+export function getSavingPercent(issue: WebPSavingIssue): number {
+    return Math.round((1 - issue.webpSize / issue.size) * 100)
+}
+
+function getFilePath(ref: AuditFileRef): string {
+    return `${ref.module}/${ref.folder}/${ref.fileName}`
+}
+
+/**
+ * Build a CSV of the report, one row per finding (per file for duplicates and unused drawables)
+ */
+export function buildAuditCsv(report: AuditReport): string {
+    const rows: (string | number)[][] = [
+        ...report.missingDensities.map(issue => [
+            'missing_density', issue.module, issue.family, issue.name,
+            `missing ${issue.missing.join(' ')}; has ${issue.present.join(' ')}`, '',
+        ]),
+        ...report.dimensionMismatches.map(issue => [
+            'dimension_mismatch', issue.module, issue.folder, issue.fileName,
+            `${issue.width}x${issue.height}, expected ${issue.expectedWidth}x${issue.expectedHeight} from ${issue.reference}`, '',
+        ]),
+        ...report.webpSavings.map(issue => [
+            'webp_saving', issue.module, issue.folder, issue.fileName,
+            `${issue.size} -> ${issue.webpSize} bytes (-${getSavingPercent(issue)}%)`, issue.size - issue.webpSize,
+        ]),
+        ...report.duplicates.flatMap(issue => issue.files.map(file => [
+            'duplicate', file.module, file.folder, file.fileName,
+            `same as ${issue.files.filter(f => f !== file).map(getFilePath).join('; ')}`, issue.size,
+        ])),
+        ...report.unusedDrawables.flatMap(issue => issue.files.map(file => [
+            'unused', file.module, file.folder, file.fileName, `@drawable/${issue.name} is never referenced`, file.size,
+        ])),
+    ]
+    return [
+        'issue,module,folder,file,detail,bytes',
+        ...rows.map(row => row.map(value => `"${String(value).replace(/"/g, '""')}"`).join(',')),
+        '',
+    ].join('\n')
+}
+
+/**
+ * Download the report as JSON or CSV
+ */
+export function exportAuditReport(report: AuditReport, format: 'json' | 'csv'): void {
+    const data = format === 'json' ? JSON.stringify(report, null, 2) : buildAuditCsv(report)
+    const blob = new Blob([data], { type: format === 'json' ? 'application/json' : 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `drawable-audit.${format}`
+    a.click()
+    URL.revokeObjectURL(url)
+}
+
+/**
+ * Delete files of unused drawables from their res dirs
+ * @returns Number of files deleted
+ */
+export async function deleteUnusedDrawables(
+    resDirs: AndroidResourceDir[],
+    issues: UnusedDrawableIssue[],
+    onProgress?: (current: number, total: number, fileName: string) => void
+): Promise<number> {
+    const toDelete = issues.flatMap(issue => issue.files.map(file => ({ path: issue.path, ...file })))
+
+    for (let i = 0; i < toDelete.length; i++) {
+        const file = toDelete[i]
+        onProgress?.(i, toDelete.length, getFilePath(file))
+
+        const resDir = resDirs.find(d => d.path === file.path)
+        if (!resDir) throw new Error(`Unknown res dir: ${file.path}`)
+        const dirHandle = await resDir.handle.getDirectoryHandle(file.folder)
+        await dirHandle.removeEntry(file.fileName)
+    }
+
+    onProgress?.(toDelete.length, toDelete.length, '')
+    return toDelete.length
+}
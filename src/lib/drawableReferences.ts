@@ -0,0 +1,60 @@
+/**
+ * Project-wide index of drawable references
+ * Collects the names used as @drawable/x (layouts, menus, navigation graphs,
+ * other drawables, themes, AndroidManifest.xml…), R.drawable.x (Kotlin/Java)
+ * and Res.drawable.x (Compose Multiplatform). Names built at runtime, e.g.
+ * with Resources.getIdentifier(), cannot be found this way.
+ */
+
+// Same folders findAndroidResourceDirectories skips
+const IGNORED_DIRECTORIES = ['.git', '.gradle', '.idea', 'build', 'node_modules']
+
+const SOURCE_EXTENSIONS = ['.xml', '.kt', '.kts', '.java']
+
+const REFERENCE_PATTERNS = [
+    /@drawable\/([A-Za-z0-9_]+)/g,
+    /\bR\.drawable\.([A-Za-z0-9_]+)/g,
+    /\bRes\.drawable\.([A-Za-z0-9_]+)/g,
+]
+
+/**
+ * Add the drawable names referenced in a source or resource file
+ */
+export function collectDrawableReferences(content: string, references: Set<string>) {
+    for (const pattern of REFERENCE_PATTERNS) {
+        for (const match of content.matchAll(pattern)) {
+            references.add(match[1])
+        }
+    }
+}
+
+async function listSourceFiles(dirHandle: FileSystemDirectoryHandle, files: FileSystemFileHandle[]) {
+    for await (const entry of dirHandle.values()) {
+        if (entry.kind === 'directory') {
+            if (IGNORED_DIRECTORIES.includes(entry.name)) continue
+            await listSourceFiles(await dirHandle.getDirectoryHandle(entry.name), files)
+        } else if (SOURCE_EXTENSIONS.some(ext => entry.name.endsWith(ext))) {
+            files.push(entry as FileSystemFileHandle)
+        }
+    }
+}
+
+/**
+ * Read every XML, Kotlin and Java file of the project and collect the drawable names they reference
+ */
+export async function buildReferenceIndex(
+    rootHandle: FileSystemDirectoryHandle,
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal
+): Promise<Set<string>> {
+    const files: FileSystemFileHandle[] = []
+    await listSourceFiles(rootHandle, files)
+
+    const references = new Set<string>()
+    for (const [i, handle] of files.entries()) {
+        signal?.throwIfAborted()
+        onProgress?.(i, files.length)
+        collectDrawableReferences(await (await handle.getFile()).text(), references)
+    }
+    return references
+}
@@ -0,0 +1,143 @@
+/**
+ * Output encoders for converted drawables
+ * Each format maps the shared quality / lossless settings onto its own encoder:
+ * - WebP: quality, or compression effort when lossless (libwebp, plus `WebPOptions`)
+ * - PNG: palette size of the quantized image, or oxipng effort when lossless
+ * - AVIF: quality, or encoder effort when lossless (libavif)
+ * Size-budgeted WebP searches the quality instead of taking it from the config.
+ */
+
+import { encode as encodeAvif } from '@jsquash/avif'
+import { optimise as optimisePng } from '@jsquash/oxipng'
+import { applyPaletteSync, buildPaletteSync, utils as quantizeUtils } from 'image-q'
+import { BudgetResult, OutputFormat, WebPOptions } from '@/types'
+import { getPaletteColors, imageDataToWebP } from './imageUtils'
+
+export const OUTPUT_MIME_TYPES: Record<OutputFormat, string> = {
+    webp: 'image/webp',
+    png: 'image/png',
+    avif: 'image/avif',
+}
+
+/**
+ * Map 0-100 compression effort onto an encoder's effort range
+ */
+function effortToLevel(effort: number, min: number, max: number): number {
+    return Math.round(min + (max - min) * (effort / 100))
+}
+
+/**
+ * Reduce an image to a palette (Wu quantization with Floyd-Steinberg dithering)
+ */
+function quantizeImageData(imageData: ImageData, colors: number): ImageData {
+    const points = quantizeUtils.PointContainer.fromUint8Array(imageData.data, imageData.width, imageData.height)
+    const palette = buildPaletteSync([points], {
+        colors,
+        paletteQuantization: 'wuquant',
+        colorDistanceFormula: 'euclidean-bt709',
+    })
+    const quantized = applyPaletteSync(points, palette, { imageQuantization: 'floyd-steinberg' })
+    return new ImageData(new Uint8ClampedArray(quantized.toUint8Array()), imageData.width, imageData.height)
+}
+
+/**
+ * Encode raw pixels to an optimized PNG. Lossy mode quantizes to a palette
+ * first; oxipng then picks the smallest color type (palette for ≤256 colors).
+ */
+export function imageDataToPng(
+    imageData: ImageData,
+    quality: number,
+    lossless: boolean = false
+): Promise<ArrayBuffer> {
+    if (lossless) {
+        return optimisePng(imageData, { level: effortToLevel(quality, 1, 6) })
+    }
+
+    return optimisePng(quantizeImageData(imageData, getPaletteColors(quality)), { level: 2 })
+}
+
+/**
+ * Encode raw pixels to AVIF (decodable on Android 12+)
+ */
+export function imageDataToAvif(
+    imageData: ImageData,
+    quality: number,
+    lossless: boolean = false
+): Promise<ArrayBuffer> {
+    if (lossless) {
+        // libavif speed: 0 = slowest/smallest, 10 = fastest
+        return encodeAvif(imageData, { lossless: true, speed: effortToLevel(100 - quality, 2, 9) })
+    }
+    return encodeAvif(imageData, { quality, speed: 6 })
+}
+
+// Lossless candidates of a size budget use the smallest (slowest) setting
+const BUDGET_LOSSLESS_EFFORT = 100
+
+/**
+ * Encode raw pixels to the highest-quality WebP that fits in `maxBytes`.
+ * Binary-searches the lossy quality (~7 encodes), then also tries lossless
+ * and keeps it when it is smaller than the best lossy fit. If nothing fits,
+ * the smallest encoding is returned with `fits: false`.
+ */
+export async function imageDataToWebPWithinBudget(
+    imageData: ImageData,
+    maxBytes: number,
+    options?: WebPOptions
+): Promise<{ buffer: ArrayBuffer; budget: BudgetResult }> {
+    let best: { buffer: ArrayBuffer; quality: number } | null = null
+    let smallest: { buffer: ArrayBuffer; quality: number } | null = null
+    let low = 0
+    let high = 100
+    while (low <= high) {
+        const quality = Math.floor((low + high) / 2)
+        const buffer = await imageDataToWebP(imageData, quality, false, options)
+        if (buffer.byteLength <= maxBytes) {
+            best = { buffer, quality }
+            low = quality + 1
+        } else {
+            // Failing qualities only move down, so the last one is quality 0
+            smallest = { buffer, quality }
+            high = quality - 1
+        }
+    }
+
+    const lossless = await imageDataToWebP(imageData, BUDGET_LOSSLESS_EFFORT, true, options)
+    const lossy = best || smallest!
+    if (lossless.byteLength <= lossy.buffer.byteLength) {
+        return {
+            buffer: lossless,
+            budget: {
+                quality: BUDGET_LOSSLESS_EFFORT,
+                lossless: true,
+                size: lossless.byteLength,
+                maxBytes,
+                fits: lossless.byteLength <= maxBytes,
+            },
+        }
+    }
+    return {
+        buffer: lossy.buffer,
+        budget: { quality: lossy.quality, lossless: false, size: lossy.buffer.byteLength, maxBytes, fits: !!best },
+    }
+}
+
+/**
+ * Encode raw pixels in the given output format
+ */
+export function encodeImageData(
+    imageData: ImageData,
+    format: OutputFormat,
+    quality: number,
+    lossless: boolean,
+    webpOptions?: WebPOptions
+): Promise<ArrayBuffer> {
+    switch (format) {
+        case 'png':
+            return imageDataToPng(imageData, quality, lossless)
+        case 'avif':
+            return imageDataToAvif(imageData, quality, lossless)
+        default:
+            return imageDataToWebP(imageData, quality, lossless, webpOptions)
+    }
+}
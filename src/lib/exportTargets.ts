@@ -0,0 +1,188 @@
+/**
+ * Export targets
+ * A target decides which densities are rendered, which formats the platform
+ * can load and where each file goes in the ZIP. Android is the default;
+ * Compose Multiplatform keeps its densities, other platforms reuse the
+ * Android density buckets as 1x/2x/3x scales.
+ */
+
+import { ConvertConfig, ConvertedImage, ExportTargetId, OutputFormat } from '@/types'
+import { DENSITY_ORDER } from './imageUtils'
+import { QUALIFIER_KEYS, QualifierKey, limitQualifiers } from './qualifiers'
+
+type DensityName = typeof DENSITY_ORDER[number]
+
+// Extra text file written next to the images, e.g. an asset catalog Contents.json
+export interface TargetFile {
+    path: string
+    content: string
+}
+
+export interface ExportTarget {
+    id: ExportTargetId
+    label: string
+    // Density → scale label rendered for this target; null = the densities selected in the config
+    scales: Partial<Record<DensityName, string>> | null
+    formats: OutputFormat[]     // formats the platform can load, others fall back to the first
+    vectorDrawables: boolean    // can ship SVGs as VectorDrawable XML instead of bitmaps
+    animated: boolean           // can play animated WebP, others get the first frame of animations
+    qualifiers: QualifierKey[]  // resource qualifier types the platform resolves, besides night and density
+    archiveName: string         // ZIP name of a batch download, without extension
+    getPath: (name: string, image: ConvertedImage) => string
+    getAssetFiles?: (name: string, images: ConvertedImage[]) => TargetFile[]
+    rootFiles?: TargetFile[]
+}
+
+// Scales shared by iOS, Flutter and React Native (mdpi = 1x)
+const STANDARD_SCALES: Partial<Record<DensityName, string>> = { mdpi: '1x', xhdpi: '2x', xxhdpi: '3x' }
+
+const XCODE_INFO = { author: 'xcode', version: 1 }
+
+function getScale(target: ExportTarget, image: ConvertedImage): string {
+    return target.scales?.[image.densityName as DensityName] ?? '1x'
+}
+
+const ANDROID_TARGET: ExportTarget = {
+    id: 'android',
+    label: 'Android',
+    scales: null,
+    formats: ['webp', 'png', 'avif'],
+    vectorDrawables: true,
+    animated: true,
+    qualifiers: QUALIFIER_KEYS,
+    archiveName: 'drawable-resources',
+    getPath: (name, image) => `${image.density}/${name}.${image.extension}`,
+}
+
+/**
+ * Map an Android drawable folder onto Compose Multiplatform qualifiers, which
+ * use 'dark' instead of 'night': drawable-night-xhdpi → drawable-xhdpi-dark
+ */
+export function getComposeFolder(folder: string): string {
+    const parts = folder.split('-')
+    if (!parts.includes('night')) return folder
+    return [...parts.filter(part => part !== 'night'), 'dark'].join('-')
+}
+
+// composeResources/drawable-xxhdpi/<name>.webp, read by the Compose resources Gradle plugin
+const COMPOSE_TARGET: ExportTarget = {
+    id: 'compose',
+    label: 'Compose Multiplatform',
+    scales: null,
+    // Skia on iOS/desktop/web has no AVIF decoder
+    formats: ['webp', 'png'],
+    vectorDrawables: true,
+    animated: false,
+    // Compose resources only resolve language/region, theme and density
+    qualifiers: ['locales'],
+    archiveName: 'compose-resources',
+    getPath: (name, image) => `composeResources/${getComposeFolder(image.density)}/${name}.${image.extension}`,
+}
+
+// Assets.xcassets/<name>.imageset/<name>@2x.png, described by the image set's Contents.json
+const IOS_TARGET: ExportTarget = {
+    id: 'ios',
+    label: 'iOS',
+    scales: STANDARD_SCALES,
+    formats: ['png'],
+    vectorDrawables: false,
+    animated: false,
+    qualifiers: [],
+    archiveName: 'ios-assets',
+    getPath: (name, image) => `Assets.xcassets/${name}.imageset/${getIosFileName(name, image)}`,
+    getAssetFiles: (name, images) => [{
+        path: `Assets.xcassets/${name}.imageset/Contents.json`,
+        content: JSON.stringify({
+            images: images.map(image => ({
+                filename: getIosFileName(name, image),
+                idiom: 'universal',
+                scale: getScale(IOS_TARGET, image),
+            })),
+            info: XCODE_INFO,
+        }, null, 2) + '\n',
+    }],
+    rootFiles: [{ path: 'Assets.xcassets/Contents.json', content: JSON.stringify({ info: XCODE_INFO }, null, 2) + '\n' }],
+}
+
+function getIosFileName(name: string, image: ConvertedImage): string {
+    const scale = getScale(IOS_TARGET, image)
+    return scale === '1x' ? `${name}.${image.extension}` : `${name}@${scale}.${image.extension}`
+}
+
+// assets/<name>.png with resolution-aware variants in assets/2.0x/ and assets/3.0x/
+const FLUTTER_TARGET: ExportTarget = {
+    id: 'flutter',
+    label: 'Flutter',
+    scales: STANDARD_SCALES,
+    formats: ['webp', 'png'],
+    vectorDrawables: false,
+    animated: false,
+    qualifiers: [],
+    archiveName: 'flutter-assets',
+    getPath: (name, image) => {
+        const scale = parseFloat(getScale(FLUTTER_TARGET, image))
+        return scale === 1
+            ? `assets/${name}.${image.extension}`
+            : `assets/${scale.toFixed(1)}x/${name}.${image.extension}`
+    },
+}
+
+// <name>.png / <name>@2x.png / <name>@3x.png, picked by the Metro bundler
+const REACT_NATIVE_TARGET: ExportTarget = {
+    id: 'react-native',
+    label: 'React Native',
+    scales: STANDARD_SCALES,
+    // iOS cannot decode WebP without an extra library
+    formats: ['png'],
+    vectorDrawables: false,
+    animated: false,
+    qualifiers: [],
+    archiveName: 'react-native-assets',
+    getPath: (name, image) => {
+        const scale = getScale(REACT_NATIVE_TARGET, image)
+        return scale === '1x' ? `${name}.${image.extension}` : `${name}@${scale}.${image.extension}`
+    },
+}
+
+export const EXPORT_TARGETS: ExportTarget[] = [ANDROID_TARGET, COMPOSE_TARGET, IOS_TARGET, FLUTTER_TARGET, REACT_NATIVE_TARGET]
+
+export function getExportTarget(id: ExportTargetId): ExportTarget {
+    return EXPORT_TARGETS.find(target => target.id === id) || ANDROID_TARGET
+}
+
+/**
+ * Get the output format used for a target: the configured one when the platform supports it
+ */
+export function getTargetFormat(target: ExportTarget, format: OutputFormat): OutputFormat {
+    return target.formats.includes(format) ? format : target.formats[0]
+}
+
+/**
+ * Adapt a file's config to a target: formats and qualifiers it can load, plus
+ * its own scales (without night folders) when it has them
+ */
+export function getTargetConfig(target: ExportTarget, config: ConvertConfig): ConvertConfig {
+    const format = getTargetFormat(target, config.format)
+    const qualifiers = limitQualifiers(config.qualifiers, target.qualifiers)
+    if (!target.scales) return { ...config, format, qualifiers }
+    return {
+        ...config,
+        format,
+        qualifiers,
+        selectedDensities: Object.keys(target.scales),
+        nightMode: false,
+    }
+}
+
+/**
+ * Get every file of one converted image set in the target's layout. Images
+ * with a name suffix (color variants) are resources of their own.
+ */
+export function getTargetFiles(target: ExportTarget, name: string, images: ConvertedImage[]): { path: string; content: Blob | string }[] {
+    const suffixes = Array.from(new Set(images.map(image => image.nameSuffix ?? '')))
+    return [
+        ...images.map(image => ({ path: target.getPath(name + (image.nameSuffix ?? ''), image), content: image.blob })),
+        ...suffixes.flatMap(suffix =>
+            target.getAssetFiles?.(name + suffix, images.filter(image => (image.nameSuffix ?? '') === suffix)) ?? []),
+    ]
+}
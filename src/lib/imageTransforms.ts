@@ -0,0 +1,188 @@
+/**
+ * Canvas transforms applied before scaling
+ * Icons exported from design tools often carry uneven transparent margins.
+ * A still bitmap can be trimmed to its content, padded by a margin in dp,
+ * centered on a square canvas and grown so that every density gets whole,
+ * ideally even, pixel sizes. The settings are stored per file; the resulting
+ * TransformLayout is derived per conversion because padding and snapping
+ * depend on the input scale and the selected densities.
+ */
+
+import { ConvertConfig, ImageFile, ImageTransform, PixelRect, ProcessingFile, ResampleFilter, TransformLayout } from '@/types'
+import { getDensityFactor } from './imageUtils'
+import { resampleImageData } from './resample'
+
+export const DEFAULT_IMAGE_TRANSFORM: ImageTransform = {
+    trim: true,
+    trimThreshold: 0,
+    paddingDp: 0,
+    square: false,
+    snap: false,
+}
+
+// Largest canvas step in dp tried when snapping
+const MAX_SNAP_STEP = 16
+
+// Largest multiple of the dp step tried to get a whole number of source pixels
+const MAX_SNAP_MULTIPLE = 16
+
+function isWhole(value: number): boolean {
+    return Math.abs(value - Math.round(value)) < 1e-6
+}
+
+/**
+ * Whether a file can be transformed: vector sources are rendered per density,
+ * nine-patch borders must stay on the edge and animation frames may move
+ */
+export function canTransform(file: ImageFile): boolean {
+    return !file.vectorSource && !file.ninePatch && !file.animation
+}
+
+/**
+ * Bounding box of the pixels whose alpha is above `threshold`, or null when
+ * the whole image is transparent
+ */
+export function findContentBounds(imageData: ImageData, threshold: number): PixelRect | null {
+    const { data, width, height } = imageData
+    let left = width, top = height, right = -1, bottom = -1
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] <= threshold) continue
+            if (x < left) left = x
+            if (x > right) right = x
+            if (y < top) top = y
+            bottom = y
+        }
+    }
+    return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 }
+}
+
+/**
+ * Decode a source and measure its content box. Fully transparent images keep
+ * their whole area.
+ */
+export async function measureContentBounds(file: File, threshold: number): Promise<PixelRect> {
+    const bitmap = await createImageBitmap(file)
+    try {
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+        const ctx = canvas.getContext('2d')
+        if (!ctx) throw new Error('Failed to get canvas context')
+        ctx.drawImage(bitmap, 0, 0)
+        const bounds = findContentBounds(ctx.getImageData(0, 0, bitmap.width, bitmap.height), threshold)
+        return bounds || { x: 0, y: 0, width: bitmap.width, height: bitmap.height }
+    } finally {
+        bitmap.close()
+    }
+}
+
+/**
+ * Smallest canvas step in dp that gives every density whole pixel sizes,
+ * even ones when possible. Densities that never land on whole pixels within
+ * the search range (tvdpi) are left out and returned as `skipped`.
+ */
+export function getSnapStep(densities: string[], customDensities: ConvertConfig['customDensities'] = []): { step: number; skipped: string[] } {
+    const steps = Array.from({ length: MAX_SNAP_STEP }, (_, i) => i + 1)
+    const snappable = (density: string) => steps.some(step => isWhole(step * getDensityFactor(density, customDensities)))
+    const factors = densities.filter(snappable).map(density => getDensityFactor(density, customDensities))
+
+    const fits = (step: number, even: boolean) => factors.every(factor =>
+        isWhole(step * factor) && (!even || Math.round(step * factor) % 2 === 0))
+
+    return {
+        step: steps.find(step => fits(step, true)) ?? steps.find(step => fits(step, false)) ?? 1,
+        skipped: densities.filter(density => !snappable(density)),
+    }
+}
+
+/**
+ * Canvas step in source pixels for snapping: the smallest multiple of the dp
+ * step that is also a whole number of source pixels, or null when none is
+ * within range (input scales like 1.33)
+ */
+export function getSnapStepPx(step: number, inputScale: number): number | null {
+    for (let multiple = 1; multiple <= MAX_SNAP_MULTIPLE; multiple++) {
+        if (isWhole(step * multiple * inputScale)) return Math.round(step * multiple * inputScale)
+    }
+    return null
+}
+
+/**
+ * Get the layout of a file's transform for a config, or undefined when the
+ * file has none
+ */
+export function getTransformLayout(file: ProcessingFile, config: ConvertConfig): TransformLayout | undefined {
+    const { transform } = file
+    if (!transform || !canTransform(file)) return undefined
+
+    const crop = transform.trim && transform.trimBounds
+        ? transform.trimBounds
+        : { x: 0, y: 0, width: file.width, height: file.height }
+
+    // The input scale is the number of source pixels per dp
+    const padding = Math.max(0, Math.round(transform.paddingDp * config.inputScale))
+    let width = crop.width + padding * 2
+    let height = crop.height + padding * 2
+
+    if (transform.square) {
+        width = height = Math.max(width, height)
+    }
+
+    let snapSkipped: string[] | undefined
+    let snapUnavailable: boolean | undefined
+    if (transform.snap) {
+        const { step, skipped } = getSnapStep(config.selectedDensities, config.customDensities)
+        const stepPx = getSnapStepPx(step, config.inputScale)
+        if (stepPx) {
+            width = Math.ceil(width / stepPx) * stepPx
+            height = Math.ceil(height / stepPx) * stepPx
+        } else {
+            snapUnavailable = true
+        }
+        if (skipped.length > 0) snapSkipped = skipped
+    }
+
+    return {
+        sourceWidth: file.width,
+        sourceHeight: file.height,
+        crop,
+        x: Math.floor((width - crop.width) / 2),
+        y: Math.floor((height - crop.height) / 2),
+        width,
+        height,
+        snapSkipped,
+        snapUnavailable,
+    }
+}
+
+/**
+ * Draw the cropped source on its new canvas. Sources of another size than
+ * the layout's (a dark variant) are cropped proportionally and resized with
+ * `filter`, like the light version is later on.
+ */
+export function renderTransform(bitmap: ImageBitmap, layout: TransformLayout, filter: ResampleFilter): ImageData {
+    const scaleX = bitmap.width / layout.sourceWidth
+    const scaleY = bitmap.height / layout.sourceHeight
+    const { crop } = layout
+
+    const canvas = new OffscreenCanvas(layout.width, layout.height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Failed to get canvas context')
+    if (scaleX === 1 && scaleY === 1) {
+        ctx.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, layout.x, layout.y, crop.width, crop.height)
+        return ctx.getImageData(0, 0, layout.width, layout.height)
+    }
+
+    const source = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const sourceCtx = source.getContext('2d')
+    if (!sourceCtx) throw new Error('Failed to get canvas context')
+    sourceCtx.drawImage(bitmap, 0, 0)
+    const left = Math.round(crop.x * scaleX)
+    const top = Math.round(crop.y * scaleY)
+    const cropped = sourceCtx.getImageData(
+        left, top,
+        Math.max(1, Math.min(bitmap.width - left, Math.round(crop.width * scaleX))),
+        Math.max(1, Math.min(bitmap.height - top, Math.round(crop.height * scaleY)))
+    )
+    ctx.putImageData(resampleImageData(cropped, crop.width, crop.height, filter), layout.x, layout.y)
+    return ctx.getImageData(0, 0, layout.width, layout.height)
+}
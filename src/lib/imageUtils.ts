@@ -1,5 +1,10 @@
-import { ImageFile } from '@/types'
+import { CustomDensity, ImageFile, WebPOptions } from '@/types'
 import { encode as encodeWebP } from '@jsquash/webp'
+import { DEFAULT_WEBP_OPTIONS, getWebPEncodeOptions } from './webpOptions'
+import { convertSvgToVectorDrawable } from './vectorDrawable'
+import { getPdfPageSize, createPdfPreview } from './vectorRaster'
+import { isNinePatchFile } from './ninePatch'
+import { getAnimationInfo } from './animation'
 
 export function getImageDimensions(file: File): Promise<{ width: number; height: number }> {
   return new Promise((resolve, reject) => {
@@ -20,11 +25,46 @@ export function getImageDimensions(file: File): Promise<{ width: number; height:
   })
 }
 
+/**
+ * Check whether a file is an SVG source (converted to VectorDrawable, not rasterized)
+ */
+export function isSvgFile(file: File): boolean {
+  return file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')
+}
+
+/**
+ * Check whether a file is a PDF source (rasterized per density)
+ */
+export function isPdfFile(file: File): boolean {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
+}
+
 export function createImageFile(file: File): Promise<ImageFile> {
   return new Promise(async (resolve, reject) => {
     try {
-      const dimensions = await getImageDimensions(file)
-      const preview = URL.createObjectURL(file)
+      let dimensions: { width: number; height: number }
+      let preview: string
+      let vectorDrawable: ImageFile['vectorDrawable']
+      let vectorSource: ImageFile['vectorSource']
+
+      if (isSvgFile(file)) {
+        // SVGs may lack an intrinsic size, so take it from the converted vector instead of <img>
+        vectorDrawable = convertSvgToVectorDrawable(await file.text())
+        dimensions = vectorDrawable
+        vectorSource = { format: 'svg', widthDp: vectorDrawable.width, heightDp: vectorDrawable.height }
+        preview = URL.createObjectURL(file)
+      } else if (isPdfFile(file)) {
+        const pageSize = await getPdfPageSize(file)
+        dimensions = { width: Math.round(pageSize.width), height: Math.round(pageSize.height) }
+        vectorSource = { format: 'pdf', widthDp: dimensions.width, heightDp: dimensions.height }
+        preview = URL.createObjectURL(await createPdfPreview(file))
+      } else {
+        dimensions = await getImageDimensions(file)
+        preview = URL.createObjectURL(file)
+      }
+      const ninePatch = isNinePatchFile(file.name)
+      // Nine-patch borders cannot animate, they keep their first frame
+      const animation = !vectorSource && !ninePatch ? await getAnimationInfo(file) : undefined
 
       resolve({
         id: `${Date.now()}-${Math.random()}`,
@@ -34,6 +74,10 @@ export function createImageFile(file: File): Promise<ImageFile> {
         height: dimensions.height,
         size: file.size,
         preview,
+        vectorDrawable,
+        vectorSource,
+        ninePatch: ninePatch || undefined,
+        animation,
       })
     } catch (error) {
       reject(error)
@@ -61,35 +105,101 @@ export function resizeImage(
  * @param canvas - The canvas element to convert
  * @param quality - 0-100, for lossy: visual quality, for lossless: compression effort
  * @param lossless - true for lossless encoding (like AS "Lossless encoding" option)
+ * @param options - advanced libwebp settings, Android Studio's defaults when omitted
  */
 export async function canvasToWebP(
   canvas: HTMLCanvasElement,
   quality: number,
-  lossless: boolean = false
+  lossless: boolean = false,
+  options: WebPOptions = DEFAULT_WEBP_OPTIONS
 ): Promise<Blob> {
   const ctx = canvas.getContext('2d')
   if (!ctx) throw new Error('Failed to get canvas context')
 
   const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-
-  // Use libwebp WASM encoder with AS-compatible parameters
-  const webpBuffer = await encodeWebP(imageData, {
-    quality,
-    lossless: lossless ? 1 : 0, // Match AS: 0=lossy, 1=lossless
-    method: 4, // Match AS default compression method (0-6, higher = slower but smaller)
-  })
+  const webpBuffer = await imageDataToWebP(imageData, quality, lossless, options)
 
   return new Blob([webpBuffer], { type: 'image/webp' })
 }
 
-export function calculateDensities(inputScale: number) {
+/**
+ * Encode raw pixels to WebP. Shared by the main thread and the image worker
+ * so both paths produce byte-identical output.
+ */
+export function imageDataToWebP(
+  imageData: ImageData,
+  quality: number,
+  lossless: boolean = false,
+  options: WebPOptions = DEFAULT_WEBP_OPTIONS
+): Promise<ArrayBuffer> {
+  return encodeWebP(imageData, getWebPEncodeOptions(quality, lossless, options))
+}
+
+/**
+ * Palette size used for quantized PNG output (quality 0 → 16 colors, 100 → 256 colors)
+ */
+export function getPaletteColors(quality: number): number {
+  return Math.round(16 + (256 - 16) * (quality / 100))
+}
+
+// Output order of the built-in density folders (matches Android Studio's resource view)
+export const DENSITY_ORDER = ['ldpi', 'mdpi', 'tvdpi', 'hdpi', 'xhdpi', 'xxhdpi', 'xxxhdpi', 'drawable'] as const
+
+// Buckets every app should ship; ldpi/tvdpi are only for TV and legacy devices
+export const STANDARD_DENSITIES = ['mdpi', 'hdpi', 'xhdpi', 'xxhdpi', 'xxxhdpi']
+
+// Pixels per dp for each density bucket
+export const DENSITY_FACTORS: Record<string, number> = {
+  ldpi: 0.75,
+  mdpi: 1,
+  tvdpi: 213 / 160,
+  hdpi: 1.5,
+  xhdpi: 2,
+  xxhdpi: 3,
+  xxxhdpi: 4,
+}
+
+/**
+ * Pixels per dp of a built-in or custom density ('drawable' is treated as mdpi)
+ */
+export function getDensityFactor(densityName: string, customDensities: CustomDensity[] = []): number {
+  const custom = customDensities.find(d => d.name === densityName)
+  return custom ? custom.factor : DENSITY_FACTORS[densityName] ?? 1
+}
+
+/**
+ * All output densities, custom ones sorted in by factor, with 'drawable' last
+ */
+export function getDensityOrder(customDensities: CustomDensity[] = []): string[] {
+  const densities = [...DENSITY_ORDER.filter(d => d !== 'drawable'), ...customDensities.map(d => d.name)]
+  return [
+    ...densities.sort((a, b) => getDensityFactor(a, customDensities) - getDensityFactor(b, customDensities)),
+    'drawable',
+  ]
+}
+
+/**
+ * Scale of each density relative to the input image
+ */
+export function calculateDensities(inputScale: number, densities: string[] = STANDARD_DENSITIES, customDensities: CustomDensity[] = []) {
   const baseScale = 1 / inputScale
+  return Object.fromEntries(densities.map(density =>
+    [density, { scale: baseScale * getDensityFactor(density, customDensities) }]
+  )) as Record<string, { scale: number }>
+}
+
+/**
+ * Whether a custom density name is a numeric Android density qualifier ('280dpi')
+ * that does not clash with a built-in density
+ */
+export function isValidCustomDensityName(name: string): boolean {
+  return /^[1-9]\d*dpi$/.test(name) && !(name in DENSITY_FACTORS)
+}
 
-  return {
-    mdpi: { scale: baseScale * 1 },
-    hdpi: { scale: baseScale * 1.5 },
-    xhdpi: { scale: baseScale * 2 },
-    xxhdpi: { scale: baseScale * 3 },
-    xxxhdpi: { scale: baseScale * 4 },
-  }
+/**
+ * Pixels per dp of a custom density. Android picks the folder by its dpi, so
+ * the factor always follows the name: 280dpi = 280 / 160 = 1.75x
+ */
+export function getCustomDensityFactor(name: string): number {
+  return parseInt(name, 10) / 160
 }
@@ -0,0 +1,99 @@
+/**
+ * Image conversion worker
+ * Resamples a source image with the configured filter and encodes it with the
+ * WASM encoders (WebP, PNG, AVIF), keeping the main thread free while a batch is processed.
+ * Animated sources are resampled frame by frame and muxed into an animated WebP.
+ */
+
+import { AnimationTask, ConvertTask, ConvertTaskResult } from '@/types'
+import { encodeImageData, imageDataToWebPWithinBudget, OUTPUT_MIME_TYPES } from './encoders'
+import { resampleImageData } from './resample'
+import { scaleNinePatch } from './ninePatch'
+import { applyNightTransform } from './darkVariants'
+import { applyRecolor } from './colorVariants'
+import { mirrorImageData } from './qualifiers'
+import { decodeAnimationFrames, muxAnimatedWebP } from './animation'
+import { imageDataToWebP } from './imageUtils'
+import { renderTransform } from './imageTransforms'
+
+interface WorkerRequest {
+    id: number
+    task: ConvertTask
+}
+
+// Per-output edits applied after resampling
+function applyOutputTransforms(imageData: ImageData, task: ConvertTask) {
+    if (task.mirror) mirrorImageData(imageData, task.ninePatch)
+    if (task.recolor) applyRecolor(imageData, task.recolor)
+    if (task.nightTransform) applyNightTransform(imageData, task.nightTransform)
+}
+
+async function runAnimationTask(task: ConvertTask, animation: AnimationTask): Promise<ConvertTaskResult> {
+    const frames = await decodeAnimationFrames(task.source as Blob, animation.mimeType)
+    const encoded: { webp: ArrayBuffer; duration: number }[] = []
+    const stills: NonNullable<ConvertTaskResult['frames']> = []
+    for (const frame of frames) {
+        const imageData = resampleImageData(frame.imageData, task.width, task.height, task.filter)
+        applyOutputTransforms(imageData, task)
+        const webp = await imageDataToWebP(imageData, task.quality, task.lossless, task.webp)
+        encoded.push({ webp, duration: frame.duration })
+        if (animation.frames) {
+            const buffer = task.format === 'webp' ? webp : await encodeImageData(imageData, task.format, task.quality, task.lossless)
+            stills.push({ buffer, mimeType: OUTPUT_MIME_TYPES[task.format], duration: frame.duration })
+        }
+    }
+
+    const buffer = muxAnimatedWebP(encoded, task.width, task.height, animation.loopCount)
+    return { buffer, mimeType: OUTPUT_MIME_TYPES.webp, frames: animation.frames ? stills : undefined }
+}
+
+async function runTask(task: ConvertTask): Promise<ConvertTaskResult> {
+    if (task.animation) return runAnimationTask(task, task.animation)
+
+    const bitmap = task.source instanceof ImageBitmap ? task.source : await createImageBitmap(task.source)
+    try {
+        let imageData: ImageData
+        if (task.ninePatch) {
+            imageData = scaleNinePatch(bitmap, task.width, task.height, task.filter)
+        } else if (task.transform) {
+            imageData = resampleImageData(renderTransform(bitmap, task.transform, task.filter), task.width, task.height, task.filter)
+        } else {
+            const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+            const ctx = canvas.getContext('2d')
+            if (!ctx) throw new Error('Failed to get canvas context')
+            ctx.drawImage(bitmap, 0, 0)
+            // Pre-rendered vector sources already have the target size and pass through unchanged
+            imageData = resampleImageData(ctx.getImageData(0, 0, bitmap.width, bitmap.height), task.width, task.height, task.filter)
+        }
+
+        applyOutputTransforms(imageData, task)
+
+        const pixels = task.returnPixels ? imageData : undefined
+
+        if (task.maxBytes !== undefined && task.format === 'webp') {
+            const { buffer, budget } = await imageDataToWebPWithinBudget(imageData, task.maxBytes, task.webp)
+            return { buffer, mimeType: OUTPUT_MIME_TYPES.webp, budget, pixels }
+        }
+
+        const buffer = await encodeImageData(imageData, task.format, task.quality, task.lossless, task.webp)
+
+        return { buffer, mimeType: OUTPUT_MIME_TYPES[task.format], pixels }
+    } finally {
+        bitmap.close()
+    }
+}
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+    const { id, task } = e.data
+    try {
+        const result = await runTask(task)
+        const transfer = [
+            result.buffer,
+            ...(result.pixels ? [result.pixels.data.buffer] : []),
+            ...(result.frames ?? []).map(frame => frame.buffer),
+        ]
+        self.postMessage({ id, result }, { transfer })
+    } catch (error) {
+        self.postMessage({ id, error: error instanceof Error ? error.message : String(error) })
+    }
+}
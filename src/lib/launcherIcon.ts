@@ -0,0 +1,264 @@
+/**
+ * Adaptive launcher icon rendering and export
+ * Follows the adaptive icon spec: 108dp layers, a 72dp visible viewport that
+ * launchers mask to their own shape, and a 66dp safe zone for key content.
+ */
+
+import { IconMaskShape, LauncherIconConfig, LauncherLayer } from '@/types'
+import { calculateDensities, canvasToWebP } from './imageUtils'
+
+export const ADAPTIVE_LAYER_DP = 108
+export const ADAPTIVE_VIEWPORT_DP = 72
+export const SAFE_ZONE_DP = 66
+export const LEGACY_ICON_DP = 48
+export const PLAY_STORE_SIZE = 512
+
+// Corner radius of the rounded-square mask, as a fraction of the icon size
+const ROUNDED_SQUARE_RADIUS = 0.2
+// Superellipse exponent used for the squircle mask
+const SQUIRCLE_EXPONENT = 4
+
+export interface LayerImages {
+    foreground?: HTMLImageElement
+    background?: HTMLImageElement
+    monochrome?: HTMLImageElement
+}
+
+export interface LauncherOutputFile {
+    path: string
+    blob: Blob
+}
+
+/**
+ * Load an image element from an object URL
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image()
+        img.onload = () => resolve(img)
+        img.onerror = () => reject(new Error('Failed to load image'))
+        img.src = src
+    })
+}
+
+function createCanvas(size: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+    const canvas = document.createElement('canvas')
+    canvas.width = size
+    canvas.height = size
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Failed to get canvas context')
+    ctx.imageSmoothingQuality = 'high'
+    return [canvas, ctx]
+}
+
+/**
+ * Draw a layer onto a square canvas: a solid fill, or the image fitted to the
+ * layer, scaled by `layer.scale` and centered
+ */
+function drawLayer(ctx: CanvasRenderingContext2D, layer: LauncherLayer, image: HTMLImageElement | undefined, size: number) {
+    if (layer.type === 'color') {
+        ctx.fillStyle = layer.color
+        ctx.fillRect(0, 0, size, size)
+        return
+    }
+    if (!image) return
+
+    const fit = Math.min(size / image.naturalWidth, size / image.naturalHeight) * (layer.scale / 100)
+    const width = image.naturalWidth * fit
+    const height = image.naturalHeight * fit
+    ctx.drawImage(image, (size - width) / 2, (size - height) / 2, width, height)
+}
+
+/**
+ * Render a single full 108dp layer at the given pixel size
+ */
+export function renderLayer(layer: LauncherLayer, image: HTMLImageElement | undefined, size: number): HTMLCanvasElement {
+    const [canvas, ctx] = createCanvas(size)
+    drawLayer(ctx, layer, image, size)
+    return canvas
+}
+
+/**
+ * Trace a launcher mask shape as the current path
+ */
+export function traceMask(ctx: CanvasRenderingContext2D, shape: IconMaskShape, x: number, y: number, size: number) {
+    const r = size / 2
+    const cx = x + r
+    const cy = y + r
+    ctx.beginPath()
+
+    switch (shape) {
+        case 'circle':
+            ctx.arc(cx, cy, r, 0, Math.PI * 2)
+            break
+        case 'squircle': {
+            // |x|^n + |y|^n = r^n, sampled as a polygon
+            const steps = 128
+            for (let i = 0; i <= steps; i++) {
+                const t = (i / steps) * Math.PI * 2
+                const cos = Math.cos(t)
+                const sin = Math.sin(t)
+                const px = cx + r * Math.sign(cos) * Math.pow(Math.abs(cos), 2 / SQUIRCLE_EXPONENT)
+                const py = cy + r * Math.sign(sin) * Math.pow(Math.abs(sin), 2 / SQUIRCLE_EXPONENT)
+                if (i === 0) ctx.moveTo(px, py)
+                else ctx.lineTo(px, py)
+            }
+            break
+        }
+        case 'rounded-square':
+            ctx.roundRect(x, y, size, size, size * ROUNDED_SQUARE_RADIUS)
+            break
+    }
+    ctx.closePath()
+}
+
+/**
+ * Render the visible part of the icon (72dp viewport) as a launcher would,
+ * optionally clipped to a mask shape
+ * @param size - Output size in px of the visible viewport
+ * @param shape - Mask shape, or null for a full-bleed square (Play Store)
+ */
+export function renderMaskedIcon(
+    config: LauncherIconConfig,
+    images: LayerImages,
+    shape: IconMaskShape | null,
+    size: number
+): HTMLCanvasElement {
+    const [canvas, ctx] = createCanvas(size)
+
+    // The 108dp layers overflow the viewport by 18dp on each side
+    const layerSize = size * ADAPTIVE_LAYER_DP / ADAPTIVE_VIEWPORT_DP
+    const offset = (size - layerSize) / 2
+
+    if (shape) {
+        traceMask(ctx, shape, 0, 0, size)
+        ctx.clip()
+    }
+
+    ctx.drawImage(renderLayer(config.background, images.background, Math.round(layerSize)), offset, offset, layerSize, layerSize)
+    ctx.drawImage(renderLayer(config.foreground, images.foreground, Math.round(layerSize)), offset, offset, layerSize, layerSize)
+    return canvas
+}
+
+/**
+ * Render a themed icon preview (Android 13+): the monochrome layer's alpha
+ * tinted with a foreground color on a tonal background
+ */
+export function renderThemedIcon(
+    monochrome: LauncherLayer,
+    image: HTMLImageElement | undefined,
+    shape: IconMaskShape,
+    size: number,
+    tint: { foreground: string; background: string }
+): HTMLCanvasElement {
+    const [canvas, ctx] = createCanvas(size)
+    const layerSize = size * ADAPTIVE_LAYER_DP / ADAPTIVE_VIEWPORT_DP
+    const offset = (size - layerSize) / 2
+
+    traceMask(ctx, shape, 0, 0, size)
+    ctx.clip()
+    ctx.fillStyle = tint.background
+    ctx.fillRect(0, 0, size, size)
+
+    const glyph = renderLayer(monochrome, image, Math.round(layerSize))
+    const glyphCtx = glyph.getContext('2d')!
+    glyphCtx.globalCompositeOperation = 'source-in'
+    glyphCtx.fillStyle = tint.foreground
+    glyphCtx.fillRect(0, 0, glyph.width, glyph.height)
+
+    ctx.drawImage(glyph, offset, offset, layerSize, layerSize)
+    return canvas
+}
+
+/**
+ * Build the <adaptive-icon> XML for mipmap-anydpi-v26
+ */
+export function buildAdaptiveIconXml(config: LauncherIconConfig): string {
+    const background = config.background.type === 'color'
+        ? `@color/${config.name}_background`
+        : `@mipmap/${config.name}_background`
+
+    const lines = [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">',
+        `    <background android:drawable="${background}"/>`,
+        `    <foreground android:drawable="@mipmap/${config.name}_foreground"/>`,
+    ]
+    if (config.monochrome?.file) {
+        lines.push(`    <monochrome android:drawable="@mipmap/${config.name}_monochrome"/>`)
+    }
+    lines.push('</adaptive-icon>', '')
+    return lines.join('\n')
+}
+
+/**
+ * Build values/<name>_background.xml for a solid color background layer
+ */
+function buildBackgroundColorXml(config: LauncherIconConfig): string {
+    return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<resources>',
+        `    <color name="${config.name}_background">${config.background.color.toUpperCase()}</color>`,
+        '</resources>',
+        '',
+    ].join('\n')
+}
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png')
+    })
+}
+
+/**
+ * Generate every launcher icon resource:
+ * - mipmap-<density>/<name>.webp and <name>_round.webp (legacy, 48dp)
+ * - mipmap-<density>/<name>_foreground|_background|_monochrome.webp (108dp layers)
+ * - mipmap-anydpi-v26/<name>.xml and <name>_round.xml
+ * - values/<name>_background.xml for a color background
+ * - <name>-playstore.png (512px)
+ */
+export async function generateLauncherIcons(
+    config: LauncherIconConfig,
+    images: LayerImages,
+    onProgress?: (current: number, total: number) => void
+): Promise<LauncherOutputFile[]> {
+    const { name, quality, lossless } = config
+    const files: LauncherOutputFile[] = []
+    const densities = Object.entries(calculateDensities(1))
+    const encode = (canvas: HTMLCanvasElement) => canvasToWebP(canvas, quality, lossless)
+
+    for (let i = 0; i < densities.length; i++) {
+        const [densityName, { scale }] = densities[i]
+        const folder = `mipmap-${densityName}`
+        const legacySize = Math.round(LEGACY_ICON_DP * scale)
+        const layerSize = Math.round(ADAPTIVE_LAYER_DP * scale)
+
+        files.push({ path: `${folder}/${name}.webp`, blob: await encode(renderMaskedIcon(config, images, 'rounded-square', legacySize)) })
+        files.push({ path: `${folder}/${name}_round.webp`, blob: await encode(renderMaskedIcon(config, images, 'circle', legacySize)) })
+        files.push({ path: `${folder}/${name}_foreground.webp`, blob: await encode(renderLayer(config.foreground, images.foreground, layerSize)) })
+
+        if (config.background.type === 'image') {
+            files.push({ path: `${folder}/${name}_background.webp`, blob: await encode(renderLayer(config.background, images.background, layerSize)) })
+        }
+        if (config.monochrome?.file) {
+            files.push({ path: `${folder}/${name}_monochrome.webp`, blob: await encode(renderLayer(config.monochrome, images.monochrome, layerSize)) })
+        }
+
+        onProgress?.(i + 1, densities.length + 1)
+    }
+
+    const adaptiveXml = new Blob([buildAdaptiveIconXml(config)], { type: 'application/xml' })
+    files.push({ path: `mipmap-anydpi-v26/${name}.xml`, blob: adaptiveXml })
+    files.push({ path: `mipmap-anydpi-v26/${name}_round.xml`, blob: adaptiveXml })
+
+    if (config.background.type === 'color') {
+        files.push({ path: `values/${name}_background.xml`, blob: new Blob([buildBackgroundColorXml(config)], { type: 'application/xml' }) })
+    }
+
+    // Google Play requires a full-bleed 512px 32-bit PNG, it applies its own mask
+    files.push({ path: `${name}-playstore.png`, blob: await canvasToPng(renderMaskedIcon(config, images, null, PLAY_STORE_SIZE)) })
+    onProgress?.(densities.length + 1, densities.length + 1)
+
+    return files
+}
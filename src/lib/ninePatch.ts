@@ -0,0 +1,148 @@
+/**
+ * Nine-patch (.9.png) scaling
+ * The 1px border of a nine-patch encodes stretch regions (top/left) and the
+ * content padding (bottom/right). It must never be resampled with the image,
+ * so the border is read, the content scaled on its own and a crisp border
+ * rebuilt at the new size.
+ */
+
+import { ResampleFilter } from '@/types'
+import { resampleImageData } from './resample'
+
+const NINE_PATCH_PATTERN = /\.9\.png$/i
+
+// A run of marker pixels along one border edge, in content coordinates (end exclusive)
+interface BorderSegment {
+    start: number
+    end: number
+    color: string
+}
+
+interface NinePatchBorder {
+    top: BorderSegment[]
+    bottom: BorderSegment[]
+    left: BorderSegment[]
+    right: BorderSegment[]
+}
+
+/**
+ * Check whether a file name marks a nine-patch image
+ */
+export function isNinePatchFile(name: string): boolean {
+    return NINE_PATCH_PATTERN.test(name)
+}
+
+/**
+ * Strip the '.9.png' suffix from a nine-patch file name
+ */
+export function stripNinePatchSuffix(name: string): string {
+    return name.replace(NINE_PATCH_PATTERN, '')
+}
+
+/**
+ * Classify a border pixel: null for transparent, black for stretch/padding
+ * markers, red for optical (layout) bounds
+ */
+function getMarkerColor(data: Uint8ClampedArray, offset: number): string | null {
+    const [r, g, b, a] = [data[offset], data[offset + 1], data[offset + 2], data[offset + 3]]
+    if (a < 128) return null
+    if (r < 128 && g < 128 && b < 128) return '#000000'
+    if (r >= 128 && g < 128 && b < 128) return '#FF0000'
+    throw new Error(`Invalid nine-patch border pixel rgba(${r}, ${g}, ${b}, ${a})`)
+}
+
+/**
+ * Read the marker runs along one edge, skipping the corner pixels
+ */
+function readEdge(image: ImageData, length: number, pixelAt: (i: number) => number): BorderSegment[] {
+    const segments: BorderSegment[] = []
+    let current: BorderSegment | null = null
+
+    for (let i = 0; i < length; i++) {
+        const color = getMarkerColor(image.data, pixelAt(i + 1) * 4)
+        if (current && current.color === color) {
+            current.end = i + 1
+            continue
+        }
+        if (current) segments.push(current)
+        current = color ? { start: i, end: i + 1, color } : null
+    }
+    if (current) segments.push(current)
+
+    return segments
+}
+
+function readBorder(image: ImageData): NinePatchBorder {
+    const { width, height } = image
+    const contentWidth = width - 2
+    const contentHeight = height - 2
+
+    return {
+        top: readEdge(image, contentWidth, x => x),
+        bottom: readEdge(image, contentWidth, x => (height - 1) * width + x),
+        left: readEdge(image, contentHeight, y => y * width),
+        right: readEdge(image, contentHeight, y => y * width + width - 1),
+    }
+}
+
+/**
+ * Map segments onto a resized edge. Every marker keeps at least 1px so no
+ * stretch or padding region disappears at small densities.
+ */
+function remapSegments(segments: BorderSegment[], from: number, to: number): BorderSegment[] {
+    const scale = to / from
+    return segments.map(segment => {
+        const start = Math.min(to - 1, Math.round(segment.start * scale))
+        const end = Math.min(to, Math.max(start + 1, Math.round(segment.end * scale)))
+        return { ...segment, start, end }
+    })
+}
+
+/**
+ * Scale a nine-patch to the given output size (border included)
+ * @param source - Decoded .9.png, including its 1px border
+ * @param width - Output width including the border
+ * @param height - Output height including the border
+ * @param filter - Resampling filter for the content
+ */
+export function scaleNinePatch(source: ImageBitmap, width: number, height: number, filter: ResampleFilter): ImageData {
+    if (source.width < 3 || source.height < 3) throw new Error('Nine-patch image is too small')
+    if (width < 3 || height < 3) throw new Error('Nine-patch output size is too small')
+
+    const sourceCanvas = new OffscreenCanvas(source.width, source.height)
+    const sourceCtx = sourceCanvas.getContext('2d')
+    if (!sourceCtx) throw new Error('Failed to get canvas context')
+    sourceCtx.drawImage(source, 0, 0)
+    const image = sourceCtx.getImageData(0, 0, source.width, source.height)
+    const border = readBorder(image)
+
+    // Resample the content on its own so the border cannot bleed into its edges
+    const contentWidth = source.width - 2
+    const contentHeight = source.height - 2
+    const outWidth = width - 2
+    const outHeight = height - 2
+    const content = resampleImageData(
+        sourceCtx.getImageData(1, 1, contentWidth, contentHeight),
+        outWidth,
+        outHeight,
+        filter
+    )
+
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Failed to get canvas context')
+    ctx.putImageData(content, 1, 1)
+
+    const drawEdge = (segments: BorderSegment[], from: number, to: number, rect: (s: BorderSegment) => [number, number, number, number]) => {
+        for (const segment of remapSegments(segments, from, to)) {
+            ctx.fillStyle = segment.color
+            ctx.fillRect(...rect(segment))
+        }
+    }
+    drawEdge(border.top, contentWidth, outWidth, s => [s.start + 1, 0, s.end - s.start, 1])
+    drawEdge(border.bottom, contentWidth, outWidth, s => [s.start + 1, height - 1, s.end - s.start, 1])
+    drawEdge(border.left, contentHeight, outHeight, s => [0, s.start + 1, 1, s.end - s.start])
+    drawEdge(border.right, contentHeight, outHeight, s => [width - 1, s.start + 1, 1, s.end - s.start])
+
+    return ctx.getImageData(0, 0, width, height)
+}
@@ -0,0 +1,138 @@
+/**
+ * Write generated drawables straight into an Android project's res directory
+ * Uses File System Access handles, like the String module's merge.
+ */
+
+import { ExistingResourceFile, ProjectExportItem } from '@/types'
+
+// directoryCache key of the last project picked for drawable export
+export const DRAWABLE_PROJECT_KEY = 'drawable-project'
+
+export interface ExportOutput {
+    folder: string
+    fileName: string
+    blob: Blob
+}
+
+/**
+ * Android resource name of a file, e.g. 'ic_logo' for 'ic_logo.9.png'
+ */
+export function getResourceName(fileName: string): string {
+    return fileName.split('.')[0]
+}
+
+/**
+ * Pixel size of a bitmap, or null for XML drawables and unreadable files
+ */
+export async function getImageSize(blob: Blob): Promise<{ width: number; height: number } | null> {
+    try {
+        const bitmap = await createImageBitmap(blob)
+        const size = { width: bitmap.width, height: bitmap.height }
+        bitmap.close()
+        return size
+    } catch {
+        return null
+    }
+}
+
+async function isSameContent(a: Blob, b: Blob): Promise<boolean> {
+    if (a.size !== b.size) return false
+    const [bufferA, bufferB] = await Promise.all([a.arrayBuffer(), b.arrayBuffer()])
+    const bytesA = new Uint8Array(bufferA)
+    const bytesB = new Uint8Array(bufferB)
+    return bytesA.every((byte, i) => byte === bytesB[i])
+}
+
+/**
+ * List the files of a folder by name, or null if the folder does not exist yet
+ */
+async function readFolder(resDir: FileSystemDirectoryHandle, folder: string): Promise<Map<string, FileSystemFileHandle> | null> {
+    let dirHandle: FileSystemDirectoryHandle
+    try {
+        dirHandle = await resDir.getDirectoryHandle(folder)
+    } catch {
+        return null
+    }
+
+    const files = new Map<string, FileSystemFileHandle>()
+    for await (const entry of dirHandle.values()) {
+        if (entry.kind === 'file') {
+            files.set(entry.name, entry as FileSystemFileHandle)
+        }
+    }
+    return files
+}
+
+/**
+ * Compare generated files against the res directory: which are new, which
+ * overwrite an existing file (with its size and dimensions) and which are
+ * byte-identical. Also flags same-named resources with another extension,
+ * which aapt rejects as duplicates.
+ */
+export async function buildExportPlan(
+    resDir: FileSystemDirectoryHandle,
+    outputs: ExportOutput[]
+): Promise<ProjectExportItem[]> {
+    const folders = new Map<string, Map<string, FileSystemFileHandle> | null>()
+    for (const folder of new Set(outputs.map(o => o.folder))) {
+        folders.set(folder, await readFolder(resDir, folder))
+    }
+
+    return Promise.all(outputs.map(async (output): Promise<ProjectExportItem> => {
+        const folderFiles = folders.get(output.folder)
+        const resourceName = getResourceName(output.fileName)
+        const conflicts = folderFiles
+            ? Array.from(folderFiles.keys()).filter(name => name !== output.fileName && getResourceName(name) === resourceName)
+            : []
+
+        const newSize = await getImageSize(output.blob)
+        let existing: ExistingResourceFile | null = null
+        let status: ProjectExportItem['status'] = 'new'
+
+        const existingHandle = folderFiles?.get(output.fileName)
+        if (existingHandle) {
+            const file = await existingHandle.getFile()
+            const size = await getImageSize(file)
+            existing = { size: file.size, width: size?.width ?? null, height: size?.height ?? null }
+            status = await isSameContent(file, output.blob) ? 'unchanged' : 'overwrite'
+        }
+
+        return {
+            ...output,
+            width: newSize?.width ?? null,
+            height: newSize?.height ?? null,
+            existing,
+            status,
+            conflicts,
+        }
+    }))
+}
+
+/**
+ * Write the planned files, creating density folders as needed.
+ * Unchanged files are skipped, and overwrites only when `overwriteExisting` is set.
+ * @returns Number of files written
+ */
+export async function writeExportPlan(
+    resDir: FileSystemDirectoryHandle,
+    items: ProjectExportItem[],
+    overwriteExisting: boolean,
+    onProgress?: (current: number, total: number, fileName: string) => void
+): Promise<number> {
+    const toWrite = items.filter(item => item.status === 'new' || (item.status === 'overwrite' && overwriteExisting))
+
+    for (let i = 0; i < toWrite.length; i++) {
+        const item = toWrite[i]
+        const path = `${item.folder}/${item.fileName}`
+        onProgress?.(i, toWrite.length, path)
+
+        const dirHandle = await resDir.getDirectoryHandle(item.folder, { create: true })
+        const fileHandle = await dirHandle.getFileHandle(item.fileName, { create: true })
+        const writable = await fileHandle.createWritable()
+        await writable.write(item.blob)
+        await writable.close()
+    }
+
+    onProgress?.(toWrite.length, toWrite.length, '')
+    return toWrite.length
+}
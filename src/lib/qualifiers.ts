@@ -0,0 +1,134 @@
+/**
+ * Android resource qualifiers
+ * Builds qualified output folders such as drawable-en-ldrtl-sw600dp-night-xhdpi-v26.
+ * Qualifiers must follow the order aapt expects: locale, layout direction,
+ * smallest width, orientation, night, density, API level. Each configured
+ * value is combined with every other one (fan-out).
+ */
+
+import { QualifierConfig } from '@/types'
+
+// One value per qualifier type, '' = the qualifier is left out
+export interface QualifierChain {
+    locale: string
+    layoutDirection: string
+    smallestWidth: string
+    orientation: string
+    apiLevel: string
+}
+
+// Qualifier types besides night and density, in canonical order
+export type QualifierKey = keyof Omit<QualifierConfig, 'mirrorRtl'>
+
+export const QUALIFIER_KEYS: QualifierKey[] = ['locales', 'layoutDirections', 'smallestWidths', 'orientations', 'apiLevels']
+
+export const LAYOUT_DIRECTIONS = ['ldrtl', 'ldltr']
+export const ORIENTATIONS = ['port', 'land']
+
+const CHAIN_FIELDS: Record<QualifierKey, keyof QualifierChain> = {
+    locales: 'locale',
+    layoutDirections: 'layoutDirection',
+    smallestWidths: 'smallestWidth',
+    orientations: 'orientation',
+    apiLevels: 'apiLevel',
+}
+
+export function getDefaultQualifiers(): QualifierConfig {
+    return { locales: [''], layoutDirections: [''], smallestWidths: [''], orientations: [''], apiLevels: [''], mirrorRtl: false }
+}
+
+/**
+ * Normalize a typed qualifier value, or null when aapt would reject it.
+ * Locales accept 'zh-CN' / 'zh_CN' for 'zh-rCN' and BCP 47 'b+sr+Latn'.
+ */
+export function parseQualifierValue(key: QualifierKey, input: string): string | null {
+    const value = input.trim()
+    switch (key) {
+        case 'locales': {
+            if (/^b\+[a-z]{2,3}(\+[A-Za-z0-9]+)*$/i.test(value)) return value
+            const match = value.match(/^([a-z]{2,3})(?:[-_]r?([a-z]{2}))?$/i)
+            if (!match) return null
+            return match[2] ? `${match[1].toLowerCase()}-r${match[2].toUpperCase()}` : match[1].toLowerCase()
+        }
+        case 'smallestWidths': {
+            const match = value.match(/^(?:sw)?(\d+)(?:dp)?$/i)
+            return match ? `sw${parseInt(match[1])}dp` : null
+        }
+        case 'apiLevels': {
+            const match = value.match(/^v?(\d+)$/i)
+            return match && parseInt(match[1]) > 0 ? `v${parseInt(match[1])}` : null
+        }
+        case 'layoutDirections':
+            return LAYOUT_DIRECTIONS.includes(value) ? value : null
+        case 'orientations':
+            return ORIENTATIONS.includes(value) ? value : null
+    }
+}
+
+/**
+ * Every combination of the configured values. An empty list counts as
+ * unqualified only, so a missing type never drops all outputs.
+ */
+export function getQualifierChains(qualifiers: QualifierConfig): QualifierChain[] {
+    let chains: QualifierChain[] = [{ locale: '', layoutDirection: '', smallestWidth: '', orientation: '', apiLevel: '' }]
+    for (const key of QUALIFIER_KEYS) {
+        const values = qualifiers[key].length > 0 ? Array.from(new Set(qualifiers[key])) : ['']
+        chains = chains.flatMap(chain => values.map(value => ({ ...chain, [CHAIN_FIELDS[key]]: value })))
+    }
+    return chains
+}
+
+/**
+ * Get the output folder of a density within a qualifier chain,
+ * e.g. drawable-ldrtl-night-xhdpi ('drawable' density = no density qualifier)
+ */
+export function getQualifiedFolder(chain: QualifierChain, densityName: string, night: boolean = false): string {
+    return [
+        'drawable',
+        chain.locale,
+        chain.layoutDirection,
+        chain.smallestWidth,
+        chain.orientation,
+        night ? 'night' : '',
+        densityName === 'drawable' ? '' : densityName,
+        chain.apiLevel,
+    ].filter(Boolean).join('-')
+}
+
+/**
+ * Whether a chain's bitmaps are mirrored for right-to-left layouts
+ */
+export function isMirroredChain(chain: QualifierChain, qualifiers: QualifierConfig): boolean {
+    return qualifiers.mirrorRtl && chain.layoutDirection === 'ldrtl'
+}
+
+/**
+ * Keep only the qualifier types a platform understands, the others fall back to unqualified
+ */
+export function limitQualifiers(qualifiers: QualifierConfig, supported: QualifierKey[]): QualifierConfig {
+    const limited = { ...qualifiers }
+    for (const key of QUALIFIER_KEYS) {
+        if (!supported.includes(key)) limited[key] = ['']
+    }
+    return limited
+}
+
+/**
+ * Flip an image horizontally in place. Nine-patches keep their left (stretch)
+ * and right (padding) marker columns where they are.
+ */
+export function mirrorImageData(imageData: ImageData, ninePatch: boolean = false): ImageData {
+    const { width, height } = imageData
+    const pixels = new Uint32Array(imageData.data.buffer, imageData.data.byteOffset, width * height)
+    const start = ninePatch ? 1 : 0
+    const end = ninePatch ? width - 2 : width - 1
+    for (let y = 0; y < height; y++) {
+        const row = y * width
+        for (let left = start, right = end; left < right; left++, right--) {
+            const pixel = pixels[row + left]
+            pixels[row + left] = pixels[row + right]
+            pixels[row + right] = pixel
+        }
+    }
+    return imageData
+}
@@ -0,0 +1,200 @@
+/**
+ * Image resampling with selectable filter kernels
+ * Replaces canvas drawImage (bilinear, aliases on large downscales). Filtering
+ * runs in linear light on premultiplied alpha, so thin strokes keep their
+ * weight and transparent edges don't pick up dark fringes.
+ */
+
+import { ResampleFilter } from '@/types'
+
+interface FilterKernel {
+    support: number             // kernel radius in source pixels at scale 1
+    weight: (x: number) => number
+}
+
+function sinc(x: number): number {
+    if (x === 0) return 1
+    const px = Math.PI * x
+    return Math.sin(px) / px
+}
+
+// Mitchell-Netravali cubic with B = C = 1/3
+function mitchell(x: number): number {
+    const B = 1 / 3
+    const C = 1 / 3
+    const ax = Math.abs(x)
+    if (ax < 1) {
+        return ((12 - 9 * B - 6 * C) * ax ** 3 + (-18 + 12 * B + 6 * C) * ax ** 2 + (6 - 2 * B)) / 6
+    }
+    if (ax < 2) {
+        return ((-B - 6 * C) * ax ** 3 + (6 * B + 30 * C) * ax ** 2 + (-12 * B - 48 * C) * ax + (8 * B + 24 * C)) / 6
+    }
+    return 0
+}
+
+const KERNELS: Record<Exclude<ResampleFilter, 'nearest'>, FilterKernel> = {
+    lanczos3: { support: 3, weight: x => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+    mitchell: { support: 2, weight: mitchell },
+    // Area average: each source pixel counts once, half-open so edges aren't counted twice
+    box: { support: 0.5, weight: x => (x >= -0.5 && x < 0.5 ? 1 : 0) },
+}
+
+// sRGB <-> linear transfer functions, as lookup tables
+const SRGB_TO_LINEAR = new Float32Array(256)
+for (let i = 0; i < 256; i++) {
+    const c = i / 255
+    SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+}
+
+const LINEAR_TO_SRGB_STEPS = 4096
+const LINEAR_TO_SRGB = new Uint8ClampedArray(LINEAR_TO_SRGB_STEPS + 1)
+for (let i = 0; i <= LINEAR_TO_SRGB_STEPS; i++) {
+    const c = i / LINEAR_TO_SRGB_STEPS
+    const s = c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055
+    LINEAR_TO_SRGB[i] = Math.round(s * 255)
+}
+
+interface Contributions {
+    first: Int32Array           // first source index per output pixel
+    weights: Float32Array       // `taps` normalized weights per output pixel
+    taps: number
+}
+
+/**
+ * Precompute the source taps and weights of every output pixel along one axis
+ */
+function computeContributions(srcSize: number, dstSize: number, kernel: FilterKernel): Contributions {
+    const scale = dstSize / srcSize
+    // When downscaling, stretch the kernel to cover every source pixel (anti-aliasing)
+    const filterScale = Math.max(1, 1 / scale)
+    const support = kernel.support * filterScale
+    const taps = Math.ceil(support * 2) + 1
+
+    const first = new Int32Array(dstSize)
+    const weights = new Float32Array(dstSize * taps)
+
+    for (let x = 0; x < dstSize; x++) {
+        const center = (x + 0.5) / scale - 0.5
+        const start = Math.ceil(center - support)
+        first[x] = start
+
+        let total = 0
+        for (let t = 0; t < taps; t++) {
+            const w = kernel.weight((start + t - center) / filterScale)
+            weights[x * taps + t] = w
+            total += w
+        }
+        if (total !== 0) {
+            for (let t = 0; t < taps; t++) weights[x * taps + t] /= total
+        }
+    }
+
+    return { first, weights, taps }
+}
+
+/**
+ * Run one separable pass along an axis. Pixels outside the image repeat the edge pixel.
+ * @param lineCount - Number of lines (rows or columns) orthogonal to the filtered axis
+ * @param srcPixelStride / dstPixelStride - Pixel distance between neighbours along the axis
+ * @param srcLineStride / dstLineStride - Pixel distance between neighbouring lines
+ */
+function resamplePass(
+    src: Float32Array,
+    srcSize: number,
+    dstSize: number,
+    lineCount: number,
+    srcPixelStride: number,
+    srcLineStride: number,
+    dstPixelStride: number,
+    dstLineStride: number,
+    contributions: Contributions
+): Float32Array {
+    const dst = new Float32Array(dstSize * lineCount * 4)
+    const { first, weights, taps } = contributions
+
+    for (let line = 0; line < lineCount; line++) {
+        for (let x = 0; x < dstSize; x++) {
+            let r = 0, g = 0, b = 0, a = 0
+            for (let t = 0; t < taps; t++) {
+                const w = weights[x * taps + t]
+                if (w === 0) continue
+                const s = Math.min(srcSize - 1, Math.max(0, first[x] + t))
+                const i = (line * srcLineStride + s * srcPixelStride) * 4
+                r += src[i] * w
+                g += src[i + 1] * w
+                b += src[i + 2] * w
+                a += src[i + 3] * w
+            }
+            const o = (line * dstLineStride + x * dstPixelStride) * 4
+            dst[o] = r
+            dst[o + 1] = g
+            dst[o + 2] = b
+            dst[o + 3] = a
+        }
+    }
+
+    return dst
+}
+
+/**
+ * Nearest neighbour keeps hard pixel edges (pixel art), no color math needed
+ */
+function resampleNearest(source: ImageData, width: number, height: number): ImageData {
+    const out = new ImageData(width, height)
+    for (let y = 0; y < height; y++) {
+        const sy = Math.min(source.height - 1, Math.floor((y + 0.5) * source.height / height))
+        for (let x = 0; x < width; x++) {
+            const sx = Math.min(source.width - 1, Math.floor((x + 0.5) * source.width / width))
+            const i = (sy * source.width + sx) * 4
+            out.data.set(source.data.subarray(i, i + 4), (y * width + x) * 4)
+        }
+    }
+    return out
+}
+
+/**
+ * Resize raw pixels with the given filter
+ */
+export function resampleImageData(source: ImageData, width: number, height: number, filter: ResampleFilter): ImageData {
+    if (source.width === width && source.height === height) return source
+    if (filter === 'nearest') return resampleNearest(source, width, height)
+
+    const kernel = KERNELS[filter]
+    const { width: srcWidth, height: srcHeight, data } = source
+
+    // Decode to linear light, premultiplied by alpha
+    const linear = new Float32Array(srcWidth * srcHeight * 4)
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255
+        linear[i] = SRGB_TO_LINEAR[data[i]] * alpha
+        linear[i + 1] = SRGB_TO_LINEAR[data[i + 1]] * alpha
+        linear[i + 2] = SRGB_TO_LINEAR[data[i + 2]] * alpha
+        linear[i + 3] = alpha
+    }
+
+    // Horizontal pass (srcWidth → width) over every row, then vertical (srcHeight → height) over every column
+    const horizontal = resamplePass(
+        linear, srcWidth, width, srcHeight,
+        1, srcWidth, 1, width,
+        computeContributions(srcWidth, width, kernel)
+    )
+    const resized = resamplePass(
+        horizontal, srcHeight, height, width,
+        width, 1, width, 1,
+        computeContributions(srcHeight, height, kernel)
+    )
+
+    // Back to sRGB, un-premultiplied. Negative lobes (Lanczos/Mitchell) are clamped.
+    const out = new ImageData(width, height)
+    for (let i = 0; i < resized.length; i += 4) {
+        const alpha = Math.min(1, Math.max(0, resized[i + 3]))
+        if (alpha === 0) continue
+        for (let c = 0; c < 3; c++) {
+            const value = Math.min(1, Math.max(0, resized[i + c] / alpha))
+            out.data[i + c] = LINEAR_TO_SRGB[Math.round(value * LINEAR_TO_SRGB_STEPS)]
+        }
+        out.data[i + 3] = Math.round(alpha * 255)
+    }
+
+    return out
+}
@@ -0,0 +1,134 @@
+/**
+ * Android resource name rules
+ * aapt only accepts file names that are valid Java identifiers made of
+ * lowercase a-z, 0-9 and '_', and two files of one folder may not share a
+ * name even with different extensions (icon.png + icon.webp).
+ */
+
+import { ProcessingFile } from '@/types'
+
+export type ResourceNameError = 'empty' | 'invalidChars' | 'notLetterStart' | 'keyword' | 'duplicate'
+
+// Case conversion applied to {name} by batch rename templates
+export type NameCase = 'keep' | 'snake' | 'lower'
+
+export interface RenameTemplate {
+    template: string            // e.g. 'ic_{name}_24dp'; {index} is the 1-based position in the batch
+    prefix: string
+    suffix: string
+    nameCase: NameCase
+}
+
+export const DEFAULT_RENAME_TEMPLATE: RenameTemplate = { template: '{name}', prefix: '', suffix: '', nameCase: 'snake' }
+
+// Reserved words and literals that cannot be R.drawable field names
+const JAVA_KEYWORDS = new Set([
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+    'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float',
+    'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native',
+    'new', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super',
+    'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while',
+    'true', 'false', 'null',
+])
+
+// Used when nothing of the original name survives, e.g. a name in CJK characters
+const FALLBACK_NAME = 'image'
+const DIGIT_START_PREFIX = 'img_'
+
+/**
+ * Check a single name, without the batch-wide duplicate check
+ */
+export function getResourceNameError(name: string): ResourceNameError | null {
+    if (!name) return 'empty'
+    if (!/^[a-z0-9_]+$/.test(name)) return 'invalidChars'
+    if (!/^[a-z]/.test(name)) return 'notLetterStart'
+    if (JAVA_KEYWORDS.has(name)) return 'keyword'
+    return null
+}
+
+/**
+ * Validate the output names of a batch. Only later files of a duplicate
+ * name are reported, so fixing them keeps the first file's name.
+ */
+export function getResourceNameErrors(files: Pick<ProcessingFile, 'id' | 'outputName'>[]): Map<string, ResourceNameError> {
+    const errors = new Map<string, ResourceNameError>()
+    const seen = new Set<string>()
+    for (const file of files) {
+        const error = getResourceNameError(file.outputName)
+        if (error) {
+            errors.set(file.id, error)
+        } else if (seen.has(file.outputName)) {
+            errors.set(file.id, 'duplicate')
+        }
+        seen.add(file.outputName)
+    }
+    return errors
+}
+
+/**
+ * 'Icon-Home 2' → 'icon_home_2', 'iconHome' → 'icon_home'
+ */
+export function toSnakeCase(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+}
+
+// Append _2, _3… until the name is free
+function makeUnique(name: string, taken: Set<string>): string {
+    if (!taken.has(name)) return name
+    let index = 2
+    while (taken.has(`${name}_${index}`)) index++
+    return `${name}_${index}`
+}
+
+/**
+ * Turn any name into a valid resource name that is not in `taken`
+ */
+export function sanitizeResourceName(name: string, taken: Set<string> = new Set()): string {
+    let result = toSnakeCase(name) || FALLBACK_NAME
+    if (!/^[a-z]/.test(result)) result = `${DIGIT_START_PREFIX}${result}`
+    if (JAVA_KEYWORDS.has(result)) result = `${result}_img`
+    return makeUnique(result, taken)
+}
+
+/**
+ * Sanitize every invalid or duplicate name of a batch, keeping valid names as they are.
+ * Returns the new name of each changed file.
+ */
+export function sanitizeResourceNames(files: Pick<ProcessingFile, 'id' | 'outputName'>[]): Map<string, string> {
+    const errors = getResourceNameErrors(files)
+    // Valid names are reserved first so a fixed name never takes one of them
+    const taken = new Set(files.filter(f => !errors.has(f.id)).map(f => f.outputName))
+    const renamed = new Map<string, string>()
+    for (const file of files) {
+        if (!errors.has(file.id)) continue
+        const name = sanitizeResourceName(file.outputName, taken)
+        taken.add(name)
+        renamed.set(file.id, name)
+    }
+    return renamed
+}
+
+function convertCase(name: string, nameCase: NameCase): string {
+    switch (nameCase) {
+        case 'snake': return toSnakeCase(name)
+        case 'lower': return name.toLowerCase()
+        default: return name
+    }
+}
+
+/**
+ * Build a file's new name from a batch rename template
+ */
+export function applyRenameTemplate({ template, prefix, suffix, nameCase }: RenameTemplate, name: string, index: number): string {
+    const body = (template || '{name}')
+        .split('{name}').join(convertCase(name, nameCase))
+        .split('{index}').join(String(index + 1))
+    return `${prefix}${body}${suffix}`
+}
@@ -0,0 +1,154 @@
+/**
+ * Scale variant detection for design tool exports
+ * Figma/Sketch write the same asset at several scales, either with a name
+ * suffix (`icon@2x.png`) or into scale folders (`2x/icon.png`). Variants are
+ * grouped so only the highest-resolution one is converted, with its scale
+ * as the file's input scale.
+ */
+
+import { isPdfFile, isSvgFile } from './imageUtils'
+import { isNinePatchFile, stripNinePatchSuffix } from './ninePatch'
+
+// A selected or dropped file with its path inside the dropped folder
+export interface SourceFile {
+    file: File
+    path: string                // e.g. 'export/3x/icon.png', just the name for loose files
+}
+
+export interface ScaleGroup {
+    source: SourceFile          // highest-resolution variant, converted
+    baseName: string            // name without scale suffix and extension, e.g. 'icon'
+    inputScale?: number         // undefined when neither the name nor the folder has a scale
+    variants: SourceFile[]      // lower-resolution variants merged into `source`
+}
+
+interface ParsedVariant {
+    key: string                 // identical for every variant of an asset
+    baseName: string
+    scale?: number
+}
+
+const SCALE_SUFFIX = /^(.+)@(\d+(?:\.\d+)?)x$/i
+const SCALE_FOLDER = /^@?(\d+(?:\.\d+)?)x$/i
+
+// Input scales that map onto Android densities (mdpi 1x … xxxhdpi 4x)
+const MIN_SCALE = 1
+const MAX_SCALE = 4
+
+function parseScale(value: string): number | undefined {
+    const scale = parseFloat(value)
+    return scale >= MIN_SCALE && scale <= MAX_SCALE ? scale : undefined
+}
+
+function parseVariant({ file, path }: SourceFile): ParsedVariant {
+    const ninePatch = isNinePatchFile(file.name)
+    const stem = ninePatch ? stripNinePatchSuffix(file.name) : file.name.replace(/\.[^.]+$/, '')
+    const folders = path.split('/').slice(0, -1)
+
+    // Vector sources are resolution independent, never grouped
+    if (isSvgFile(file) || isPdfFile(file)) {
+        return { key: path || file.name, baseName: stem }
+    }
+
+    let baseName = stem
+    let scale: number | undefined
+    const suffix = stem.match(SCALE_SUFFIX)
+    if (suffix && parseScale(suffix[2]) !== undefined) {
+        baseName = suffix[1]
+        scale = parseScale(suffix[2])
+    }
+
+    const folder = folders[folders.length - 1]?.match(SCALE_FOLDER)
+    if (folder && parseScale(folder[1]) !== undefined) {
+        // The folder is not part of the asset's identity: 2x/icon.png and 3x/icon.png are one asset
+        folders.pop()
+        if (scale === undefined) scale = parseScale(folder[1])
+    }
+
+    const kind = ninePatch ? '9.png' : 'bitmap'
+    return { key: [...folders, `${baseName.toLowerCase()}|${kind}`].join('/'), baseName, scale }
+}
+
+/**
+ * Group the scale variants of each asset, keeping input order.
+ * Unsuffixed files count as 1x once another variant of the asset exists.
+ */
+export function groupScaleVariants(sources: SourceFile[]): ScaleGroup[] {
+    const groups = new Map<string, { baseName: string; items: { source: SourceFile; scale?: number }[] }>()
+    for (const source of sources) {
+        const { key, baseName, scale } = parseVariant(source)
+        const group = groups.get(key)
+        if (group) {
+            group.items.push({ source, scale })
+        } else {
+            groups.set(key, { baseName, items: [{ source, scale }] })
+        }
+    }
+
+    return Array.from(groups.values()).map(({ baseName, items }) => {
+        if (items.length === 1) {
+            return { source: items[0].source, baseName, inputScale: items[0].scale, variants: [] }
+        }
+        const ranked = items
+            .map(item => ({ ...item, scale: item.scale ?? MIN_SCALE }))
+            .sort((a, b) => b.scale - a.scale)
+        return {
+            source: ranked[0].source,
+            baseName,
+            inputScale: ranked[0].scale,
+            variants: ranked.slice(1).map(item => item.source),
+        }
+    })
+}
+
+/**
+ * Read the files of a file input, with their folder paths when a folder was selected
+ */
+export function getSelectedFiles(files: FileList): SourceFile[] {
+    return Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name }))
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+// readEntries returns at most 100 entries per call, so read until it returns none
+async function readDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader()
+    const entries: FileSystemEntry[] = []
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+        if (batch.length === 0) return entries
+        entries.push(...batch)
+    }
+}
+
+async function collectEntry(entry: FileSystemEntry, parentPath: string): Promise<SourceFile[]> {
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name
+    if (entry.isFile) {
+        return [{ file: await readEntryFile(entry as FileSystemFileEntry), path }]
+    }
+    if (entry.isDirectory) {
+        const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry)
+        const nested = await Promise.all(children.map(child => collectEntry(child, path)))
+        return nested.flat()
+    }
+    return []
+}
+
+/**
+ * Read dropped files, walking into dropped folders so scale folders can be detected.
+ * Entries must be taken synchronously, before the drop event returns.
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<SourceFile[]> {
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry())
+    // Browsers without entry support: fall back to the flat file list
+    if (entries.length === 0 || entries.some(entry => !entry)) {
+        return getSelectedFiles(dataTransfer.files)
+    }
+
+    const nested = await Promise.all(entries.map(entry => collectEntry(entry!, '')))
+    return nested.flat()
+}
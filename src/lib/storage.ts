@@ -1,6 +1,10 @@
-import { ConvertConfig } from '@/types'
+import { ConvertConfig, LauncherIconConfig, LauncherLayer } from '@/types'
+import { DEFAULT_DARK_SUFFIXES } from './darkVariants'
+import { getDefaultQualifiers } from './qualifiers'
+import { DEFAULT_WEBP_OPTIONS, normalizeWebPOptions } from './webpOptions'
 
 const STORAGE_KEY = 'resbeaver-config'
+const LAUNCHER_STORAGE_KEY = 'resbeaver-launcher-config'
 
 export function saveConfig(config: ConvertConfig) {
   try {
@@ -14,7 +18,9 @@ export function loadConfig(): ConvertConfig | null {
   try {
     const stored = localStorage.getItem(STORAGE_KEY)
     if (stored) {
-      return JSON.parse(stored) as ConvertConfig
+      // Merge with defaults so settings saved by older versions get new fields
+      const config = { ...getDefaultConfig(), ...JSON.parse(stored) } as ConvertConfig
+      return { ...config, webp: normalizeWebPOptions(config.webp) }
     }
   } catch (error) {
     console.error('Failed to load config:', error)
@@ -24,10 +30,63 @@ export function loadConfig(): ConvertConfig | null {
 
 export function getDefaultConfig(): ConvertConfig {
   return {
+    target: 'android',
     inputScale: 3,
+    format: 'webp',
     quality: 75,
     lossless: false,
+    filter: 'lanczos3',
     selectedDensities: ['mdpi', 'hdpi', 'xhdpi', 'xxhdpi'],
     nightMode: false,
+    sizeBudget: { enabled: false, maxKb: 50, densityKb: {} },
+    darkSuffixes: DEFAULT_DARK_SUFFIXES,
+    qualifiers: getDefaultQualifiers(),
+    customDensities: [],
+    webp: DEFAULT_WEBP_OPTIONS,
   }
 }
+
+export function createLayer(type: LauncherLayer['type'], color: string): LauncherLayer {
+  return { type, color, file: null, preview: null, scale: 100 }
+}
+
+export function getDefaultLauncherConfig(): LauncherIconConfig {
+  return {
+    name: 'ic_launcher',
+    foreground: createLayer('image', '#000000'),
+    background: createLayer('color', '#FFFFFF'),
+    monochrome: null,
+    quality: 90,
+    lossless: false,
+  }
+}
+
+/**
+ * Save launcher icon settings. Layer images cannot be persisted, so only
+ * their type, color and scale are kept.
+ */
+export function saveLauncherConfig(config: LauncherIconConfig) {
+  const stripLayer = (layer: LauncherLayer) => ({ ...layer, file: null, preview: null })
+  try {
+    localStorage.setItem(LAUNCHER_STORAGE_KEY, JSON.stringify({
+      ...config,
+      foreground: stripLayer(config.foreground),
+      background: stripLayer(config.background),
+      monochrome: null,
+    }))
+  } catch (error) {
+    console.error('Failed to save launcher config:', error)
+  }
+}
+
+export function loadLauncherConfig(): LauncherIconConfig | null {
+  try {
+    const stored = localStorage.getItem(LAUNCHER_STORAGE_KEY)
+    if (stored) {
+      return { ...getDefaultLauncherConfig(), ...JSON.parse(stored) } as LauncherIconConfig
+    }
+  } catch (error) {
+    console.error('Failed to load launcher config:', error)
+  }
+  return null
+}
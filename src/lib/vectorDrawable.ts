@@ -0,0 +1,1039 @@
+/**
+ * SVG to Android VectorDrawable converter
+ * Translates SVG shapes, groups, transforms, fills, strokes and gradients into
+ * <vector>/<group>/<path> XML. Features VectorDrawable cannot express are
+ * collected in `unsupported` instead of failing the whole file.
+ */
+
+import { VectorDrawableResult } from '@/types'
+
+// 2D affine matrix [a, b, c, d, e, f], same layout as SVG matrix()
+type Matrix = [number, number, number, number, number, number]
+
+interface Bounds {
+    minX: number
+    minY: number
+    maxX: number
+    maxY: number
+}
+
+// Presentation properties resolved for a single element
+interface StyleState {
+    fill: string
+    fillOpacity: number
+    fillRule: string
+    stroke: string
+    strokeOpacity: number
+    strokeWidth: number
+    strokeLinecap: string
+    strokeLinejoin: string
+    strokeMiterlimit: number
+    color: string
+    opacity: number
+}
+
+interface ConvertContext {
+    doc: Document
+    gradients: Map<string, Element>
+    viewport: { width: number; height: number }
+    unsupported: Set<string>
+    usesAapt: boolean
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+const DEFAULT_STYLE: StyleState = {
+    fill: '#000000',
+    fillOpacity: 1,
+    fillRule: 'nonzero',
+    stroke: 'none',
+    strokeOpacity: 1,
+    strokeWidth: 1,
+    strokeLinecap: 'butt',
+    strokeLinejoin: 'miter',
+    strokeMiterlimit: 4,
+    color: '#000000',
+    opacity: 1,
+}
+
+// Elements that carry no drawing of their own and are skipped silently
+const IGNORED_ELEMENTS = new Set([
+    'defs', 'title', 'desc', 'metadata', 'linearGradient', 'radialGradient', 'stop', 'symbol',
+])
+
+// Elements VectorDrawable has no equivalent for
+const UNSUPPORTED_ELEMENTS = new Set([
+    'text', 'image', 'filter', 'mask', 'pattern', 'clipPath', 'marker', 'foreignObject', 'style', 'switch',
+])
+
+// Attributes that change rendering in ways VectorDrawable cannot express
+const UNSUPPORTED_ATTRIBUTES = ['filter', 'mask', 'clip-path', 'stroke-dasharray']
+
+// CSS named colors (CSS Color Module Level 4)
+const NAMED_COLORS: Record<string, string> = {
+    aliceblue: '#f0f8ff',
+    antiquewhite: '#faebd7',
+    aqua: '#00ffff',
+    aquamarine: '#7fffd4',
+    azure: '#f0ffff',
+    beige: '#f5f5dc',
+    bisque: '#ffe4c4',
+    black: '#000000',
+    blanchedalmond: '#ffebcd',
+    blue: '#0000ff',
+    blueviolet: '#8a2be2',
+    brown: '#a52a2a',
+    burlywood: '#deb887',
+    cadetblue: '#5f9ea0',
+    chartreuse: '#7fff00',
+    chocolate: '#d2691e',
+    coral: '#ff7f50',
+    cornflowerblue: '#6495ed',
+    cornsilk: '#fff8dc',
+    crimson: '#dc143c',
+    cyan: '#00ffff',
+    darkblue: '#00008b',
+    darkcyan: '#008b8b',
+    darkgoldenrod: '#b8860b',
+    darkgray: '#a9a9a9',
+    darkgreen: '#006400',
+    darkgrey: '#a9a9a9',
+    darkkhaki: '#bdb76b',
+    darkmagenta: '#8b008b',
+    darkolivegreen: '#556b2f',
+    darkorange: '#ff8c00',
+    darkorchid: '#9932cc',
+    darkred: '#8b0000',
+    darksalmon: '#e9967a',
+    darkseagreen: '#8fbc8f',
+    darkslateblue: '#483d8b',
+    darkslategray: '#2f4f4f',
+    darkslategrey: '#2f4f4f',
+    darkturquoise: '#00ced1',
+    darkviolet: '#9400d3',
+    deeppink: '#ff1493',
+    deepskyblue: '#00bfff',
+    dimgray: '#696969',
+    dimgrey: '#696969',
+    dodgerblue: '#1e90ff',
+    firebrick: '#b22222',
+    floralwhite: '#fffaf0',
+    forestgreen: '#228b22',
+    fuchsia: '#ff00ff',
+    gainsboro: '#dcdcdc',
+    ghostwhite: '#f8f8ff',
+    gold: '#ffd700',
+    goldenrod: '#daa520',
+    gray: '#808080',
+    green: '#008000',
+    greenyellow: '#adff2f',
+    grey: '#808080',
+    honeydew: '#f0fff0',
+    hotpink: '#ff69b4',
+    indianred: '#cd5c5c',
+    indigo: '#4b0082',
+    ivory: '#fffff0',
+    khaki: '#f0e68c',
+    lavender: '#e6e6fa',
+    lavenderblush: '#fff0f5',
+    lawngreen: '#7cfc00',
+    lemonchiffon: '#fffacd',
+    lightblue: '#add8e6',
+    lightcoral: '#f08080',
+    lightcyan: '#e0ffff',
+    lightgoldenrodyellow: '#fafad2',
+    lightgray: '#d3d3d3',
+    lightgreen: '#90ee90',
+    lightgrey: '#d3d3d3',
+    lightpink: '#ffb6c1',
+    lightsalmon: '#ffa07a',
+    lightseagreen: '#20b2aa',
+    lightskyblue: '#87cefa',
+    lightslategray: '#778899',
+    lightslategrey: '#778899',
+    lightsteelblue: '#b0c4de',
+    lightyellow: '#ffffe0',
+    lime: '#00ff00',
+    limegreen: '#32cd32',
+    linen: '#faf0e6',
+    magenta: '#ff00ff',
+    maroon: '#800000',
+    mediumaquamarine: '#66cdaa',
+    mediumblue: '#0000cd',
+    mediumorchid: '#ba55d3',
+    mediumpurple: '#9370db',
+    mediumseagreen: '#3cb371',
+    mediumslateblue: '#7b68ee',
+    mediumspringgreen: '#00fa9a',
+    mediumturquoise: '#48d1cc',
+    mediumvioletred: '#c71585',
+    midnightblue: '#191970',
+    mintcream: '#f5fffa',
+    mistyrose: '#ffe4e1',
+    moccasin: '#ffe4b5',
+    navajowhite: '#ffdead',
+    navy: '#000080',
+    oldlace: '#fdf5e6',
+    olive: '#808000',
+    olivedrab: '#6b8e23',
+    orange: '#ffa500',
+    orangered: '#ff4500',
+    orchid: '#da70d6',
+    palegoldenrod: '#eee8aa',
+    palegreen: '#98fb98',
+    paleturquoise: '#afeeee',
+    palevioletred: '#db7093',
+    papayawhip: '#ffefd5',
+    peachpuff: '#ffdab9',
+    peru: '#cd853f',
+    pink: '#ffc0cb',
+    plum: '#dda0dd',
+    powderblue: '#b0e0e6',
+    purple: '#800080',
+    rebeccapurple: '#663399',
+    red: '#ff0000',
+    rosybrown: '#bc8f8f',
+    royalblue: '#4169e1',
+    saddlebrown: '#8b4513',
+    salmon: '#fa8072',
+    sandybrown: '#f4a460',
+    seagreen: '#2e8b57',
+    seashell: '#fff5ee',
+    sienna: '#a0522d',
+    silver: '#c0c0c0',
+    skyblue: '#87ceeb',
+    slateblue: '#6a5acd',
+    slategray: '#708090',
+    slategrey: '#708090',
+    snow: '#fffafa',
+    springgreen: '#00ff7f',
+    steelblue: '#4682b4',
+    tan: '#d2b48c',
+    teal: '#008080',
+    thistle: '#d8bfd8',
+    tomato: '#ff6347',
+    turquoise: '#40e0d0',
+    violet: '#ee82ee',
+    wheat: '#f5deb3',
+    white: '#ffffff',
+    whitesmoke: '#f5f5f5',
+    yellow: '#ffff00',
+    yellowgreen: '#9acd32',
+    transparent: '#00000000',
+}
+
+/**
+ * Format a number for XML output (max 4 decimals, no trailing zeros)
+ */
+function formatNumber(value: number): string {
+    const rounded = parseFloat(value.toFixed(4))
+    return Object.is(rounded, -0) ? '0' : rounded.toString()
+}
+
+// px per unit of absolute CSS lengths; font-relative ones assume the default 16px font
+const LENGTH_UNITS: Record<string, number> = {
+    px: 1,
+    pt: 4 / 3,
+    pc: 16,
+    in: 96,
+    cm: 96 / 2.54,
+    mm: 96 / 25.4,
+    q: 96 / 101.6,
+    em: 16,
+    rem: 16,
+    ex: 8,
+}
+
+/**
+ * Parse an SVG length into px. Percentages refer to `reference`; unknown
+ * units are treated as px.
+ */
+export function parseLength(value: string | null | undefined, fallback: number, reference?: number): number {
+    if (!value) return fallback
+    const trimmed = value.trim()
+    const num = parseFloat(trimmed)
+    if (isNaN(num)) return fallback
+    if (trimmed.endsWith('%')) {
+        return reference !== undefined ? (num / 100) * reference : fallback
+    }
+    const unit = trimmed.match(/[a-z]+$/i)?.[0].toLowerCase()
+    return unit ? num * (LENGTH_UNITS[unit] ?? 1) : num
+}
+
+/**
+ * Parse a viewBox attribute, or null when missing or empty
+ */
+function parseViewBox(value: string | null): [number, number, number, number] | null {
+    const viewBox = (value || '').split(/[\s,]+/).filter(Boolean).map(parseFloat)
+    return viewBox.length === 4 && viewBox.every(n => !isNaN(n)) && viewBox[2] > 0 && viewBox[3] > 0
+        ? viewBox as [number, number, number, number]
+        : null
+}
+
+/**
+ * Parse a CSS color into RGBA components (0-255, alpha 0-1)
+ */
+function parseColor(value: string): { r: number; g: number; b: number; a: number } | null {
+    const color = (NAMED_COLORS[value.toLowerCase()] || value).trim()
+
+    const hex = color.match(/^#([0-9a-f]{3,8})$/i)
+    if (hex) {
+        let digits = hex[1]
+        if (digits.length === 3 || digits.length === 4) {
+            digits = digits.split('').map(c => c + c).join('')
+        }
+        if (digits.length !== 6 && digits.length !== 8) return null
+        return {
+            r: parseInt(digits.slice(0, 2), 16),
+            g: parseInt(digits.slice(2, 4), 16),
+            b: parseInt(digits.slice(4, 6), 16),
+            a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+        }
+    }
+
+    const rgb = color.match(/^rgba?\(([^)]+)\)$/i)
+    if (rgb) {
+        const parts = rgb[1].split(/[\s,/]+/).filter(Boolean)
+        const channel = (p: string) => p.endsWith('%') ? parseFloat(p) * 2.55 : parseFloat(p)
+        return {
+            r: Math.round(channel(parts[0])),
+            g: Math.round(channel(parts[1])),
+            b: Math.round(channel(parts[2])),
+            a: parts[3] !== undefined ? (parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3])) : 1,
+        }
+    }
+
+    const hsl = color.match(/^hsla?\(([^)]+)\)$/i)
+    if (hsl) {
+        const parts = hsl[1].split(/[\s,/]+/).filter(Boolean)
+        const hue = parseHue(parts[0])
+        const saturation = Math.max(0, Math.min(1, parseFloat(parts[1]) / 100))
+        const lightness = Math.max(0, Math.min(1, parseFloat(parts[2]) / 100))
+        if ([hue, saturation, lightness].some(isNaN)) return null
+        // CSS Color 4 hsl-to-rgb
+        const f = (n: number) => {
+            const k = (n + hue / 30) % 12
+            const a = saturation * Math.min(lightness, 1 - lightness)
+            return (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255
+        }
+        return {
+            r: Math.round(f(0)),
+            g: Math.round(f(8)),
+            b: Math.round(f(4)),
+            a: parts[3] !== undefined ? (parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3])) : 1,
+        }
+    }
+
+    return null
+}
+
+/**
+ * Parse a CSS hue (deg, rad, grad, turn or a bare number of degrees) into 0-360 degrees
+ */
+function parseHue(value: string): number {
+    const num = parseFloat(value)
+    const degrees = value.endsWith('turn') ? num * 360
+        : value.endsWith('grad') ? num * 0.9
+        : value.endsWith('rad') ? num * 180 / Math.PI
+        : num
+    return ((degrees % 360) + 360) % 360
+}
+
+/**
+ * Convert a CSS color to Android #RRGGBB / #AARRGGBB notation
+ */
+function toAndroidColor(value: string, opacity: number = 1): string | null {
+    const rgba = parseColor(value)
+    if (!rgba) return null
+
+    const hex = (n: number) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, '0').toUpperCase()
+    const alpha = rgba.a * opacity
+    const rgbHex = `${hex(rgba.r)}${hex(rgba.g)}${hex(rgba.b)}`
+    return alpha >= 1 ? `#${rgbHex}` : `#${hex(alpha * 255)}${rgbHex}`
+}
+
+function escapeXmlAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
+// ---------------------------------------------------------------------------
+// Transforms
+// ---------------------------------------------------------------------------
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+    return [
+        m1[0] * m2[0] + m1[2] * m2[1],
+        m1[1] * m2[0] + m1[3] * m2[1],
+        m1[0] * m2[2] + m1[2] * m2[3],
+        m1[1] * m2[2] + m1[3] * m2[3],
+        m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+        m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+    ]
+}
+
+/**
+ * Parse an SVG transform list into a single matrix
+ */
+function parseTransform(value: string | null): Matrix {
+    if (!value) return IDENTITY
+
+    let result: Matrix = IDENTITY
+    const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(value)) !== null) {
+        const args = match[2].split(/[\s,]+/).filter(Boolean).map(parseFloat)
+        let m: Matrix = IDENTITY
+
+        switch (match[1]) {
+            case 'matrix':
+                if (args.length === 6) m = args as Matrix
+                break
+            case 'translate':
+                m = [1, 0, 0, 1, args[0] || 0, args[1] || 0]
+                break
+            case 'scale':
+                m = [args[0], 0, 0, args[1] ?? args[0], 0, 0]
+                break
+            case 'rotate': {
+                const rad = (args[0] * Math.PI) / 180
+                const cos = Math.cos(rad)
+                const sin = Math.sin(rad)
+                const cx = args[1] || 0
+                const cy = args[2] || 0
+                m = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy])
+                break
+            }
+            case 'skewX':
+                m = [1, 0, Math.tan((args[0] * Math.PI) / 180), 1, 0, 0]
+                break
+            case 'skewY':
+                m = [1, Math.tan((args[0] * Math.PI) / 180), 0, 1, 0, 0]
+                break
+        }
+        result = multiply(result, m)
+    }
+
+    return result
+}
+
+/**
+ * Decompose a matrix into VectorDrawable group attributes.
+ * A <group> applies scale, then rotation, then translation, so any skew
+ * component cannot be represented and is reported via `skewed`.
+ */
+function decomposeMatrix(m: Matrix): { attrs: [string, string][]; skewed: boolean } {
+    const [a, b, c, d, e, f] = m
+    const scaleX = Math.hypot(a, b)
+    const scaleY = scaleX === 0 ? Math.hypot(c, d) : (a * d - b * c) / scaleX
+    const rotation = (Math.atan2(b, a) * 180) / Math.PI
+    const skewed = Math.abs(a * c + b * d) > 1e-6 * Math.max(1, scaleX * Math.abs(scaleY))
+
+    const attrs: [string, string][] = []
+    if (Math.abs(rotation) > 1e-6) attrs.push(['android:rotation', formatNumber(rotation)])
+    if (Math.abs(scaleX - 1) > 1e-6) attrs.push(['android:scaleX', formatNumber(scaleX)])
+    if (Math.abs(scaleY - 1) > 1e-6) attrs.push(['android:scaleY', formatNumber(scaleY)])
+    if (Math.abs(e) > 1e-6) attrs.push(['android:translateX', formatNumber(e)])
+    if (Math.abs(f) > 1e-6) attrs.push(['android:translateY', formatNumber(f)])
+
+    return { attrs, skewed }
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+function emptyBounds(): Bounds {
+    return { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+}
+
+function includePoint(bounds: Bounds, x: number, y: number) {
+    bounds.minX = Math.min(bounds.minX, x)
+    bounds.minY = Math.min(bounds.minY, y)
+    bounds.maxX = Math.max(bounds.maxX, x)
+    bounds.maxY = Math.max(bounds.maxY, y)
+}
+
+const PATH_ARG_COUNTS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 }
+
+/**
+ * Approximate bounding box of path data. Curve control points are included
+ * and arcs contribute their full ellipse, so the box may be slightly larger
+ * than the exact shape - good enough for objectBoundingBox gradients.
+ */
+function getPathBounds(pathData: string): Bounds {
+    const bounds = emptyBounds()
+    const tokens = pathData.match(/[a-df-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || []
+    let x = 0, y = 0, startX = 0, startY = 0
+    let command = ''
+    let i = 0
+
+    while (i < tokens.length) {
+        if (/^[a-z]$/i.test(tokens[i]) && !/^e$/i.test(tokens[i])) {
+            command = tokens[i++]
+            if (command.toLowerCase() === 'z') {
+                x = startX
+                y = startY
+                continue
+            }
+        }
+
+        const lower = command.toLowerCase()
+        const count = PATH_ARG_COUNTS[lower]
+        if (!count) { i++; continue }
+
+        const args = tokens.slice(i, i + count).map(parseFloat)
+        if (args.length < count || args.some(isNaN)) break
+        i += count
+
+        const relative = command !== command.toUpperCase()
+        const ox = relative ? x : 0
+        const oy = relative ? y : 0
+
+        switch (lower) {
+            case 'h':
+                x = ox + args[0]
+                break
+            case 'v':
+                y = oy + args[0]
+                break
+            case 'a': {
+                const endX = ox + args[5]
+                const endY = oy + args[6]
+                const r = Math.max(Math.abs(args[0]), Math.abs(args[1]))
+                const midX = (x + endX) / 2
+                const midY = (y + endY) / 2
+                const chord = Math.hypot(endX - x, endY - y) / 2
+                // Radius is at least half the chord once the arc is scaled up to fit
+                const radius = Math.max(r, chord)
+                includePoint(bounds, midX - radius, midY - radius)
+                includePoint(bounds, midX + radius, midY + radius)
+                x = endX
+                y = endY
+                break
+            }
+            default:
+                for (let p = 0; p < count; p += 2) {
+                    includePoint(bounds, ox + args[p], oy + args[p + 1])
+                }
+                x = ox + args[count - 2]
+                y = oy + args[count - 1]
+        }
+        includePoint(bounds, x, y)
+
+        if (lower === 'm') {
+            startX = x
+            startY = y
+            // Extra coordinate pairs after a moveto are implicit linetos
+            command = relative ? 'l' : 'L'
+        }
+    }
+
+    return bounds
+}
+
+/**
+ * Convert a basic SVG shape into path data plus its bounding box
+ */
+function shapeToPath(el: Element, viewport: { width: number; height: number }): { d: string; bounds: Bounds } | null {
+    const num = (name: string, reference?: number) => parseLength(el.getAttribute(name), 0, reference)
+    const f = formatNumber
+    const bounds = emptyBounds()
+
+    switch (el.localName) {
+        case 'path': {
+            const d = el.getAttribute('d')
+            return d ? { d: d.trim(), bounds: getPathBounds(d) } : null
+        }
+        case 'rect': {
+            const x = num('x', viewport.width)
+            const y = num('y', viewport.height)
+            const w = num('width', viewport.width)
+            const h = num('height', viewport.height)
+            if (w <= 0 || h <= 0) return null
+
+            let rx = el.hasAttribute('rx') ? num('rx', viewport.width) : NaN
+            let ry = el.hasAttribute('ry') ? num('ry', viewport.height) : NaN
+            if (isNaN(rx)) rx = isNaN(ry) ? 0 : ry
+            if (isNaN(ry)) ry = rx
+            rx = Math.min(rx, w / 2)
+            ry = Math.min(ry, h / 2)
+
+            includePoint(bounds, x, y)
+            includePoint(bounds, x + w, y + h)
+
+            if (rx <= 0 || ry <= 0) {
+                return { d: `M${f(x)},${f(y)}h${f(w)}v${f(h)}h${f(-w)}z`, bounds }
+            }
+            const arc = (dx: number, dy: number) => `a${f(rx)},${f(ry)} 0,0 1,${f(dx)},${f(dy)}`
+            return {
+                d: `M${f(x + rx)},${f(y)}h${f(w - 2 * rx)}${arc(rx, ry)}v${f(h - 2 * ry)}${arc(-rx, ry)}` +
+                    `h${f(-(w - 2 * rx))}${arc(-rx, -ry)}v${f(-(h - 2 * ry))}${arc(rx, -ry)}z`,
+                bounds,
+            }
+        }
+        case 'circle':
+        case 'ellipse': {
+            const cx = num('cx', viewport.width)
+            const cy = num('cy', viewport.height)
+            const rx = el.localName === 'circle' ? num('r', viewport.width) : num('rx', viewport.width)
+            const ry = el.localName === 'circle' ? rx : num('ry', viewport.height)
+            if (rx <= 0 || ry <= 0) return null
+
+            includePoint(bounds, cx - rx, cy - ry)
+            includePoint(bounds, cx + rx, cy + ry)
+            return {
+                d: `M${f(cx - rx)},${f(cy)}a${f(rx)},${f(ry)} 0,1 1,${f(2 * rx)},0a${f(rx)},${f(ry)} 0,1 1,${f(-2 * rx)},0z`,
+                bounds,
+            }
+        }
+        case 'line': {
+            const x1 = num('x1', viewport.width)
+            const y1 = num('y1', viewport.height)
+            const x2 = num('x2', viewport.width)
+            const y2 = num('y2', viewport.height)
+            includePoint(bounds, x1, y1)
+            includePoint(bounds, x2, y2)
+            return { d: `M${f(x1)},${f(y1)}L${f(x2)},${f(y2)}`, bounds }
+        }
+        case 'polyline':
+        case 'polygon': {
+            const coords = (el.getAttribute('points') || '').split(/[\s,]+/).filter(Boolean).map(parseFloat)
+            if (coords.length < 4) return null
+            const points: string[] = []
+            for (let i = 0; i + 1 < coords.length; i += 2) {
+                points.push(`${f(coords[i])},${f(coords[i + 1])}`)
+                includePoint(bounds, coords[i], coords[i + 1])
+            }
+            const d = `M${points[0]}L${points.slice(1).join(' ')}${el.localName === 'polygon' ? 'z' : ''}`
+            return { d, bounds }
+        }
+    }
+    return null
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a presentation property from the style attribute or the attribute itself
+ */
+function getProperty(el: Element, name: string): string | null {
+    const style = el.getAttribute('style')
+    if (style) {
+        for (const declaration of style.split(';')) {
+            const [key, ...rest] = declaration.split(':')
+            if (key && key.trim() === name && rest.length > 0) {
+                return rest.join(':').replace(/!important/, '').trim()
+            }
+        }
+    }
+    const attr = el.getAttribute(name)
+    return attr !== null ? attr.trim() : null
+}
+
+/**
+ * Resolve inherited presentation properties for an element.
+ * `opacity` is not inherited in SVG, but VectorDrawable groups have no alpha,
+ * so group opacity is folded into the alpha of every descendant path.
+ */
+function resolveStyle(el: Element, parent: StyleState): StyleState {
+    const style: StyleState = { ...parent }
+    const read = (name: string) => {
+        const value = getProperty(el, name)
+        return value === null || value === 'inherit' ? null : value
+    }
+
+    const color = read('color')
+    if (color) style.color = color
+    const fill = read('fill')
+    if (fill) style.fill = fill
+    const stroke = read('stroke')
+    if (stroke) style.stroke = stroke
+    const fillRule = read('fill-rule')
+    if (fillRule) style.fillRule = fillRule
+    const linecap = read('stroke-linecap')
+    if (linecap) style.strokeLinecap = linecap
+    const linejoin = read('stroke-linejoin')
+    if (linejoin) style.strokeLinejoin = linejoin
+
+    const numeric = (name: string, current: number) => {
+        const value = read(name)
+        if (value === null) return current
+        const parsed = parseFloat(value)
+        if (isNaN(parsed)) return current
+        return value.endsWith('%') ? parsed / 100 : parsed
+    }
+    style.fillOpacity = numeric('fill-opacity', style.fillOpacity)
+    style.strokeOpacity = numeric('stroke-opacity', style.strokeOpacity)
+    style.strokeWidth = numeric('stroke-width', style.strokeWidth)
+    style.strokeMiterlimit = numeric('stroke-miterlimit', style.strokeMiterlimit)
+    style.opacity = parent.opacity * numeric('opacity', 1)
+
+    return style
+}
+
+// ---------------------------------------------------------------------------
+// Gradients
+// ---------------------------------------------------------------------------
+
+/**
+ * Look up a gradient attribute, following xlink:href templates
+ */
+function getGradientAttribute(ctx: ConvertContext, gradient: Element, name: string, depth: number = 0): string | null {
+    const own = gradient.getAttribute(name)
+    if (own !== null || depth > 8) return own
+    const parent = getHrefTarget(ctx, gradient)
+    return parent ? getGradientAttribute(ctx, parent, name, depth + 1) : null
+}
+
+function getGradientStops(ctx: ConvertContext, gradient: Element, depth: number = 0): Element[] {
+    const stops = Array.from(gradient.children).filter(c => c.localName === 'stop')
+    if (stops.length > 0 || depth > 8) return stops
+    const parent = getHrefTarget(ctx, gradient)
+    return parent ? getGradientStops(ctx, parent, depth + 1) : []
+}
+
+function getHrefTarget(ctx: ConvertContext, el: Element): Element | null {
+    const href = el.getAttribute('href') || el.getAttributeNS('http://www.w3.org/1999/xlink', 'href')
+    if (!href || !href.startsWith('#')) return null
+    return ctx.gradients.get(href.slice(1)) || ctx.doc.getElementById(href.slice(1))
+}
+
+/**
+ * Build an <aapt:attr> gradient block for a fill or stroke reference
+ */
+function renderGradient(
+    ctx: ConvertContext,
+    gradient: Element,
+    attrName: string,
+    bounds: Bounds,
+    indent: string
+): string[] {
+    const attr = (name: string) => getGradientAttribute(ctx, gradient, name)
+
+    if (attr('gradientTransform')) ctx.unsupported.add('gradientTransform')
+
+    const objectBox = attr('gradientUnits') !== 'userSpaceOnUse'
+    const boxWidth = bounds.maxX - bounds.minX
+    const boxHeight = bounds.maxY - bounds.minY
+
+    // Map a gradient coordinate into the path's user space
+    const coord = (value: string | null, fallback: string, axis: 'x' | 'y' | 'r') => {
+        const raw = (value ?? fallback).trim()
+        const isPercent = raw.endsWith('%')
+        const num = parseFloat(raw)
+        if (objectBox) {
+            const fraction = isPercent ? num / 100 : num
+            if (axis === 'x') return bounds.minX + fraction * boxWidth
+            if (axis === 'y') return bounds.minY + fraction * boxHeight
+            return fraction * (boxWidth + boxHeight) / 2
+        }
+        if (!isPercent) return num
+        const reference = axis === 'x' ? ctx.viewport.width
+            : axis === 'y' ? ctx.viewport.height
+                : Math.hypot(ctx.viewport.width, ctx.viewport.height) / Math.SQRT2
+        return (num / 100) * reference
+    }
+
+    const gradientAttrs: [string, string][] = []
+    if (gradient.localName === 'linearGradient') {
+        gradientAttrs.push(
+            ['android:type', 'linear'],
+            ['android:startX', formatNumber(coord(attr('x1'), '0%', 'x'))],
+            ['android:startY', formatNumber(coord(attr('y1'), '0%', 'y'))],
+            ['android:endX', formatNumber(coord(attr('x2'), '100%', 'x'))],
+            ['android:endY', formatNumber(coord(attr('y2'), '0%', 'y'))],
+        )
+    } else {
+        if (attr('fx') !== null || attr('fy') !== null) ctx.unsupported.add('radialGradient focal point')
+        gradientAttrs.push(
+            ['android:type', 'radial'],
+            ['android:centerX', formatNumber(coord(attr('cx'), '50%', 'x'))],
+            ['android:centerY', formatNumber(coord(attr('cy'), '50%', 'y'))],
+            ['android:gradientRadius', formatNumber(coord(attr('r'), '50%', 'r'))],
+        )
+    }
+
+    const spread = attr('spreadMethod')
+    if (spread === 'reflect') gradientAttrs.push(['android:tileMode', 'mirror'])
+    else if (spread === 'repeat') gradientAttrs.push(['android:tileMode', 'repeat'])
+
+    const inner = `${indent}    `
+    const lines = [
+        `${indent}<aapt:attr name="${attrName}">`,
+        `${inner}<gradient`,
+        ...gradientAttrs.map(([k, v], i) => `${inner}    ${k}="${v}"${i === gradientAttrs.length - 1 ? '>' : ''}`),
+    ]
+
+    let lastOffset = 0
+    for (const stop of getGradientStops(ctx, gradient)) {
+        const rawOffset = stop.getAttribute('offset') || '0'
+        let offset = rawOffset.trim().endsWith('%') ? parseFloat(rawOffset) / 100 : parseFloat(rawOffset)
+        // Offsets must be monotonic and within 0..1
+        offset = Math.max(lastOffset, Math.min(1, isNaN(offset) ? 0 : offset))
+        lastOffset = offset
+
+        const stopOpacity = parseFloat(getProperty(stop, 'stop-opacity') ?? '1')
+        const stopColor = getProperty(stop, 'stop-color') || 'black'
+        const color = toAndroidColor(stopColor, isNaN(stopOpacity) ? 1 : stopOpacity)
+        if (!color) ctx.unsupported.add(`color ${stopColor}`)
+        lines.push(`${inner}    <item android:offset="${formatNumber(offset)}" android:color="${color || '#FF000000'}"/>`)
+    }
+
+    lines.push(`${inner}</gradient>`, `${indent}</aapt:attr>`)
+    ctx.usesAapt = true
+    return lines
+}
+
+/**
+ * Get the gradient element referenced by a url(#id) paint value
+ */
+function getPaintGradient(ctx: ConvertContext, paint: string): Element | null | undefined {
+    const match = paint.match(/^url\(\s*['"]?#([^'")]+)['"]?\s*\)/)
+    if (!match) return undefined
+    return ctx.gradients.get(match[1]) || null
+}
+
+// ---------------------------------------------------------------------------
+// Element rendering
+// ---------------------------------------------------------------------------
+
+function renderAttributes(tag: string, attrs: [string, string][], indent: string, selfClosing: boolean): string[] {
+    if (attrs.length === 0) return [`${indent}<${tag}${selfClosing ? '/>' : '>'}`]
+    const close = selfClosing ? '/>' : '>'
+    return [
+        `${indent}<${tag}`,
+        ...attrs.map(([k, v], i) => `${indent}    ${k}="${escapeXmlAttribute(v)}"${i === attrs.length - 1 ? close : ''}`),
+    ]
+}
+
+function renderPath(ctx: ConvertContext, el: Element, style: StyleState, indent: string): string[] {
+    const shape = shapeToPath(el, ctx.viewport)
+    if (!shape) return []
+
+    const attrs: [string, string][] = []
+    const gradientBlocks: string[] = []
+    const id = el.getAttribute('id')
+    if (id) attrs.push(['android:name', id])
+    attrs.push(['android:pathData', shape.d.replace(/\s+/g, ' ')])
+
+    // Paint resolution, shared by fill and stroke
+    const applyPaint = (paint: string, opacity: number, colorAttr: string, alphaAttr: string): boolean => {
+        if (paint === 'none') return false
+        const value = paint === 'currentColor' ? style.color : paint
+
+        const gradient = getPaintGradient(ctx, value)
+        if (gradient) {
+            gradientBlocks.push(...renderGradient(ctx, gradient, colorAttr, shape.bounds, `${indent}    `))
+        } else {
+            if (gradient === null) {
+                // url() to something that is not a gradient, e.g. a pattern
+                ctx.unsupported.add('pattern')
+                return false
+            }
+            const color = toAndroidColor(value)
+            if (!color) {
+                // Dropping the paint hides the path, so the report has to mention it
+                ctx.unsupported.add(`color ${value}`)
+                return false
+            }
+            attrs.push([colorAttr, color])
+        }
+        if (opacity < 1) attrs.push([alphaAttr, formatNumber(opacity)])
+        return true
+    }
+
+    const hasFill = applyPaint(style.fill, style.fillOpacity * style.opacity, 'android:fillColor', 'android:fillAlpha')
+    if (hasFill && style.fillRule === 'evenodd') attrs.push(['android:fillType', 'evenOdd'])
+
+    const hasStroke = style.strokeWidth > 0 &&
+        applyPaint(style.stroke, style.strokeOpacity * style.opacity, 'android:strokeColor', 'android:strokeAlpha')
+    if (hasStroke) {
+        attrs.push(['android:strokeWidth', formatNumber(style.strokeWidth)])
+        if (style.strokeLinecap !== 'butt') attrs.push(['android:strokeLineCap', style.strokeLinecap])
+        if (style.strokeLinejoin !== 'miter') attrs.push(['android:strokeLineJoin', style.strokeLinejoin === 'bevel' ? 'bevel' : 'round'])
+        if (style.strokeMiterlimit !== 4) attrs.push(['android:strokeMiterLimit', formatNumber(style.strokeMiterlimit)])
+    }
+
+    if (!hasFill && !hasStroke) return []
+
+    if (gradientBlocks.length === 0) {
+        return renderAttributes('path', attrs, indent, true)
+    }
+    return [...renderAttributes('path', attrs, indent, false), ...gradientBlocks, `${indent}</path>`]
+}
+
+/**
+ * Wrap rendered children in a <group> when a transform is present
+ */
+function wrapInGroup(ctx: ConvertContext, matrix: Matrix, name: string | null, children: string[], indent: string): string[] {
+    const { attrs, skewed } = decomposeMatrix(matrix)
+    if (skewed) ctx.unsupported.add('skew transform')
+    if (attrs.length === 0 && !name) return children
+
+    const groupAttrs: [string, string][] = name ? [['android:name', name], ...attrs] : attrs
+    return [
+        ...renderAttributes('group', groupAttrs, indent, false),
+        ...children.map(line => `    ${line}`),
+        `${indent}</group>`,
+    ]
+}
+
+/**
+ * Transform that fits the viewBox of `viewBoxEl` into the viewport at x, y
+ * sized by `sizeEl` (100% of the document viewport by default), following
+ * preserveAspectRatio
+ */
+function getViewportTransform(ctx: ConvertContext, viewBoxEl: Element, sizeEl: Element, x: number, y: number): Matrix {
+    const viewBox = parseViewBox(viewBoxEl.getAttribute('viewBox'))
+    if (!viewBox) return [1, 0, 0, 1, x, y]
+
+    const width = parseLength(sizeEl.getAttribute('width') ?? viewBoxEl.getAttribute('width'), ctx.viewport.width, ctx.viewport.width)
+    const height = parseLength(sizeEl.getAttribute('height') ?? viewBoxEl.getAttribute('height'), ctx.viewport.height, ctx.viewport.height)
+    const [minX, minY, vbWidth, vbHeight] = viewBox
+    let scaleX = width / vbWidth
+    let scaleY = height / vbHeight
+
+    const [align = 'xMidYMid', meetOrSlice = 'meet'] = (viewBoxEl.getAttribute('preserveAspectRatio') || '').trim().split(/\s+/)
+    let offsetX = 0
+    let offsetY = 0
+    if (align !== 'none') {
+        scaleX = scaleY = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY)
+        const alignFactor = (part: string) => part === 'Min' ? 0 : part === 'Max' ? 1 : 0.5
+        offsetX = (width - vbWidth * scaleX) * alignFactor(align.slice(1, 4))
+        offsetY = (height - vbHeight * scaleY) * alignFactor(align.slice(5, 8))
+    }
+    return [scaleX, 0, 0, scaleY, x + offsetX - minX * scaleX, y + offsetY - minY * scaleY]
+}
+
+function renderElement(ctx: ConvertContext, el: Element, parentStyle: StyleState, indent: string, depth: number = 0): string[] {
+    const tag = el.localName
+
+    if (depth > 32 || IGNORED_ELEMENTS.has(tag)) return []
+    if (UNSUPPORTED_ELEMENTS.has(tag)) {
+        ctx.unsupported.add(tag)
+        return []
+    }
+    if (getProperty(el, 'display') === 'none' || getProperty(el, 'visibility') === 'hidden') return []
+
+    for (const attr of UNSUPPORTED_ATTRIBUTES) {
+        const value = getProperty(el, attr)
+        if (value && value !== 'none') ctx.unsupported.add(attr)
+    }
+
+    const style = resolveStyle(el, parentStyle)
+    let matrix = parseTransform(el.getAttribute('transform'))
+
+    let children: string[]
+    if (tag === 'svg') {
+        // A nested viewport becomes a transform; its content is not clipped to it
+        const x = parseLength(el.getAttribute('x'), 0, ctx.viewport.width)
+        const y = parseLength(el.getAttribute('y'), 0, ctx.viewport.height)
+        matrix = multiply(matrix, getViewportTransform(ctx, el, el, x, y))
+    }
+    if (tag === 'g' || tag === 'a' || tag === 'svg') {
+        children = Array.from(el.children).flatMap(child => renderElement(ctx, child, style, indent, depth + 1))
+        if (children.length === 0) return []
+        return wrapInGroup(ctx, matrix, el.getAttribute('id'), children, indent)
+    }
+
+    if (tag === 'use') {
+        const target = getHrefTarget(ctx, el)
+        if (!target) {
+            ctx.unsupported.add('use')
+            return []
+        }
+        const x = parseLength(el.getAttribute('x'), 0)
+        const y = parseLength(el.getAttribute('y'), 0)
+        matrix = multiply(matrix, [1, 0, 0, 1, x, y])
+        // A symbol's viewBox is fitted into the size of the <use>, like a nested viewport
+        if (target.localName === 'symbol') matrix = multiply(matrix, getViewportTransform(ctx, target, el, 0, 0))
+        const source = target.localName === 'symbol' ? Array.from(target.children) : [target]
+        children = source.flatMap(child => renderElement(ctx, child, style, indent, depth + 1))
+        return wrapInGroup(ctx, matrix, null, children, indent)
+    }
+
+    if (!['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon'].includes(tag)) {
+        ctx.unsupported.add(tag)
+        return []
+    }
+
+    children = renderPath(ctx, el, style, indent)
+    return children.length > 0 ? wrapInGroup(ctx, matrix, null, children, indent) : []
+}
+
+/**
+ * Convert SVG markup into VectorDrawable XML
+ * @param svgText - Raw SVG file content
+ * @throws Error if the content is not a parseable SVG document
+ */
+export function convertSvgToVectorDrawable(svgText: string): VectorDrawableResult {
+    const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml')
+    const svg = doc.documentElement
+    if (doc.querySelector('parsererror') || svg.localName !== 'svg') {
+        throw new Error('Invalid SVG file')
+    }
+
+    // Resolve the viewport: viewBox wins, width/height are the fallback
+    const viewBox = parseViewBox(svg.getAttribute('viewBox'))
+    const width = parseLength(svg.getAttribute('width'), viewBox ? viewBox[2] : 24, viewBox ? viewBox[2] : 24)
+    const height = parseLength(svg.getAttribute('height'), viewBox ? viewBox[3] : 24, viewBox ? viewBox[3] : 24)
+    const viewport = viewBox ? { width: viewBox[2], height: viewBox[3] } : { width, height }
+
+    const gradients = new Map<string, Element>()
+    doc.querySelectorAll('linearGradient, radialGradient').forEach(g => {
+        const id = g.getAttribute('id')
+        if (id) gradients.set(id, g)
+    })
+
+    const ctx: ConvertContext = { doc, gradients, viewport, unsupported: new Set(), usesAapt: false }
+
+    const rootStyle = resolveStyle(svg, DEFAULT_STYLE)
+    let body = Array.from(svg.children).flatMap(child => renderElement(ctx, child, rootStyle, '    '))
+
+    // A viewBox that does not start at 0,0 becomes a translation
+    if (viewBox && (viewBox[0] !== 0 || viewBox[1] !== 0)) {
+        body = wrapInGroup(ctx, [1, 0, 0, 1, -viewBox[0], -viewBox[1]], null, body, '    ')
+    }
+
+    const vectorAttrs: [string, string][] = [
+        ['xmlns:android', 'http://schemas.android.com/apk/res/android'],
+        ...(ctx.usesAapt ? [['xmlns:aapt', 'http://schemas.android.com/aapt'] as [string, string]] : []),
+        ['android:width', `${formatNumber(width)}dp`],
+        ['android:height', `${formatNumber(height)}dp`],
+        ['android:viewportWidth', formatNumber(viewport.width)],
+        ['android:viewportHeight', formatNumber(viewport.height)],
+    ]
+
+    const xml = [
+        ...renderAttributes('vector', vectorAttrs, '', body.length === 0),
+        ...body,
+        ...(body.length > 0 ? ['</vector>'] : []),
+    ].join('\n') + '\n'
+
+    return {
+        xml,
+        width: Math.round(width),
+        height: Math.round(height),
+        unsupported: Array.from(ctx.unsupported).sort(),
+    }
+}
+
+/**
+ * Override the android:width/height (in dp) of converted VectorDrawable XML
+ */
+export function setVectorDrawableSize(xml: string, widthDp: number, heightDp: number): string {
+    return xml
+        .replace(/android:width="[^"]*"/, `android:width="${formatNumber(widthDp)}dp"`)
+        .replace(/android:height="[^"]*"/, `android:height="${formatNumber(heightDp)}dp"`)
+}
+
+/**
+ * Let Android flip the drawable in right-to-left layouts (API 19+)
+ */
+export function setVectorDrawableAutoMirrored(xml: string): string {
+    if (xml.includes('android:autoMirrored=')) return xml
+    return xml.replace('<vector', '<vector android:autoMirrored="true"')
+}
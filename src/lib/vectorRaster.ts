@@ -0,0 +1,147 @@
+/**
+ * Rasterization of vector sources (SVG / PDF)
+ * Vector files are rendered directly at each density's pixel size instead of
+ * downscaling one large bitmap, so every density stays sharp.
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist'
+import { parseLength } from './vectorDrawable'
+
+// Loaded PDF documents, keyed by source file (each file is parsed once)
+const pdfCache = new WeakMap<File, Promise<PDFDocumentProxy>>()
+
+/**
+ * Load pdf.js on demand, it is only needed once a PDF is dropped
+ */
+async function loadPdfJs() {
+    const [pdfjs, { default: workerUrl }] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ])
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl
+    return pdfjs
+}
+
+function loadPdfDocument(file: File): Promise<PDFDocumentProxy> {
+    let cached = pdfCache.get(file)
+    if (!cached) {
+        cached = (async () => {
+            const pdfjs = await loadPdfJs()
+            const data = new Uint8Array(await file.arrayBuffer())
+            return pdfjs.getDocument({ data }).promise
+        })()
+        pdfCache.set(file, cached)
+        // Allow a retry after a failed load
+        cached.catch(() => pdfCache.delete(file))
+    }
+    return cached
+}
+
+/**
+ * Get the first page of a single-page PDF
+ * @throws Error if the PDF has more than one page
+ */
+async function getPdfPage(file: File): Promise<PDFPageProxy> {
+    const doc = await loadPdfDocument(file)
+    if (doc.numPages !== 1) {
+        throw new Error(`Only single-page PDFs are supported (${file.name} has ${doc.numPages} pages)`)
+    }
+    return doc.getPage(1)
+}
+
+/**
+ * Get the page size of a PDF in points (1pt is treated as 1dp)
+ */
+export async function getPdfPageSize(file: File): Promise<{ width: number; height: number }> {
+    const page = await getPdfPage(file)
+    const viewport = page.getViewport({ scale: 1 })
+    return { width: viewport.width, height: viewport.height }
+}
+
+async function renderPdf(file: File, width: number, height: number): Promise<HTMLCanvasElement> {
+    const page = await getPdfPage(file)
+    const base = page.getViewport({ scale: 1 })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Failed to get canvas context')
+
+    await page.render({
+        canvasContext: ctx,
+        viewport: page.getViewport({ scale: width / base.width }),
+        // Stretch vertically if the requested aspect ratio differs from the page
+        transform: [1, 0, 0, (height / base.height) / (width / base.width), 0, 0],
+        background: 'rgba(0,0,0,0)',
+    }).promise
+
+    return canvas
+}
+
+/**
+ * Rewrite the root <svg> size so the browser rasterizes it at exactly the
+ * target size. A viewBox is added when missing to keep the content scaling.
+ */
+async function renderSvg(file: File, width: number, height: number): Promise<HTMLCanvasElement> {
+    const doc = new DOMParser().parseFromString(await file.text(), 'image/svg+xml')
+    const svg = doc.documentElement
+    if (!svg.hasAttribute('viewBox')) {
+        const w = parseLength(svg.getAttribute('width'), width, width) || width
+        const h = parseLength(svg.getAttribute('height'), height, height) || height
+        svg.setAttribute('viewBox', `0 0 ${w} ${h}`)
+    }
+    svg.setAttribute('width', `${width}`)
+    svg.setAttribute('height', `${height}`)
+    svg.setAttribute('preserveAspectRatio', 'none')
+
+    const blob = new Blob([new XMLSerializer().serializeToString(doc)], { type: 'image/svg+xml' })
+    const url = URL.createObjectURL(blob)
+    try {
+        const img = new Image()
+        img.src = url
+        await img.decode()
+
+        const canvas = document.createElement('canvas')
+        canvas.width = width
+        canvas.height = height
+        const ctx = canvas.getContext('2d')
+        if (!ctx) throw new Error('Failed to get canvas context')
+        ctx.drawImage(img, 0, 0, width, height)
+        return canvas
+    } finally {
+        URL.revokeObjectURL(url)
+    }
+}
+
+/**
+ * Render a vector source at an exact pixel size
+ * @param file - SVG or PDF source file
+ * @param format - Source format
+ * @param width - Output width in px
+ * @param height - Output height in px
+ */
+export async function renderVectorSource(
+    file: File,
+    format: 'svg' | 'pdf',
+    width: number,
+    height: number
+): Promise<ImageBitmap> {
+    const canvas = format === 'pdf'
+        ? await renderPdf(file, width, height)
+        : await renderSvg(file, width, height)
+    return createImageBitmap(canvas)
+}
+
+/**
+ * Render a small PNG preview of a PDF for the file list thumbnail
+ */
+export async function createPdfPreview(file: File, maxSize: number = 256): Promise<Blob> {
+    const { width, height } = await getPdfPageSize(file)
+    const scale = maxSize / Math.max(width, height)
+    const canvas = await renderPdf(file, Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)))
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to render PDF preview')), 'image/png')
+    })
+}
@@ -0,0 +1,183 @@
+/**
+ * In-place PNG/JPG → WebP conversion of a module, like Android Studio's
+ * "Convert to WebP". Files are encoded on the main thread with canvasToWebP,
+ * scored with SSIM, and only replaced once the user confirms the plan.
+ */
+
+import { AndroidResourceDir, WebPConversionItem, WebPOptions } from '@/types'
+import { canvasToWebP } from './imageUtils'
+import { computeSsim, decodeImageData } from './comparison'
+import { listResourceFiles, parseAuditFolder } from './drawableAudit'
+import { isNinePatchFile } from './ninePatch'
+import { getResourceName } from './projectExport'
+
+// Lossy WebP decodes from API 14, lossless and transparent WebP from API 18
+export const WEBP_MIN_SDK = 14
+export const WEBP_ALPHA_MIN_SDK = 18
+
+export const DEFAULT_MIN_SDK = 21
+
+const CONVERTIBLE_EXTENSIONS = ['png', 'jpg', 'jpeg']
+
+export interface WebPConversionOptions {
+    quality: number
+    lossless: boolean
+    webp: WebPOptions
+    minSdk: number
+    skipLauncherIcons: boolean  // mipmap-* files
+}
+
+/**
+ * Read minSdk from the module's build.gradle(.kts), or null when it is not set there
+ * (e.g. defined in a convention plugin or version catalog)
+ */
+export async function readMinSdk(rootHandle: FileSystemDirectoryHandle, resDir: AndroidResourceDir): Promise<number | null> {
+    const srcIndex = resDir.path.split('/').indexOf('src')
+    if (srcIndex < 0) return null
+
+    try {
+        let moduleHandle = rootHandle
+        for (const segment of resDir.path.split('/').slice(0, srcIndex)) {
+            moduleHandle = await moduleHandle.getDirectoryHandle(segment)
+        }
+        for (const name of ['build.gradle.kts', 'build.gradle']) {
+            try {
+                const file = await (await moduleHandle.getFileHandle(name)).getFile()
+                const match = (await file.text()).match(/minSdk(?:Version)?\s*[=(]?\s*(\d+)/)
+                if (match) return parseInt(match[1])
+            } catch {
+                // No build file of this kind
+            }
+        }
+    } catch (error) {
+        console.error('Failed to read minSdk:', error)
+    }
+    return null
+}
+
+function hasTransparency(imageData: ImageData): boolean {
+    const { data } = imageData
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true
+    }
+    return false
+}
+
+/**
+ * Encode one file at its own size and score the result against the original
+ */
+async function encodeFile(
+    file: File,
+    options: WebPConversionOptions
+): Promise<{ blob: Blob; ssim: number } | 'transparency'> {
+    const bitmap = await createImageBitmap(file)
+    const canvas = document.createElement('canvas')
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Failed to get canvas context')
+    ctx.drawImage(bitmap, 0, 0)
+    bitmap.close()
+
+    const original = ctx.getImageData(0, 0, canvas.width, canvas.height)
+    const supportsAlpha = options.minSdk >= WEBP_ALPHA_MIN_SDK
+    if (!supportsAlpha && hasTransparency(original)) return 'transparency'
+
+    const blob = await canvasToWebP(canvas, options.quality, options.lossless && supportsAlpha, options.webp)
+    return { blob, ssim: computeSsim(original, await decodeImageData(blob)) }
+}
+
+/**
+ * List every PNG/JPG in the drawable and mipmap folders of a module and
+ * encode the ones minSdk allows. Files that would grow start unselected.
+ */
+export async function planWebPConversion(
+    resDir: AndroidResourceDir,
+    options: WebPConversionOptions,
+    onProgress?: (current: number, total: number, fileName: string) => void,
+    signal?: AbortSignal
+): Promise<WebPConversionItem[]> {
+    const files = await listResourceFiles([resDir])
+    const existing = new Set(files.map(entry => `${entry.folder}/${entry.handle.name}`))
+    const entries = files.filter(entry => {
+        const extension = entry.handle.name.slice(entry.handle.name.lastIndexOf('.') + 1).toLowerCase()
+        return CONVERTIBLE_EXTENSIONS.includes(extension)
+    })
+
+    const items: WebPConversionItem[] = []
+    for (const [i, entry] of entries.entries()) {
+        signal?.throwIfAborted()
+        const fileName = entry.handle.name
+        onProgress?.(i, entries.length, `${entry.folder}/${fileName}`)
+
+        const file = await entry.handle.getFile()
+        const webpName = `${getResourceName(fileName)}.webp`
+        const item: WebPConversionItem = {
+            folder: entry.folder,
+            fileName,
+            webpName,
+            size: file.size,
+            webpSize: null,
+            ssim: null,
+            blob: null,
+            skipReason: null,
+            selected: false,
+        }
+
+        if (isNinePatchFile(fileName)) {
+            item.skipReason = 'ninePatch'
+        } else if (options.skipLauncherIcons && parseAuditFolder(entry.folder)?.type === 'mipmap') {
+            item.skipReason = 'launcherIcon'
+        } else if (options.minSdk < WEBP_MIN_SDK) {
+            item.skipReason = 'minSdk'
+        } else if (existing.has(`${entry.folder}/${webpName}`)) {
+            item.skipReason = 'exists'
+        } else {
+            try {
+                const result = await encodeFile(file, options)
+                if (result === 'transparency') {
+                    item.skipReason = 'transparency'
+                } else {
+                    item.blob = result.blob
+                    item.webpSize = result.blob.size
+                    item.ssim = result.ssim
+                    item.selected = result.blob.size < file.size
+                }
+            } catch (error) {
+                console.error(`Failed to encode ${entry.folder}/${fileName}:`, error)
+                item.skipReason = 'failed'
+            }
+        }
+        items.push(item)
+    }
+
+    onProgress?.(entries.length, entries.length, '')
+    return items
+}
+
+/**
+ * Write the selected .webp files, deleting each original once its WebP is written
+ * @returns Number of files converted
+ */
+export async function writeWebPConversion(
+    resDir: AndroidResourceDir,
+    items: WebPConversionItem[],
+    onProgress?: (current: number, total: number, fileName: string) => void
+): Promise<number> {
+    const toWrite = items.filter(item => item.selected && item.blob)
+
+    for (let i = 0; i < toWrite.length; i++) {
+        const item = toWrite[i]
+        onProgress?.(i, toWrite.length, `${item.folder}/${item.webpName}`)
+
+        const dirHandle = await resDir.handle.getDirectoryHandle(item.folder)
+        const fileHandle = await dirHandle.getFileHandle(item.webpName, { create: true })
+        const writable = await fileHandle.createWritable()
+        await writable.write(item.blob!)
+        await writable.close()
+        await dirHandle.removeEntry(item.fileName)
+    }
+
+    onProgress?.(toWrite.length, toWrite.length, '')
+    return toWrite.length
+}
@@ -0,0 +1,162 @@
+/**
+ * Advanced WebP encoder options
+ * Maps `ConvertConfig.webp` onto libwebp's encoder settings. Content presets
+ * tune the lossy filters like `cwebp -preset`; named presets bundle every
+ * option so a team can share one JSON file and get the same output.
+ */
+
+import type { EncodeOptions } from '@jsquash/webp/meta'
+import { WebPOptions, WebPPreset, WebPProfile } from '@/types'
+
+const STORAGE_KEY = 'resbeaver-webp-presets'
+
+export const WEBP_PRESETS: WebPPreset[] = ['default', 'icon', 'picture', 'photo', 'drawing']
+
+// Matches Android Studio's converter (libwebp defaults with method 4)
+export const DEFAULT_WEBP_OPTIONS: WebPOptions = {
+    preset: 'default',
+    method: 4,
+    alphaQuality: 100,
+    nearLossless: 100,
+    useSharpYuv: false,
+    exact: false,
+    snsStrength: 50,
+    filterStrength: 60,
+}
+
+// Values libwebp's WebPConfigPreset() sets for each content type
+const PRESET_TUNING: Record<WebPPreset, {
+    snsStrength: number
+    filterStrength: number
+    filterSharpness: number
+    preprocessing: number       // 2 = pseudo-random dithering
+    imageHint: number           // lossless hint: 1 picture, 2 photo, 3 graph
+}> = {
+    default: { snsStrength: 50, filterStrength: 60, filterSharpness: 0, preprocessing: 0, imageHint: 0 },
+    icon: { snsStrength: 0, filterStrength: 0, filterSharpness: 0, preprocessing: 0, imageHint: 0 },
+    picture: { snsStrength: 80, filterStrength: 35, filterSharpness: 4, preprocessing: 0, imageHint: 1 },
+    photo: { snsStrength: 80, filterStrength: 30, filterSharpness: 3, preprocessing: 2, imageHint: 2 },
+    drawing: { snsStrength: 25, filterStrength: 10, filterSharpness: 6, preprocessing: 0, imageHint: 3 },
+}
+
+/**
+ * Switch the content preset, resetting the filters it tunes to its values
+ */
+export function applyWebPPreset(options: WebPOptions, preset: WebPPreset): WebPOptions {
+    const { snsStrength, filterStrength } = PRESET_TUNING[preset]
+    return { ...options, preset, snsStrength, filterStrength }
+}
+
+/**
+ * Build libwebp encoder options. Quality is the visual quality when lossy and
+ * the compression effort when lossless, as everywhere else.
+ */
+export function getWebPEncodeOptions(
+    quality: number,
+    lossless: boolean,
+    options: WebPOptions = DEFAULT_WEBP_OPTIONS
+): Partial<EncodeOptions> {
+    const tuning = PRESET_TUNING[options.preset]
+    return {
+        quality,
+        lossless: lossless ? 1 : 0,
+        method: options.method,
+        alpha_quality: options.alphaQuality,
+        near_lossless: options.nearLossless,
+        use_sharp_yuv: options.useSharpYuv ? 1 : 0,
+        exact: options.exact ? 1 : 0,
+        sns_strength: options.snsStrength,
+        filter_strength: options.filterStrength,
+        filter_sharpness: tuning.filterSharpness,
+        preprocessing: tuning.preprocessing,
+        image_hint: tuning.imageHint,
+    }
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+    return typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback
+}
+
+/**
+ * Fill in missing or out-of-range values, e.g. from an older or hand-edited preset file
+ */
+export function normalizeWebPOptions(value: Partial<WebPOptions> | undefined): WebPOptions {
+    const d = DEFAULT_WEBP_OPTIONS
+    const options = value || {}
+    return {
+        preset: WEBP_PRESETS.includes(options.preset as WebPPreset) ? options.preset as WebPPreset : d.preset,
+        method: clamp(options.method, 0, 6, d.method),
+        alphaQuality: clamp(options.alphaQuality, 0, 100, d.alphaQuality),
+        nearLossless: clamp(options.nearLossless, 0, 100, d.nearLossless),
+        useSharpYuv: typeof options.useSharpYuv === 'boolean' ? options.useSharpYuv : d.useSharpYuv,
+        exact: typeof options.exact === 'boolean' ? options.exact : d.exact,
+        snsStrength: clamp(options.snsStrength, 0, 100, d.snsStrength),
+        filterStrength: clamp(options.filterStrength, 0, 100, d.filterStrength),
+    }
+}
+
+export function isSameWebPOptions(a: WebPOptions, b: WebPOptions): boolean {
+    return (Object.keys(DEFAULT_WEBP_OPTIONS) as (keyof WebPOptions)[]).every(key => a[key] === b[key])
+}
+
+/**
+ * Load named presets from localStorage
+ */
+export function loadWebPProfiles(): WebPProfile[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY)
+        if (stored) {
+            return parseImportedProfiles(stored) || []
+        }
+    } catch (error) {
+        console.error('Failed to load WebP presets:', error)
+    }
+    return []
+}
+
+export function saveWebPProfiles(profiles: WebPProfile[]) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+    } catch (error) {
+        console.error('Failed to save WebP presets:', error)
+    }
+}
+
+/**
+ * Export named presets as JSON file download
+ */
+export function exportWebPProfiles(profiles: WebPProfile[]): void {
+    const data = JSON.stringify(profiles, null, 2)
+    const blob = new Blob([data], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'webp-presets.json'
+    a.click()
+    URL.revokeObjectURL(url)
+}
+
+/**
+ * Parse an exported preset file, or null when it is not one
+ */
+export function parseImportedProfiles(content: string): WebPProfile[] | null {
+    try {
+        const parsed = JSON.parse(content)
+        if (Array.isArray(parsed)) {
+            return parsed
+                .filter(p => p && typeof p.name === 'string' && p.name.trim())
+                .map(p => ({ name: p.name.trim(), options: normalizeWebPOptions(p.options) }))
+        }
+    } catch {
+        // Invalid JSON
+    }
+    return null
+}
+
+/**
+ * Add presets, replacing the ones with the same name
+ */
+export function mergeWebPProfiles(profiles: WebPProfile[], added: WebPProfile[]): WebPProfile[] {
+    const names = new Set(added.map(p => p.name))
+    return [...profiles.filter(p => !names.has(p.name)), ...added]
+}
@@ -0,0 +1,175 @@
+/**
+ * Fixed-size pool of image workers
+ * Tasks are queued and dispatched to the first idle worker. The pool is created
+ * lazily on first use and sized by navigator.hardwareConcurrency.
+ */
+
+import { ConvertTask, ConvertTaskResult } from '@/types'
+
+interface PendingJob {
+    id: number
+    task: ConvertTask
+    resolve: (result: ConvertTaskResult) => void
+    reject: (error: Error) => void
+}
+
+interface PoolSlot {
+    worker: Worker
+    job: PendingJob | null
+    failures: number            // errors in a row before any message, e.g. the script or WASM failing to load
+    broken: boolean             // stopped respawning after MAX_WORKER_FAILURES
+}
+
+interface WorkerResponse {
+    id: number
+    result?: ConvertTaskResult
+    error?: string
+}
+
+const MAX_POOL_SIZE = 8
+
+// Consecutive failures after which a slot stops respawning its worker
+const MAX_WORKER_FAILURES = 3
+
+let slots: PoolSlot[] | null = null
+const queue: PendingJob[] = []
+let nextJobId = 0
+
+/**
+ * Number of workers to run in parallel
+ */
+export function getPoolSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0
+    return Math.min(MAX_POOL_SIZE, Math.max(1, cores || 4))
+}
+
+function spawnWorker(slot: PoolSlot): Worker {
+    const worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const job = slot.job
+        if (!job || job.id !== e.data.id) return
+
+        slot.job = null
+        slot.failures = 0
+        if (e.data.result) {
+            job.resolve(e.data.result)
+        } else {
+            job.reject(new Error(e.data.error || 'Conversion failed'))
+        }
+        dispatch()
+    }
+
+    worker.onerror = (e: ErrorEvent) => {
+        const job = slot.job
+        const error = new Error(e.message || 'Worker crashed')
+        slot.job = null
+        slot.failures++
+        // A crashed worker cannot be trusted with further tasks, replace it,
+        // unless it keeps failing before answering: then it cannot load at all
+        worker.terminate()
+        if (slot.failures < MAX_WORKER_FAILURES) {
+            slot.worker = spawnWorker(slot)
+        } else {
+            slot.broken = true
+        }
+        job?.reject(error)
+
+        if (slots?.every(s => s.broken)) {
+            // Nothing can run the queue; the next task starts a fresh pool
+            slots = null
+            queue.splice(0).forEach(queued => queued.reject(error))
+            return
+        }
+        dispatch()
+    }
+
+    return worker
+}
+
+function getSlots(): PoolSlot[] {
+    if (!slots) {
+        slots = Array.from({ length: getPoolSize() }, () => {
+            const slot = { job: null, failures: 0, broken: false } as PoolSlot
+            slot.worker = spawnWorker(slot)
+            return slot
+        })
+    }
+    return slots
+}
+
+/**
+ * Hand queued jobs to idle workers
+ */
+function dispatch() {
+    for (const slot of getSlots()) {
+        if (queue.length === 0) return
+        if (slot.job || slot.broken) continue
+
+        const job = queue.shift()!
+        slot.job = job
+        // Pre-rendered bitmaps are handed over instead of copied
+        const transfer = job.task.source instanceof ImageBitmap ? [job.task.source] : []
+        slot.worker.postMessage({ id: job.id, task: job.task }, transfer)
+    }
+}
+
+/**
+ * Drop a job from the queue, or stop the worker currently running it
+ */
+function cancelJob(job: PendingJob) {
+    const queueIndex = queue.indexOf(job)
+    if (queueIndex >= 0) {
+        queue.splice(queueIndex, 1)
+    } else {
+        const slot = slots?.find(s => s.job === job)
+        if (!slot) return // Already settled
+
+        // libwebp cannot be interrupted mid-encode, so the worker is replaced
+        slot.worker.terminate()
+        slot.job = null
+        slot.worker = spawnWorker(slot)
+    }
+
+    job.reject(new DOMException('Conversion cancelled', 'AbortError'))
+    dispatch()
+}
+
+/**
+ * Run a single resize + encode task on the pool
+ * @param task - Source image and target size/encoding
+ * @param signal - Optional abort signal; aborting rejects with an AbortError
+ */
+export function runConvertTask(task: ConvertTask, signal?: AbortSignal): Promise<ConvertTaskResult> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Conversion cancelled', 'AbortError'))
+            return
+        }
+
+        const onAbort = () => cancelJob(job)
+        const job: PendingJob = {
+            id: nextJobId++,
+            task,
+            resolve: (result) => {
+                signal?.removeEventListener('abort', onAbort)
+                resolve(result)
+            },
+            reject: (error) => {
+                signal?.removeEventListener('abort', onAbort)
+                reject(error)
+            },
+        }
+
+        signal?.addEventListener('abort', onAbort, { once: true })
+        queue.push(job)
+        dispatch()
+    })
+}
+
+/**
+ * Check whether an error was caused by cancelling a task
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError'
+}
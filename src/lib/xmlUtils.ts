@@ -3,7 +3,7 @@
  * Enhanced with File System Access API support
  */
 
-import { LocaleResources, MergePreview, MergePreviewDetail, DiffItem, SourceXmlFile, LocaleMapping, AndroidResourceDir } from '@/types'
+import { LocaleResources, MergePreview, MergePreviewDetail, DiffItem, SourceXmlFile, LocaleMapping, AndroidResourceDir, ResourceLayout } from '@/types'
 import { guessLocaleFromFileName } from './localeMapping'
 
 export interface ParseResult {
@@ -12,8 +12,15 @@ export interface ParseResult {
     error?: string
 }
 
+// Where each resource layout lives inside a module's src folder
+const RESOURCE_DIR_PATHS: { layout: ResourceLayout; segments: string[] }[] = [
+    { layout: 'android', segments: ['main', 'res'] },
+    { layout: 'compose', segments: ['commonMain', 'composeResources'] },
+]
+
 /**
  * Scan a directory recursively to find Android res directories (src/main/res)
+ * and Compose Multiplatform resource directories (src/commonMain/composeResources)
  */
 export async function findAndroidResourceDirectories(
     dirHandle: FileSystemDirectoryHandle,
@@ -25,12 +32,14 @@ export async function findAndroidResourceDirectories(
 
     if (depth > MAX_DEPTH) return []
 
-    if (currentPath.endsWith('/res') || (currentPath === '' && await isResDirectory(dirHandle))) {
+    const isComposeDir = dirHandle.name === 'composeResources'
+    if (currentPath.endsWith('/res') || isComposeDir || (currentPath === '' && await isResDirectory(dirHandle))) {
         const moduleName = currentPath ? currentPath.split('/')[0] : dirHandle.name
         results.push({
             name: moduleName,
             path: currentPath || '.',
-            handle: dirHandle
+            handle: dirHandle,
+            layout: isComposeDir ? 'compose' : 'android'
         })
         return results
     }
@@ -44,21 +53,27 @@ export async function findAndroidResourceDirectories(
 
             const nextHandle = await dirHandle.getDirectoryHandle(entry.name)
 
-            // Check for src/main/res pattern
+            // Check for src/main/res and src/commonMain/composeResources patterns
             if (entry.name === 'src') {
-                try {
-                    const mainHandle = await nextHandle.getDirectoryHandle('main')
-                    const resHandle = await mainHandle.getDirectoryHandle('res')
-                    const moduleName = currentPath || dirHandle.name
-                    results.push({
-                        name: moduleName,
-                        path: `${nextPath}/main/res`,
-                        handle: resHandle
-                    })
-                    continue // Found it, no need to go deeper in this branch
-                } catch {
-                    // Not a src/main/res path
+                const found: AndroidResourceDir[] = []
+                for (const { layout, segments } of RESOURCE_DIR_PATHS) {
+                    try {
+                        const sourceSetHandle = await nextHandle.getDirectoryHandle(segments[0])
+                        const resHandle = await sourceSetHandle.getDirectoryHandle(segments[1])
+                        found.push({
+                            name: currentPath || dirHandle.name,
+                            path: `${nextPath}/${segments.join('/')}`,
+                            handle: resHandle,
+                            layout
+                        })
+                    } catch {
+                        // Not a resource path of this layout
+                    }
                 }
+                results.push(...found)
+                // Found it, no need to go deeper in this branch. KMP modules keep
+                // going so src/androidMain/res is found next to composeResources.
+                if (found.some(d => d.layout === 'android')) continue
             }
 
             // Recursive search
@@ -67,7 +82,8 @@ export async function findAndroidResourceDirectories(
         }
     }
 
-    return results
+    // A composeResources dir found via src/ is found again by the recursive search
+    return depth === 0 ? results.filter((d, i) => results.findIndex(r => r.path === d.path) === i) : results
 }
 
 /**
@@ -6,19 +6,116 @@ export interface ImageFile {
   height: number
   size: number
   preview: string
+  vectorDrawable?: VectorDrawableResult // set for SVG sources
+  vectorSource?: VectorSource // set for SVG/PDF sources, rendered per density instead of scaled
+  ninePatch?: boolean         // .9.png source: the 1px border is rebuilt per density, output stays PNG
+  animation?: AnimationInfo   // animated GIF/APNG/WebP source, converted to animated WebP
+}
+
+// Frames of an animated source, see lib/animation.ts
+export interface AnimationInfo {
+  mimeType: string            // ImageDecoder type, e.g. 'image/gif' (APNG decodes as 'image/png')
+  frameCount: number
+  duration?: number           // ms of one loop, read from the container; undefined when it cannot be parsed
+  loopCount: number           // 0 = forever
+}
+
+// Vector input rendered straight at each density's pixel size (px = dp × density factor)
+export interface VectorSource {
+  format: 'svg' | 'pdf'
+  widthDp: number             // logical size at mdpi
+  heightDp: number
+}
+
+// Result of converting an SVG source into an Android VectorDrawable
+export interface VectorDrawableResult {
+  xml: string
+  width: number               // intrinsic size in dp
+  height: number
+  unsupported: string[]       // SVG features that could not be converted (e.g. 'filter', 'mask', 'text')
 }
 
 export interface ConvertConfig {
+  target: ExportTargetId      // platform layout of downloads, see lib/exportTargets.ts
   inputScale: number
-  quality: number
+  format: OutputFormat
+  quality: number             // per-format meaning, see lib/encoders.ts
   lossless: boolean
+  filter: ResampleFilter
   selectedDensities: string[]
   nightMode: boolean
+  sizeBudget: SizeBudget
+  darkSuffixes: string[]      // name suffixes paired as dark variants, e.g. '_dark'; empty = no pairing
+  qualifiers: QualifierConfig
+  customDensities: CustomDensity[] // user-defined buckets besides ldpi-xxxhdpi, e.g. Wear OS 280dpi
+  webp: WebPOptions           // advanced libwebp settings, see lib/webpOptions.ts
+}
+
+// libwebp content preset, tunes filtering and spatial noise shaping of lossy output
+export type WebPPreset = 'default' | 'icon' | 'picture' | 'photo' | 'drawing'
+
+// Advanced libwebp encoder settings (cwebp flags in parentheses)
+export interface WebPOptions {
+  preset: WebPPreset
+  method: number              // 0-6, speed/size trade-off (-m)
+  alphaQuality: number        // 0-100, lossy alpha channel quality (-alpha_q)
+  nearLossless: number        // 0-100, lossless only, 100 = off (-near_lossless)
+  useSharpYuv: boolean        // sharper RGB→YUV conversion for lossy (-sharp_yuv)
+  exact: boolean              // keep RGB of transparent pixels (-exact)
+  snsStrength: number         // 0-100, spatial noise shaping (-sns)
+  filterStrength: number      // 0-100, deblocking filter (-f)
+}
+
+// Named bundle of WebP settings shared within a team
+export interface WebPProfile {
+  name: string
+  options: WebPOptions
+}
+
+// User-defined density bucket, written to drawable-<name>
+export interface CustomDensity {
+  name: string                // density qualifier, e.g. '280dpi'
+  factor: number              // pixels per dp, e.g. 1.75
+}
+
+// Extra resource qualifiers of the output folders, see lib/qualifiers.ts.
+// Every combination is written; '' in a list = without that qualifier.
+export interface QualifierConfig {
+  locales: string[]           // e.g. 'en', 'zh-rCN', 'b+sr+Latn'
+  layoutDirections: string[]  // 'ldrtl' | 'ldltr'
+  smallestWidths: string[]    // e.g. 'sw600dp'
+  orientations: string[]      // 'port' | 'land'
+  apiLevels: string[]         // e.g. 'v26'
+  mirrorRtl: boolean          // ldrtl folders get horizontally mirrored bitmaps
 }
 
+// Maximum encoded size per output file. When enabled (WebP only), the quality
+// is searched per density instead of using ConvertConfig.quality.
+export interface SizeBudget {
+  enabled: boolean
+  maxKb: number
+  densityKb: Record<string, number> // per-density limits, e.g. { xxhdpi: 40 }; missing = maxKb
+}
+
+// Encoding chosen for one output under a size budget
+export interface BudgetResult {
+  quality: number             // lossy quality, or compression effort when lossless
+  lossless: boolean
+  size: number                // bytes
+  maxBytes: number
+  fits: boolean               // false when even the smallest encoding exceeds the budget
+}
+
+// Per-file settings that replace the global ConvertConfig values
+export type ConvertOverrides = Partial<Pick<ConvertConfig, 'inputScale' | 'quality' | 'lossless' | 'selectedDensities' | 'nightMode'>>
+
 export interface ConvertedImage {
-  density: string
+  density: string             // output folder, e.g. 'drawable-xhdpi'
+  densityName: string         // density bucket, e.g. 'xhdpi' ('drawable' for density-independent files)
   blob: Blob
+  extension: string           // file extension without leading dot, e.g. 'webp' | 'xml' | '9.png'
+  nameSuffix?: string         // appended to the resource name, e.g. '_frame_01' for animation-list frames
+  budget?: BudgetResult       // set when the quality was searched for a size budget
 }
 
 export interface ProcessingFile extends ImageFile {
@@ -28,6 +125,235 @@ export interface ProcessingFile extends ImageFile {
   error?: string
   outputName: string
   isEditing?: boolean
+  selected?: boolean          // included in batch rename
+  rasterize?: boolean         // SVG only: export density bitmaps instead of VectorDrawable XML
+  overrides?: ConvertOverrides // set by the user, applied over detectedInputScale
+  detectedInputScale?: number // from @2x/@3x names or scale folders, replaces the global input scale
+  scaleVariants?: string[]    // paths of lower-resolution variants merged into this file
+  budgetResults?: { density: string; budget: BudgetResult }[] // from the last size-budgeted conversion
+  darkVariant?: ImageFile     // paired foo_dark.png or attached by hand, encoded into the night folders
+  nightTransform?: NightTransform // generates the night version when there is no dark variant
+  loopCount?: number          // animated sources: replaces the source's loop count, 0 = forever
+  animationList?: boolean     // animated sources: also write an <animation-list> for minSdk < 28
+  transform?: ImageTransform  // still bitmaps: canvas edits applied before scaling
+  colorVariants?: ColorVariant[] // recolored copies written as <name><suffix> in every density
+}
+
+// Recolored copy of a file, see lib/colorVariants.ts
+export interface ColorVariant {
+  suffix: string              // appended to the resource name, e.g. '_white'
+  recolor: Recolor
+}
+
+// Color replacement that keeps the alpha of every pixel
+export interface Recolor {
+  mode: 'tint' | 'palette'
+  color: string               // tint: color of every non-transparent pixel
+  palette: PaletteEntry[]     // palette: pixels take the target of their nearest source color
+}
+
+export interface PaletteEntry {
+  from: string                // source color, e.g. '#212121'
+  to: string
+}
+
+// Night version generated from a monochrome light image
+export interface NightTransform {
+  mode: 'invert' | 'recolor'
+  color: string               // recolor only: replaces the color of every pixel, alpha is kept
+}
+
+// Canvas edits of a still bitmap before it is scaled, see lib/imageTransforms.ts
+export interface ImageTransform {
+  trim: boolean               // crop transparent borders
+  trimThreshold: number       // 0-254, alpha at or below which a border pixel counts as transparent
+  trimBounds?: PixelRect      // content box found at trimThreshold, missing until measured
+  paddingDp: number           // transparent margin added on every side
+  square: boolean             // center the content on a square canvas
+  snap: boolean               // grow the canvas so every density gets whole (even when possible) pixel sizes
+}
+
+export interface PixelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Source pixels of a transformed image, derived from ImageTransform and the config per conversion
+export interface TransformLayout {
+  sourceWidth: number         // size the crop refers to; other sources (a dark variant) are scaled to it
+  sourceHeight: number
+  crop: PixelRect             // kept part of the source
+  x: number                   // position of the crop on the new canvas
+  y: number
+  width: number               // new canvas size, used instead of the source size for every density
+  height: number
+  snapSkipped?: string[]      // selected densities that never get whole pixel sizes (tvdpi)
+  snapUnavailable?: boolean   // snap requested, but no canvas step is whole in source pixels at this input scale
+}
+
+// Resampling kernel used to scale bitmaps (nearest keeps pixel art sharp)
+export type ResampleFilter = 'lanczos3' | 'mitchell' | 'box' | 'nearest'
+
+// Platform whose asset layout downloads use
+export type ExportTargetId = 'android' | 'compose' | 'ios' | 'flutter' | 'react-native'
+
+// Encoded bitmap format of a conversion task
+export type OutputFormat = 'webp' | 'png' | 'avif'
+
+// Single resize + encode job executed by the image worker pool
+export interface ConvertTask {
+  source: Blob | ImageBitmap  // pre-rendered bitmaps (vector sources) are already at the target size
+  width: number
+  height: number
+  quality: number
+  lossless: boolean
+  format: OutputFormat
+  filter: ResampleFilter
+  webp?: WebPOptions          // WebP only: advanced encoder settings, libwebp defaults when missing
+  ninePatch?: boolean         // width/height include the 1px nine-patch border
+  transform?: TransformLayout // crop and pad the source before resampling
+  recolor?: Recolor           // applied after resampling, before the night transform
+  nightTransform?: NightTransform // applied after resampling
+  mirror?: boolean            // flip horizontally for right-to-left layouts
+  animation?: AnimationTask   // encode every frame of the source into an animated WebP
+  maxBytes?: number           // WebP only: search the highest quality that fits instead of using `quality`
+  returnPixels?: boolean      // also return the resized pixels before encoding (comparison viewer)
+}
+
+export interface AnimationTask {
+  mimeType: string
+  loopCount: number           // 0 = forever
+  frames: boolean             // also return every frame encoded in the task's format
+}
+
+export interface ConvertTaskResult {
+  buffer: ArrayBuffer
+  mimeType: string
+  budget?: BudgetResult
+  pixels?: ImageData
+  frames?: { buffer: ArrayBuffer; mimeType: string; duration: number }[] // animation tasks with `frames`
+}
+
+// One generated file of a "write to project" export, compared against the project's res dir
+export interface ProjectExportItem {
+  folder: string              // e.g. 'drawable-xhdpi'
+  fileName: string            // e.g. 'ic_logo.webp'
+  blob: Blob
+  width: number | null        // null for XML drawables
+  height: number | null
+  existing: ExistingResourceFile | null
+  status: 'new' | 'overwrite' | 'unchanged'
+  conflicts: string[]         // other files with the same resource name, e.g. 'ic_logo.png'
+}
+
+export type ProjectExportStatus = 'scanning' | 'ready' | 'writing' | 'completed' | 'error'
+
+export interface ExistingResourceFile {
+  size: number
+  width: number | null
+  height: number | null
+}
+
+// One drawable-*/mipmap-* file found by the project audit
+export interface AuditFileRef {
+  module: string              // e.g. 'app'
+  folder: string              // e.g. 'drawable-xhdpi'
+  fileName: string            // e.g. 'ic_logo.png'
+}
+
+// A resource present in some density folders of a family (same module, type and other qualifiers) but not all
+export interface MissingDensityIssue {
+  module: string
+  family: string              // folder without its density, e.g. 'drawable-night'
+  name: string
+  present: string[]           // e.g. ['xhdpi', 'xxhdpi']
+  missing: string[]
+}
+
+// A bitmap whose size does not follow the density ratio of its largest version
+export interface DimensionIssue extends AuditFileRef {
+  width: number
+  height: number
+  expectedWidth: number
+  expectedHeight: number
+  reference: string           // folder of the version the expected size is scaled from
+}
+
+export interface WebPSavingIssue extends AuditFileRef {
+  size: number
+  webpSize: number
+}
+
+// Byte-identical files in more than one module
+export interface DuplicateIssue {
+  size: number
+  files: AuditFileRef[]
+}
+
+// A drawable no source, resource or manifest refers to, with every file that holds it
+export interface UnusedDrawableIssue {
+  module: string
+  path: string                // res dir of the module, e.g. 'app/src/main/res'
+  name: string
+  files: (AuditFileRef & { size: number })[]
+  size: number                // total bytes over all folders
+}
+
+export interface AuditReport {
+  project: string
+  scannedAt: string           // ISO date
+  fileCount: number
+  totalBytes: number
+  missingDensities: MissingDensityIssue[]
+  dimensionMismatches: DimensionIssue[]
+  webpSavings: WebPSavingIssue[]
+  duplicates: DuplicateIssue[]
+  unusedDrawables: UnusedDrawableIssue[]
+}
+
+export type AuditStatus = 'idle' | 'scanning' | 'ready' | 'error'
+
+export type UnusedDeleteStatus = 'ready' | 'deleting' | 'completed' | 'error'
+
+// Why a PNG/JPG is left out of the in-place WebP conversion
+export type WebPSkipReason = 'ninePatch' | 'launcherIcon' | 'minSdk' | 'transparency' | 'exists' | 'failed'
+
+// One PNG/JPG of a module's in-place conversion to WebP
+export interface WebPConversionItem {
+  folder: string              // e.g. 'drawable-xhdpi'
+  fileName: string            // original, e.g. 'ic_logo.png'
+  webpName: string            // e.g. 'ic_logo.webp'
+  size: number
+  webpSize: number | null     // null when skipped before encoding
+  ssim: number | null         // 0-1, 1 = identical
+  blob: Blob | null
+  skipReason: WebPSkipReason | null
+  selected: boolean           // written on confirm, files that grow start unselected
+}
+
+export type WebPConversionStatus = 'scanning' | 'ready' | 'writing' | 'completed' | 'error'
+
+// Launcher icon mask shapes used by common launchers
+export type IconMaskShape = 'circle' | 'squircle' | 'rounded-square'
+
+// One adaptive icon layer (108dp square, only the central 72dp is visible)
+export interface LauncherLayer {
+  type: 'image' | 'color'
+  color: string               // #RRGGBB, used when type is 'color'
+  file: File | null           // used when type is 'image'
+  preview: string | null      // object URL of file
+  scale: number               // image size in percent of the layer (100 = fit)
+}
+
+export interface LauncherIconConfig {
+  name: string                // resource name, e.g. 'ic_launcher'
+  foreground: LauncherLayer
+  background: LauncherLayer
+  monochrome: LauncherLayer | null // optional themed-icon layer (Android 13+), image only
+  quality: number
+  lossless: boolean
 }
 
 export interface XmlFile {
@@ -95,8 +421,12 @@ export interface AndroidResourceDir {
   name: string                 // e.g., 'app' or 'lib'
   path: string                 // e.g., 'app/src/main/res'
   handle: FileSystemDirectoryHandle
+  layout: ResourceLayout
 }
 
+// Resource folder layout: Android `res` or Compose Multiplatform `composeResources`
+export type ResourceLayout = 'android' | 'compose'
+
 // Single file to locale mapping rule
 export interface LocaleMapping {
   sourceFileName: string    // 'ar_strings.xml'
@@ -9,8 +9,12 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  worker: {
+    // Workers import the WASM encoders, which need code-splitting (not supported by 'iife')
+    format: 'es',
+  },
   optimizeDeps: {
-    exclude: ['@jsquash/webp'],
+    exclude: ['@jsquash/webp', '@jsquash/avif', '@jsquash/oxipng'],
   },
 })
 